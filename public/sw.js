@@ -1,5 +1,13 @@
 // OfflinePay Service Worker - PWA + Push Notifications
 const CACHE_NAME = 'offlinepay-v1';
+
+// Shared sync engine, built by vite.sw.config.ts. Missing in the dev server, where
+// background sync falls back to asking open windows to sync.
+try {
+  importScripts('/sw-sync.js');
+} catch (err) {
+  console.log('[SW] Background sync bundle unavailable:', err);
+}
 const STATIC_ASSETS = [
   '/',
   '/index.html',
@@ -140,16 +148,46 @@ self.addEventListener('notificationclick', function(event) {
   );
 });
 
+// Open windows share the offline data key after the user unlocks with their PIN. It is
+// only held in memory, so after the browser stops this worker it waits for a window again.
+self.addEventListener('message', function(event) {
+  if (event.data?.type !== 'OFFLINE_VAULT' || !self.OfflinePaySync) return;
+
+  const vault = event.data.vault;
+  if (vault) {
+    self.OfflinePaySync.setVaultKey(vault.userId, vault.key);
+  } else {
+    self.OfflinePaySync.lockOfflineVault();
+  }
+});
+
+// Ask open windows to sync when the worker cannot do it itself
+function notifyClientsToSync() {
+  return clients.matchAll().then(function(clientList) {
+    clientList.forEach(function(client) {
+      client.postMessage({ type: 'SYNC_TRANSACTIONS' });
+    });
+  });
+}
+
 // Background sync for pending transactions
 self.addEventListener('sync', function(event) {
   if (event.tag === 'sync-transactions') {
     console.log('[SW] Background sync triggered');
+
+    if (!self.OfflinePaySync) {
+      event.waitUntil(notifyClientsToSync());
+      return;
+    }
+
+    // Submit the offline queue from the worker so it settles even with the app closed.
+    // A rejection tells the browser to retry the sync later.
     event.waitUntil(
-      // Notify the app to sync
-      clients.matchAll().then(function(clientList) {
-        clientList.forEach(function(client) {
-          client.postMessage({ type: 'SYNC_TRANSACTIONS' });
-        });
+      self.OfflinePaySync.runBackgroundSync().then(function(handled) {
+        if (!handled) {
+          console.log('[SW] Offline data locked or no session, deferring sync to open windows');
+          return notifyClientsToSync();
+        }
       })
     );
   }
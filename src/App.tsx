@@ -6,16 +6,22 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { AuthProvider } from "@/hooks/useAuth";
 import { PWAInstallPrompt } from "@/components/PWAInstallPrompt";
+import { OfflineVaultPrompt } from "@/components/OfflineVaultPrompt";
 import Splash from "./pages/Splash";
 import Login from "./pages/Login";
 import SignUp from "./pages/SignUp";
+import ForgotPin from "./pages/ForgotPin";
 import Dashboard from "./pages/Dashboard";
 import SendMoney from "./pages/SendMoney";
 import ReceiveMoney from "./pages/ReceiveMoney";
 import History from "./pages/History";
+import RelayVouchers from "./pages/RelayVouchers";
+import PaymentRequests from "./pages/PaymentRequests";
+import SplitBill from "./pages/SplitBill";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
 import Settings from "./pages/Settings";
+import ScheduledTransfers from "./pages/ScheduledTransfers";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -29,15 +35,21 @@ const App = () => (
           <Sonner />
           <PWAInstallPrompt />
           <BrowserRouter>
+            <OfflineVaultPrompt />
             <Routes>
               <Route path="/" element={<Splash />} />
               <Route path="/login" element={<Login />} />
               <Route path="/signup" element={<SignUp />} />
+              <Route path="/forgot-pin" element={<ForgotPin />} />
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/send" element={<SendMoney />} />
               <Route path="/receive" element={<ReceiveMoney />} />
               <Route path="/history" element={<History />} />
+              <Route path="/relay" element={<RelayVouchers />} />
+              <Route path="/requests" element={<PaymentRequests />} />
+              <Route path="/split" element={<SplitBill />} />
               <Route path="/settings" element={<Settings />} />
+              <Route path="/settings/scheduled-transfers" element={<ScheduledTransfers />} />
               <Route path="/admin/login" element={<AdminLogin />} />
               <Route path="/admin" element={<AdminDashboard />} />
               <Route path="*" element={<NotFound />} />
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+
+interface AnimatedQrCodeProps {
+  frames: string[];
+  intervalMs?: number;
+  size?: number;
+}
+
+// Loops through QR frames so a scanner can pick up data too large for a single code
+export function AnimatedQrCode({ frames, intervalMs = 400, size = 240 }: AnimatedQrCodeProps) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (frames.length < 2) return;
+
+    const timer = setInterval(() => {
+      setIndex((current) => (current + 1) % frames.length);
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }, [frames, intervalMs]);
+
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="p-3 bg-white rounded-xl shadow-lg">
+        <QRCodeSVG
+          value={frames[index % frames.length]}
+          size={size}
+          level="L"
+          includeMargin
+          bgColor="#ffffff"
+          fgColor="#000000"
+        />
+      </div>
+      {frames.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Frame {(index % frames.length) + 1} of {frames.length}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { Wallet, getWallets } from "@/lib/auth";
+import { Currency, getActiveCurrencies, openWallet } from "@/lib/currencies";
+import { HOME_CURRENCY, formatMoney } from "@/lib/money";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { Globe, Loader2 } from "lucide-react";
+
+// Wallets in currencies other than the home one, which are online only
+export function CurrencyWalletsCard() {
+  const { user } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [newCurrency, setNewCurrency] = useState("");
+  const [isOpening, setIsOpening] = useState(false);
+
+  const refreshWallets = useCallback(async () => {
+    if (!user || !isOnline) return;
+    try {
+      const [walletList, currencyList] = await Promise.all([
+        getWallets(user.id),
+        getActiveCurrencies(),
+      ]);
+      setWallets(walletList.filter((w) => w.currency !== HOME_CURRENCY));
+      setCurrencies(currencyList);
+    } catch (error) {
+      console.error("Error loading currency wallets:", error);
+    }
+  }, [user, isOnline]);
+
+  useEffect(() => {
+    refreshWallets();
+  }, [refreshWallets]);
+
+  const handleOpen = async () => {
+    if (!newCurrency) return;
+
+    setIsOpening(true);
+    try {
+      await openWallet(newCurrency);
+      await refreshWallets();
+      setNewCurrency("");
+      toast({ title: `${newCurrency} wallet opened` });
+    } catch (error: unknown) {
+      toast({
+        title: "Failed to open wallet",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const openable = currencies.filter(
+    (currency) =>
+      currency.code !== HOME_CURRENCY && !wallets.some((w) => w.currency === currency.code)
+  );
+
+  if (!isOnline || (wallets.length === 0 && openable.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Globe className="h-5 w-5 text-primary" />
+          <div>
+            <p className="font-medium text-sm">Other Currencies</p>
+            <p className="text-xs text-muted-foreground">
+              For payments abroad; these wallets cannot be used offline
+            </p>
+          </div>
+        </div>
+
+        {wallets.map((w) => (
+          <div key={w.id} className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{w.currency}</span>
+            <span className="font-medium">{formatMoney(w.balance, w.currency)}</span>
+          </div>
+        ))}
+
+        {openable.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={newCurrency} onValueChange={setNewCurrency}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Open a wallet in..." />
+              </SelectTrigger>
+              <SelectContent>
+                {openable.map((currency) => (
+                  <SelectItem key={currency.code} value={currency.code}>
+                    {currency.code} · {currency.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleOpen} disabled={!newCurrency || isOpening}>
+              {isOpening && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Open
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { getOfflinePurse } from "@/lib/offlineDb";
+import { loadOfflinePurse, returnOfflinePurse } from "@/lib/offlinePurse";
+import { Money, MoneyError, ZERO_MONEY, formatMoney, parsePaymentAmount } from "@/lib/money";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { Loader2, PiggyBank } from "lucide-react";
+
+export function OfflinePurseCard() {
+  const { user, wallet, refreshWallet } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const [purseBalance, setPurseBalance] = useState<Money>(ZERO_MONEY);
+  const [showLoadDialog, setShowLoadDialog] = useState(false);
+  const [loadAmount, setLoadAmount] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const refreshPurse = useCallback(async () => {
+    if (!user) return;
+    const purse = await getOfflinePurse(user.id);
+    setPurseBalance(purse.balance);
+  }, [user]);
+
+  useEffect(() => {
+    refreshPurse();
+  }, [refreshPurse]);
+
+  const handleLoad = async () => {
+    if (!user) return;
+    let amount: Money;
+    try {
+      amount = parsePaymentAmount(loadAmount);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const balance = await loadOfflinePurse(user.id, amount);
+      setPurseBalance(balance);
+      await refreshWallet();
+      setShowLoadDialog(false);
+      setLoadAmount("");
+      toast({
+        title: "Offline purse loaded",
+        description: `${formatMoney(amount)} is now available offline`,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : undefined;
+      toast({
+        title: "Failed to load purse",
+        description: message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReturn = async () => {
+    if (!user) return;
+
+    setIsWorking(true);
+    try {
+      const returned = await returnOfflinePurse(user.id);
+      await Promise.all([refreshPurse(), refreshWallet()]);
+      toast({
+        title: "Purse returned",
+        description: `${formatMoney(returned)} moved back to your balance`,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : undefined;
+      toast({
+        title: "Failed to return purse",
+        description: message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <PiggyBank className="h-5 w-5 text-primary" />
+            <div>
+              <p className="font-medium text-sm">Offline Purse</p>
+              <p className="text-xs text-muted-foreground">
+                {formatMoney(purseBalance)} available for offline payments
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleReturn}
+              disabled={!isOnline || isWorking || purseBalance <= 0}
+            >
+              Return
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setShowLoadDialog(true)}
+              disabled={!isOnline || isWorking}
+            >
+              Load
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showLoadDialog} onOpenChange={setShowLoadDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Load Offline Purse</DialogTitle>
+            <DialogDescription>
+              Funds are reserved from your balance so offline payments are guaranteed to settle.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input
+              type="number"
+              value={loadAmount}
+              onChange={(e) => setLoadAmount(e.target.value)}
+              placeholder="0.00"
+              className="text-2xl font-bold h-14"
+            />
+            <p className="text-sm text-muted-foreground">
+              Balance: {formatMoney(wallet?.balance ?? ZERO_MONEY)} · Limit:{" "}
+              {formatMoney(wallet?.offline_daily_limit ?? ZERO_MONEY)}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleLoad} disabled={isWorking}>
+              {isWorking && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Load Purse
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
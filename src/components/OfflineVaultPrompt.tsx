@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { hasOfflineVault, resetOfflineData, unlockOfflineData } from "@/lib/offlineDb";
+import { isOfflineVaultUnlocked, onOfflineVaultChange } from "@/lib/offlineVault";
+import { PinAttemptError, setUpOfflineDataRecovery, signOut, verifyPin } from "@/lib/auth";
+import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Lock } from "lucide-react";
+
+// Pages where the PIN is entered anyway, or that never touch offline data
+const UNGUARDED_PATHS = ["/", "/login", "/signup", "/forgot-pin"];
+
+// The offline data key only lives in memory, so after a reload a signed-in user
+// re-enters their PIN before the offline queue can be read or written
+export function OfflineVaultPrompt() {
+  const { user, profile } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [isUnlocked, setIsUnlocked] = useState(true);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // The account PIN, once the server confirms it, when the vault was sealed with an
+  // earlier PIN that was reset on another device or before recovery was set up
+  const [resetPinForWriteOff, setResetPinForWriteOff] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => setIsUnlocked(!user || isOfflineVaultUnlocked(user.id));
+    update();
+    return onOfflineVaultChange(update);
+  }, [user]);
+
+  const isGuarded =
+    !UNGUARDED_PATHS.includes(location.pathname) && !location.pathname.startsWith("/admin");
+
+  if (!user || isUnlocked || !isGuarded) {
+    return null;
+  }
+
+  const handleUnlock = async () => {
+    if (pin.length !== 4) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      // A new vault is keyed by whatever PIN is entered, so check it against the account first
+      if (!(await hasOfflineVault(user.id))) {
+        if (!profile) {
+          setError("Connect to the internet to unlock offline data.");
+          return;
+        }
+        try {
+          await verifyPin(pin);
+        } catch (pinError) {
+          setError(
+            pinError instanceof PinAttemptError
+              ? getTransactionErrorMessage(pinError)
+              : "Unable to check your PIN"
+          );
+          return;
+        }
+      }
+
+      if (!(await unlockOfflineData(user.id, pin))) {
+        if (!profile) {
+          setError("Incorrect PIN");
+        } else if (await isAccountPin(pin)) {
+          setResetPinForWriteOff(pin);
+        }
+        return;
+      }
+      setPin("");
+      if (profile) {
+        await setUpOfflineDataRecovery(user.id, pin);
+      }
+    } catch (unlockError) {
+      console.error("Error unlocking offline data:", unlockError);
+      setError("Unable to unlock offline data");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Tells a mistyped PIN apart from a vault no current PIN opens; sets the error otherwise
+  const isAccountPin = async (candidate: string) => {
+    try {
+      await verifyPin(candidate);
+      return true;
+    } catch (pinError) {
+      setError(
+        pinError instanceof PinAttemptError ? getTransactionErrorMessage(pinError) : "Incorrect PIN"
+      );
+      return false;
+    }
+  };
+
+  const handleWriteOff = async () => {
+    if (!resetPinForWriteOff) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const writtenOff = await resetOfflineData(user.id, resetPinForWriteOff);
+      await setUpOfflineDataRecovery(user.id, resetPinForWriteOff);
+      setResetPinForWriteOff(null);
+      setPin("");
+      toast({
+        title: "Offline data cleared",
+        description:
+          writtenOff > 0
+            ? `${writtenOff} unsynced offline payment${writtenOff === 1 ? " was" : "s were"} written off`
+            : "Offline payments on this device now use your new PIN",
+      });
+    } catch (writeOffError) {
+      console.error("Error writing off offline data:", writeOffError);
+      setError("Unable to clear offline data");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+    } finally {
+      navigate("/login");
+    }
+  };
+
+  return (
+    <Dialog open>
+      <DialogContent className="sm:max-w-sm [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Enter your PIN
+          </DialogTitle>
+          <DialogDescription>
+            Offline payments on this device are encrypted. Enter your PIN to unlock them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {resetPinForWriteOff ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Offline data on this device is locked with a PIN you have since reset, and it
+              cannot be recovered. Clear it to keep using offline payments. Unsynced payments
+              queued here are written off and your offline balance is not refunded, since
+              anyone you paid may still redeem them.
+            </p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter className="gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setResetPinForWriteOff(null)}
+                disabled={isUnlocking}
+              >
+                Back
+              </Button>
+              <Button variant="destructive" onClick={handleWriteOff} disabled={isUnlocking}>
+                {isUnlocking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Clear offline data"}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-col items-center gap-2 py-2">
+              <InputOTP maxLength={4} value={pin} onChange={(value) => setPin(value)}>
+                <InputOTPGroup>
+                  <InputOTPSlot index={0} />
+                  <InputOTPSlot index={1} />
+                  <InputOTPSlot index={2} />
+                  <InputOTPSlot index={3} />
+                </InputOTPGroup>
+              </InputOTP>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={handleLogout} disabled={isUnlocking}>
+                Log out
+              </Button>
+              <Button onClick={handleUnlock} disabled={isUnlocking || pin.length !== 4}>
+                {isUnlocking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Unlock"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+import type { PinAttempts } from "@/hooks/usePinAttempts";
+import { ShieldAlert } from "lucide-react";
+
+function formatWait(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}:${rest.toString().padStart(2, "0")}` : `${rest}s`;
+}
+
+// Remaining PIN attempts, or how long until the PIN can be tried again
+export function PinAttemptNotice({ attempts }: { attempts: PinAttempts }) {
+  const { remainingAttempts, secondsLeft, isLockedOut, mustWait } = attempts;
+
+  if (mustWait) {
+    return (
+      <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+        <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+        <p>
+          {isLockedOut
+            ? `Too many incorrect attempts. PIN entry is locked for ${formatWait(secondsLeft)}.`
+            : `Try again in ${formatWait(secondsLeft)}.`}
+        </p>
+      </div>
+    );
+  }
+
+  if (remainingAttempts !== null && remainingAttempts > 0) {
+    return (
+      <p className="text-center text-sm text-muted-foreground">
+        {remainingAttempts} {remainingAttempts === 1 ? "attempt" : "attempts"} left before PIN
+        entry is locked
+      </p>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState, ReactNode } from "react";
+import { Html5Qrcode } from "html5-qrcode";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, AlertCircle } from "lucide-react";
+
+interface QrScannerProps {
+  title: string;
+  // Called for every decoded frame until the scanner is closed
+  onScan: (text: string) => void;
+  onClose: () => void;
+  footer?: ReactNode;
+}
+
+const READER_ID = "qr-scanner-reader";
+
+// Fullscreen camera overlay; the parent unmounts it to stop the camera
+export function QrScanner({ title, onScan, onClose, footer }: QrScannerProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const html5QrCode = new Html5Qrcode(READER_ID);
+    setError(null);
+
+    const starting = html5QrCode
+      .start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: { width: 250, height: 250 } },
+        (decodedText) => onScanRef.current(decodedText),
+        () => {
+          // Ignore scan errors (these happen continuously while scanning)
+        }
+      )
+      .then(
+        () => true,
+        (startError: unknown) => {
+          console.error("Scanner error:", startError);
+          const message = startError instanceof Error ? startError.message : undefined;
+          setError(message || "Failed to start camera");
+          return false;
+        }
+      );
+
+    // Closing while the camera is still starting stops it once it is up
+    return () => {
+      starting
+        .then((started) => started && html5QrCode.stop())
+        .catch((stopError) => console.error("Error stopping scanner:", stopError));
+    };
+  }, [attempt]);
+
+  return (
+    <div className="fixed inset-0 bg-background z-50 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b bg-background">
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="font-semibold text-lg">{title}</h1>
+      </div>
+
+      {/* Camera View */}
+      <div className="flex-1 relative bg-black flex items-center justify-center px-4">
+        <div id={READER_ID} className="w-full max-w-sm aspect-square" />
+        {error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-background p-4">
+            <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+            <p className="text-center text-destructive font-medium mb-2">Camera Error</p>
+            <p className="text-center text-muted-foreground text-sm mb-4">{error}</p>
+            <Button onClick={() => setAttempt((n) => n + 1)} variant="outline">
+              Try Again
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {footer && <div className="p-4 bg-background border-t">{footer}</div>}
+    </div>
+  );
+}
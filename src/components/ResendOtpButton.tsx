@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+
+interface ResendOtpButtonProps {
+  resendAt: Date | null;
+  onResend: () => void;
+  disabled?: boolean;
+}
+
+// Counts down until the otp function will send another code
+export function ResendOtpButton({ resendAt, onResend, disabled }: ResendOtpButtonProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!resendAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [resendAt]);
+
+  const secondsLeft = resendAt ? Math.max(0, Math.ceil((resendAt.getTime() - now) / 1000)) : 0;
+
+  return (
+    <Button
+      type="button"
+      variant="link"
+      className="w-full"
+      onClick={onResend}
+      disabled={disabled || secondsLeft > 0}
+    >
+      {secondsLeft > 0 ? `Resend code in ${secondsLeft}s` : "Resend code"}
+    </Button>
+  );
+}
@@ -1,7 +1,11 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { getProfile, getWallet, isAdmin } from "@/lib/auth";
+import { registerDeviceKey } from "@/lib/deviceKeys";
+import { saveBackgroundSyncSession } from "@/lib/backgroundSync";
+import { lockOfflineData } from "@/lib/offlineDb";
+import type { Money } from "@/lib/money";
 
 interface Profile {
   id: string;
@@ -9,7 +13,6 @@ interface Profile {
   phone: string;
   display_name: string | null;
   payment_id: string;
-  pin_hash: string;
   device_id: string | null;
   is_active: boolean;
   created_at: string;
@@ -19,9 +22,11 @@ interface Profile {
 interface Wallet {
   id: string;
   user_id: string;
-  balance: number;
-  offline_daily_limit: number;
-  offline_used_today: number;
+  currency: string;
+  balance: Money;
+  offline_daily_limit: Money;
+  offline_used_today: Money;
+  offline_reserve: Money;
   last_offline_reset: string;
   created_at: string;
   updated_at: string;
@@ -65,6 +70,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     } catch (error) {
       console.error("Error loading user data:", error);
     }
+
+    // Offline vouchers can only be verified once this device's key is registered
+    if (navigator.onLine) {
+      registerDeviceKey(userId).catch((error) =>
+        console.error("Error registering device key:", error)
+      );
+    }
   };
 
   const refreshProfile = async () => {
@@ -78,7 +90,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const refreshWallet = async () => {
+  // Stable identity so sync listeners can refresh the wallet without re-subscribing
+  const refreshWallet = useCallback(async () => {
     if (user) {
       try {
         const walletData = await getWallet(user.id);
@@ -87,7 +100,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         console.error("Error refreshing wallet:", error);
       }
     }
-  };
+  }, [user]);
 
   useEffect(() => {
     // Set up auth state listener BEFORE getting initial session
@@ -97,6 +110,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setSession(newSession);
       setUser(newSession?.user ?? null);
 
+      // Keep the service worker's copy of the access token current for background sync
+      saveBackgroundSyncSession(newSession).catch((error) =>
+        console.error("Error saving background sync session:", error)
+      );
+
       if (newSession?.user) {
         // Use setTimeout to prevent potential deadlock
         setTimeout(() => loadUserData(newSession.user.id), 0);
@@ -104,6 +122,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setProfile(null);
         setWallet(null);
         setIsAdminUser(false);
+        // Covers expired sessions as well as explicit sign-outs
+        lockOfflineData();
       }
       setIsLoading(false);
     });
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { getLedgerBalance, onLedgerChange, recordWalletSnapshot, LedgerBalance } from "@/lib/shadowLedger";
+import { onOfflineVaultChange } from "@/lib/offlineVault";
+
+export function useLedgerBalance() {
+  const { user, wallet } = useAuth();
+  const userId = user?.id;
+  const [ledger, setLedger] = useState<LedgerBalance | null>(null);
+
+  const refreshLedger = useCallback(async () => {
+    if (!userId) {
+      setLedger(null);
+      return;
+    }
+    try {
+      setLedger(await getLedgerBalance(userId));
+    } catch (error) {
+      console.error("Error reading local ledger:", error);
+    }
+  }, [userId]);
+
+  // Each wallet read from the server becomes the new confirmed snapshot
+  const recordSnapshot = useCallback(() => {
+    if (!userId || !wallet) return;
+    recordWalletSnapshot(userId, wallet).catch((error) =>
+      console.error("Error recording wallet snapshot:", error)
+    );
+  }, [userId, wallet]);
+
+  useEffect(() => {
+    recordSnapshot();
+  }, [recordSnapshot]);
+
+  useEffect(() => {
+    refreshLedger();
+    const unsubscribeLedger = onLedgerChange(refreshLedger);
+    // The snapshot is sealed, so it can only be written once the vault is unlocked
+    const unsubscribeVault = onOfflineVaultChange(() => {
+      recordSnapshot();
+      refreshLedger();
+    });
+
+    return () => {
+      unsubscribeLedger();
+      unsubscribeVault();
+    };
+  }, [refreshLedger, recordSnapshot]);
+
+  return { ledger, refreshLedger };
+}
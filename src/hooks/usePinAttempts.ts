@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from "react";
+import { PinAttemptError } from "@/lib/auth";
+
+export interface PinAttempts {
+  remainingAttempts: number | null;
+  secondsLeft: number;
+  isLockedOut: boolean;
+  mustWait: boolean;
+  recordFailure: (error: unknown) => void;
+  reset: () => void;
+}
+
+// Keeps what pin-auth said about the last rejected PIN and counts down any wait
+export function usePinAttempts(): PinAttempts {
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [retryAt, setRetryAt] = useState<Date | null>(null);
+  const [isLockedOut, setIsLockedOut] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt.getTime()) {
+        setRetryAt(null);
+        setIsLockedOut(false);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const recordFailure = useCallback((error: unknown) => {
+    if (!(error instanceof PinAttemptError)) return;
+    setRemainingAttempts(error.remainingAttempts);
+    setRetryAt(error.retryAt);
+    setIsLockedOut(error.code === "pin_locked");
+    setNow(Date.now());
+  }, []);
+
+  const reset = useCallback(() => {
+    setRemainingAttempts(null);
+    setRetryAt(null);
+    setIsLockedOut(false);
+  }, []);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt.getTime() - now) / 1000)) : 0;
+
+  return {
+    remainingAttempts,
+    secondsLeft,
+    isLockedOut: isLockedOut && secondsLeft > 0,
+    mustWait: secondsLeft > 0,
+    recordFailure,
+    reset,
+  };
+}
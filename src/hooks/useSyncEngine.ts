@@ -8,22 +8,30 @@ import {
   stopAutoSync,
 } from "@/lib/syncEngine";
 import { getPendingTransactions } from "@/lib/offlineDb";
+import { isOfflineVaultUnlocked, onOfflineVaultChange } from "@/lib/offlineVault";
 import { toast } from "@/hooks/use-toast";
 
 export function useSyncEngine() {
-  const { user } = useAuth();
+  const { user, refreshWallet } = useAuth();
+  const userId = user?.id;
   const { isOnline } = useNetworkStatus();
   const [isSyncing, setIsSyncing] = useState(false);
   const [pendingCount, setPendingCount] = useState(0);
 
   // Update pending count
   const updatePendingCount = useCallback(async () => {
-    const pending = await getPendingTransactions();
+    if (!userId || !isOfflineVaultUnlocked(userId)) {
+      setPendingCount(0);
+      return;
+    }
+    const pending = await getPendingTransactions(userId);
     setPendingCount(pending.length);
-  }, []);
+  }, [userId]);
 
   // Manual sync trigger
   const triggerSync = useCallback(async () => {
+    if (!userId) return;
+
     if (!isOnline) {
       toast({
         title: "You're offline",
@@ -33,21 +41,29 @@ export function useSyncEngine() {
     }
 
     setIsSyncing(true);
-    const result = await syncPendingTransactions();
+    const result = await syncPendingTransactions(userId, { force: true });
     setIsSyncing(false);
     await updatePendingCount();
     return result;
-  }, [isOnline, updatePendingCount]);
+  }, [userId, isOnline, updatePendingCount]);
 
   // Setup sync callback for notifications
   useEffect(() => {
-    setSyncCallback((status, message, count) => {
+    setSyncCallback((status, message, count, remote) => {
       if (status === "syncing") {
         setIsSyncing(true);
       } else {
         setIsSyncing(false);
         updatePendingCount();
 
+        // Reconcile the local ledger with the server once vouchers have settled
+        if (status === "success" && navigator.onLine) {
+          refreshWallet();
+        }
+
+        // Only the tab that ran the sync reports the outcome
+        if (remote) return;
+
         if (status === "success" && message) {
           toast({
             title: "Sync Complete",
@@ -66,26 +82,36 @@ export function useSyncEngine() {
     return () => {
       setSyncCallback(null);
     };
-  }, [updatePendingCount]);
+  }, [updatePendingCount, refreshWallet]);
 
   // Start auto-sync when user is logged in
   useEffect(() => {
-    if (user) {
-      startAutoSync();
+    if (userId) {
+      startAutoSync(userId);
       updatePendingCount();
     }
 
     return () => {
       stopAutoSync();
     };
-  }, [user, updatePendingCount]);
+  }, [userId, updatePendingCount]);
+
+  // The queue becomes readable once the user unlocks offline data
+  useEffect(() => {
+    return onOfflineVaultChange(() => {
+      updatePendingCount();
+      if (userId && navigator.onLine) {
+        syncPendingTransactions(userId);
+      }
+    });
+  }, [userId, updatePendingCount]);
 
   // Update pending count when coming online
   useEffect(() => {
     if (isOnline) {
       updatePendingCount();
     }
-  }, [isOnline, updatePendingCount]);
+  }, [userId, isOnline, updatePendingCount]);
 
   return {
     isSyncing,
@@ -14,6 +14,294 @@ export type Database = {
   }
   public: {
     Tables: {
+      bill_splits: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          creator_id: string
+          creator_share: number
+          id: string
+          title: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          creator_id: string
+          creator_share?: number
+          id?: string
+          title: string
+          total_amount: number
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          creator_id?: string
+          creator_share?: number
+          id?: string
+          title?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      currencies: {
+        Row: {
+          code: string
+          created_at: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      device_keys: {
+        Row: {
+          created_at: string
+          device_id: string
+          id: string
+          public_key: Json
+          revoked_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          id?: string
+          public_key: Json
+          revoked_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          id?: string
+          public_key?: Json
+          revoked_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      fx_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          quote_currency: string
+          rate: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          quote_currency: string
+          rate: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          quote_currency?: string
+          rate?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      ledger_entries: {
+        Row: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
+          created_at: string
+          currency: string
+          entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          id: string
+          journal_id: string
+          kind: Database["public"]["Enums"]["ledger_entry_kind"]
+          transaction_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          amount: number
+          created_at?: string
+          currency: string
+          entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          id?: string
+          journal_id: string
+          kind: Database["public"]["Enums"]["ledger_entry_kind"]
+          transaction_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          account?: Database["public"]["Enums"]["ledger_account"]
+          amount?: number
+          created_at?: string
+          currency?: string
+          entry_type?: Database["public"]["Enums"]["ledger_entry_type"]
+          id?: string
+          journal_id?: string
+          kind?: Database["public"]["Enums"]["ledger_entry_kind"]
+          transaction_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      offline_daily_usage: {
+        Row: {
+          amount_used: number
+          created_at: string
+          updated_at: string
+          usage_date: string
+          user_id: string
+        }
+        Insert: {
+          amount_used?: number
+          created_at?: string
+          updated_at?: string
+          usage_date: string
+          user_id: string
+        }
+        Update: {
+          amount_used?: number
+          created_at?: string
+          updated_at?: string
+          usage_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      otp_codes: {
+        Row: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          phone: string
+          purpose: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          phone: string
+          purpose: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone?: string
+          purpose?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      payment_requests: {
+        Row: {
+          amount: number
+          bill_split_id: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          note: string | null
+          payer_id: string
+          requester_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["payment_request_status"]
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bill_split_id?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          note?: string | null
+          payer_id: string
+          requester_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["payment_request_status"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bill_split_id?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          note?: string | null
+          payer_id?: string
+          requester_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["payment_request_status"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pin_attempts: {
+        Row: {
+          created_at: string
+          failed_count: number
+          last_failed_at: string | null
+          locked_until: string | null
+          lockout_count: number
+          scope: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_count?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          lockout_count?: number
+          scope: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_count?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          lockout_count?: number
+          scope?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -23,7 +311,6 @@ export type Database = {
           is_active: boolean | null
           payment_id: string
           phone: string
-          pin_hash: string
           updated_at: string
           user_id: string
         }
@@ -35,7 +322,6 @@ export type Database = {
           is_active?: boolean | null
           payment_id: string
           phone: string
-          pin_hash: string
           updated_at?: string
           user_id: string
         }
@@ -47,7 +333,6 @@ export type Database = {
           is_active?: boolean | null
           payment_id?: string
           phone?: string
-          pin_hash?: string
           updated_at?: string
           user_id?: string
         }
@@ -83,54 +368,198 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_transfer_runs: {
+        Row: {
+          error_code: string | null
+          error_message: string | null
+          id: string
+          run_at: string
+          scheduled_transfer_id: string
+          succeeded: boolean
+          transaction_id: string | null
+        }
+        Insert: {
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          run_at?: string
+          scheduled_transfer_id: string
+          succeeded: boolean
+          transaction_id?: string | null
+        }
+        Update: {
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          run_at?: string
+          scheduled_transfer_id?: string
+          succeeded?: boolean
+          transaction_id?: string | null
+        }
+        Relationships: []
+      }
+      scheduled_transfers: {
+        Row: {
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          description: string | null
+          end_at: string | null
+          frequency: Database["public"]["Enums"]["transfer_frequency"]
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          next_run_at: string | null
+          receiver_id: string
+          run_count: number
+          start_at: string
+          status: Database["public"]["Enums"]["scheduled_transfer_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          consecutive_failures?: number
+          created_at?: string
+          description?: string | null
+          end_at?: string | null
+          frequency?: Database["public"]["Enums"]["transfer_frequency"]
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          next_run_at?: string | null
+          receiver_id: string
+          run_count?: number
+          start_at: string
+          status?: Database["public"]["Enums"]["scheduled_transfer_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          consecutive_failures?: number
+          created_at?: string
+          description?: string | null
+          end_at?: string | null
+          frequency?: Database["public"]["Enums"]["transfer_frequency"]
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          next_run_at?: string | null
+          receiver_id?: string
+          run_count?: number
+          start_at?: string
+          status?: Database["public"]["Enums"]["scheduled_transfer_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           amount: number
           created_at: string
+          currency: string
           description: string | null
           device_id: string | null
           fraud_flagged: boolean | null
           fraud_reason: string | null
+          fx_rate: number | null
           id: string
           is_offline: boolean | null
+          offline_created_at: string | null
+          original_transaction_id: string | null
+          payment_request_id: string | null
+          received_amount: number | null
+          received_currency: string | null
           receiver_id: string | null
+          refunded_amount: number
+          relayed_by: string | null
+          reversed_by: string | null
           sender_id: string | null
           status: Database["public"]["Enums"]["transaction_status"]
           synced_at: string | null
           transaction_hash: string | null
           updated_at: string
+          voucher_signature: string | null
         }
         Insert: {
           amount: number
           created_at?: string
+          currency?: string
           description?: string | null
           device_id?: string | null
           fraud_flagged?: boolean | null
           fraud_reason?: string | null
+          fx_rate?: number | null
           id?: string
           is_offline?: boolean | null
+          offline_created_at?: string | null
+          original_transaction_id?: string | null
+          payment_request_id?: string | null
+          received_amount?: number | null
+          received_currency?: string | null
           receiver_id?: string | null
+          refunded_amount?: number
+          relayed_by?: string | null
+          reversed_by?: string | null
           sender_id?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
           synced_at?: string | null
           transaction_hash?: string | null
           updated_at?: string
+          voucher_signature?: string | null
         }
         Update: {
           amount?: number
           created_at?: string
+          currency?: string
           description?: string | null
           device_id?: string | null
           fraud_flagged?: boolean | null
           fraud_reason?: string | null
+          fx_rate?: number | null
           id?: string
           is_offline?: boolean | null
+          offline_created_at?: string | null
+          original_transaction_id?: string | null
+          payment_request_id?: string | null
+          received_amount?: number | null
+          received_currency?: string | null
           receiver_id?: string | null
+          refunded_amount?: number
+          relayed_by?: string | null
+          reversed_by?: string | null
           sender_id?: string | null
           status?: Database["public"]["Enums"]["transaction_status"]
           synced_at?: string | null
           transaction_hash?: string | null
           updated_at?: string
+          voucher_signature?: string | null
+        }
+        Relationships: []
+      }
+      user_pins: {
+        Row: {
+          algorithm: string
+          created_at: string
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -155,13 +584,36 @@ export type Database = {
         }
         Relationships: []
       }
+      vault_recovery_keys: {
+        Row: {
+          created_at: string
+          device_id: string
+          recovery_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          recovery_key: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          recovery_key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       wallets: {
         Row: {
           balance: number
           created_at: string
+          currency: string
           id: string
           last_offline_reset: string | null
           offline_daily_limit: number
+          offline_reserve: number
           offline_used_today: number
           updated_at: string
           user_id: string
@@ -169,9 +621,11 @@ export type Database = {
         Insert: {
           balance?: number
           created_at?: string
+          currency?: string
           id?: string
           last_offline_reset?: string | null
           offline_daily_limit?: number
+          offline_reserve?: number
           offline_used_today?: number
           updated_at?: string
           user_id: string
@@ -179,9 +633,11 @@ export type Database = {
         Update: {
           balance?: number
           created_at?: string
+          currency?: string
           id?: string
           last_offline_reset?: string | null
           offline_daily_limit?: number
+          offline_reserve?: number
           offline_used_today?: number
           updated_at?: string
           user_id?: string
@@ -193,7 +649,79 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancel_payment_request: { Args: { _request_id: string }; Returns: undefined }
+      close_bill_split: { Args: { _split_id: string }; Returns: number }
+      create_bill_split: {
+        Args: {
+          _expires_at?: string
+          _shares: Json
+          _title: string
+          _total_amount: number
+        }
+        Returns: string
+      }
+      create_payment_request: {
+        Args: {
+          _amount: number
+          _expires_at?: string
+          _note?: string
+          _payer_id: string
+        }
+        Returns: string
+      }
+      create_pin: { Args: { _pin: string }; Returns: undefined }
+      decline_payment_request: { Args: { _request_id: string }; Returns: undefined }
+      execute_scheduled_transfers: {
+        Args: { _limit?: number }
+        Returns: {
+          error_code: string
+          error_message: string
+          scheduled_transfer_id: string
+          status: Database["public"]["Enums"]["scheduled_transfer_status"]
+          succeeded: boolean
+          transaction_id: string
+          user_id: string
+        }[]
+      }
+      expire_payment_requests: { Args: never; Returns: number }
       generate_payment_id: { Args: never; Returns: string }
+      get_bill_splits: {
+        Args: never
+        Returns: {
+          closed_at: string
+          created_at: string
+          creator_share: number
+          id: string
+          participants: Json
+          title: string
+          total_amount: number
+        }[]
+      }
+      get_device_public_keys: {
+        Args: { _user_ids: string[] }
+        Returns: {
+          device_id: string
+          public_key: Json
+          user_id: string
+        }[]
+      }
+      get_payment_requests: {
+        Args: never
+        Returns: {
+          amount: number
+          counterparty_id: string
+          counterparty_name: string
+          counterparty_payment_id: string
+          created_at: string
+          direction: string
+          expires_at: string
+          id: string
+          note: string
+          responded_at: string
+          status: Database["public"]["Enums"]["payment_request_status"]
+          transaction_id: string
+        }[]
+      }
       get_profile_by_payment_id: {
         Args: { _payment_id: string }
         Returns: {
@@ -203,6 +731,27 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_scheduled_transfers: {
+        Args: never
+        Returns: {
+          amount: number
+          consecutive_failures: number
+          created_at: string
+          description: string
+          end_at: string
+          frequency: Database["public"]["Enums"]["transfer_frequency"]
+          id: string
+          last_error: string
+          last_run_at: string
+          next_run_at: string
+          receiver_id: string
+          receiver_name: string
+          receiver_payment_id: string
+          run_count: number
+          start_at: string
+          status: Database["public"]["Enums"]["scheduled_transfer_status"]
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -210,22 +759,99 @@ export type Database = {
         }
         Returns: boolean
       }
+      load_offline_purse: { Args: { _amount: number }; Returns: number }
+      open_wallet: { Args: { _currency: string }; Returns: string }
+      pay_payment_request: { Args: { _request_id: string }; Returns: string }
       process_transaction: {
         Args: {
           _amount: number
+          _currency?: string
           _description?: string
           _device_id?: string
           _is_offline?: boolean
+          _offline_timestamp?: string
+          _receive_currency?: string
           _receiver_id: string
           _sender_id: string
           _transaction_hash?: string
+          _voucher_signature?: string
         }
         Returns: string
       }
+      reconcile_wallet_balances: {
+        Args: never
+        Returns: {
+          account: Database["public"]["Enums"]["ledger_account"]
+          currency: string
+          display_name: string
+          drift: number
+          ledger_amount: number
+          payment_id: string
+          user_id: string
+          wallet_amount: number
+        }[]
+      }
+      register_device_key: {
+        Args: { _device_id: string; _public_key: Json }
+        Returns: undefined
+      }
+      reverse_transaction: {
+        Args: { _amount?: number; _reason?: string; _transaction_id: string }
+        Returns: string
+      }
+      revoke_device_key: { Args: { _device_id: string }; Returns: undefined }
+      save_vault_recovery_key: {
+        Args: { _device_id: string; _recovery_key: string }
+        Returns: undefined
+      }
+      submit_offline_voucher: {
+        Args: {
+          _amount: number
+          _description?: string
+          _device_id: string
+          _offline_timestamp: string
+          _receiver_id: string
+          _sender_id: string
+          _signed_at?: string
+          _transaction_hash: string
+          _voucher_signature: string
+        }
+        Returns: {
+          replayed: boolean
+          transaction_id: string
+        }[]
+      }
+      sync_offline_batch: {
+        Args: { _vouchers: Json }
+        Returns: {
+          error_code: string
+          error_message: string
+          status: string
+          transaction_id: string
+          voucher_id: string
+        }[]
+      }
+      unload_offline_purse: { Args: { _amount: number }; Returns: number }
     }
     Enums: {
       app_role: "admin" | "user"
+      ledger_account: "wallet_balance" | "offline_reserve" | "external"
+      ledger_entry_kind:
+        | "opening_balance"
+        | "transfer"
+        | "reversal"
+        | "offline_purse_load"
+        | "offline_purse_unload"
+      ledger_entry_type: "debit" | "credit"
+      payment_request_status: "pending" | "paid" | "declined" | "cancelled" | "expired"
+      scheduled_transfer_status:
+        | "active"
+        | "paused"
+        | "completed"
+        | "cancelled"
+        | "failed"
       transaction_status: "pending" | "completed" | "failed" | "cancelled"
+      transfer_frequency: "once" | "daily" | "weekly" | "monthly"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -354,7 +980,19 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      ledger_account: ["wallet_balance", "offline_reserve", "external"],
+      ledger_entry_kind: [
+        "opening_balance",
+        "transfer",
+        "reversal",
+        "offline_purse_load",
+        "offline_purse_unload",
+      ],
+      ledger_entry_type: ["debit", "credit"],
+      payment_request_status: ["pending", "paid", "declined", "cancelled", "expired"],
+      scheduled_transfer_status: ["active", "paused", "completed", "cancelled", "failed"],
       transaction_status: ["pending", "completed", "failed", "cancelled"],
+      transfer_frequency: ["once", "daily", "weekly", "monthly"],
     },
   },
 } as const
@@ -1,49 +1,182 @@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import type { Session } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import {
+  addOfflineDataRecovery,
+  getDeviceId,
+  hasOfflineDataRecovery,
+  hasOfflineVault,
+  lockOfflineData,
+  recoverOfflineData,
+  unlockOfflineData,
+} from "./offlineDb";
+import { generateRecoveryKey } from "./offlineVault";
+import { HOME_CURRENCY, Money, fromDecimal } from "./money";
+import {
+  TransactionError,
+  TransactionErrorCode,
+  getTransactionErrorCode,
+} from "./transactionErrors";
+
+type WalletAmountColumn = "balance" | "offline_reserve" | "offline_daily_limit" | "offline_used_today";
+
+// A wallet row with its amounts converted to Money
+export type Wallet = Omit<Tables<"wallets">, WalletAmountColumn> & Record<WalletAmountColumn, Money>;
+
+type TransactionAmountColumn = "amount" | "received_amount" | "refunded_amount";
+
+// A transaction row with its amounts converted to Money; received_amount is only set on
+// payments converted into the receiver's currency
+export type Transaction = Omit<Tables<"transactions">, TransactionAmountColumn> &
+  Record<"amount" | "refunded_amount", Money> & { received_amount: Money | null };
+
+type DriftAmountColumn = "wallet_amount" | "ledger_amount" | "drift";
+
+// A wallet account whose stored balance disagrees with its ledger entries
+export type WalletDrift = Omit<
+  Database["public"]["Functions"]["reconcile_wallet_balances"]["Returns"][number],
+  DriftAmountColumn
+> &
+  Record<DriftAmountColumn, Money>;
+
+// PINs are only ever checked by the pin-auth edge function, which counts failed attempts
+// per phone and device and locks them out after too many. It also owns the Supabase Auth
+// password, which is keyed by a server secret and so cannot be derived from the PIN.
+
+function phoneEmail(phone: string): string {
+  return `${phone}@offlinepay.app`;
+}
 
-// Simple hash function for PIN (in production, use bcrypt on server)
-export function hashPin(pin: string): string {
-  let hash = 0;
-  const str = pin + "offlinepay-salt-v1";
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
+// A rejected PIN, with what the server said about the attempts left
+export class PinAttemptError extends Error {
+  code: TransactionErrorCode | null;
+  remainingAttempts: number | null;
+  retryAt: Date | null;
+
+  constructor(
+    message: string,
+    code: TransactionErrorCode | null = null,
+    remainingAttempts: number | null = null,
+    retryAt: Date | null = null
+  ) {
+    super(message);
+    this.name = "PinAttemptError";
+    this.code = code;
+    this.remainingAttempts = remainingAttempts;
+    this.retryAt = retryAt;
   }
-  return Math.abs(hash).toString(16).padStart(16, "0");
 }
 
-export function verifyPin(pin: string, hash: string): boolean {
-  return hashPin(pin) === hash;
+// Non-2xx edge function responses carry the rejection reason in the JSON body
+async function functionErrorBody(error: unknown) {
+  const context = (error as { context?: Response }).context;
+  return context?.json?.().catch(() => null);
 }
 
-// Generate a mock OTP (in production, send real SMS)
-export function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+async function invokePinAuth<T>(body: Record<string, string>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>("pin-auth", {
+    body: { ...body, device_id: getDeviceId() },
+  });
+
+  if (error) {
+    const reason = await functionErrorBody(error);
+    throw new PinAttemptError(
+      reason?.error || error.message,
+      getTransactionErrorCode(reason),
+      typeof reason?.remaining_attempts === "number" ? reason.remaining_attempts : null,
+      reason?.retry_at ? new Date(reason.retry_at) : null
+    );
+  }
+
+  return data;
 }
 
-// Store OTP temporarily (in production, use server-side storage with expiry)
-const otpStore = new Map<string, { otp: string; expires: number }>();
+export async function signInWithPin(phone: string, pin: string) {
+  const { session } = await invokePinAuth<{ session: Session }>({ action: "login", phone, pin });
 
-export function storeOTP(phone: string, otp: string): void {
-  otpStore.set(phone, {
-    otp,
-    expires: Date.now() + 5 * 60 * 1000, // 5 minutes
-  });
+  const { data, error } = await supabase.auth.setSession(session);
+  if (error) throw error;
+  return data;
+}
+
+// Checks the signed-in user's PIN; throws a PinAttemptError if it is wrong
+export async function verifyPin(pin: string): Promise<void> {
+  await invokePinAuth({ action: "verify", pin });
+}
+
+// Changes the PIN and the account password together
+export async function changePin(currentPin: string, newPin: string): Promise<void> {
+  await invokePinAuth({ action: "change", pin: currentPin, new_pin: newPin });
+}
+
+// Phone verification codes are issued, texted and checked by the otp edge function
+export type OtpPurpose = "signup" | "reset_pin";
+
+async function invokeOtp<T>(body: Record<string, string>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>("otp", { body });
+
+  if (error) {
+    const reason = await functionErrorBody(error);
+    throw new TransactionError(reason?.error || error.message, getTransactionErrorCode(reason));
+  }
+
+  return data;
 }
 
-export function verifyOTP(phone: string, otp: string): boolean {
-  const stored = otpStore.get(phone);
-  if (!stored) return false;
-  if (Date.now() > stored.expires) {
-    otpStore.delete(phone);
+// Texts a code to the phone; returns when another one may be requested
+export async function sendOTP(phone: string, purpose: OtpPurpose): Promise<Date> {
+  const { resend_at } = await invokeOtp<{ resend_at: string }>({ action: "send", phone, purpose });
+  return new Date(resend_at);
+}
+
+// Confirms a signup code; signUp only works for a phone verified this way
+export async function verifyOTP(phone: string, code: string): Promise<void> {
+  await invokeOtp({ action: "verify", phone, code });
+}
+
+interface PinReset {
+  reset: boolean;
+  user_id: string;
+  vault_recovery_key: string | null;
+}
+
+// Sets a new PIN for a forgotten one, using a code sent with purpose "reset_pin", and
+// re-seals this device's offline data for it. Resolves to true if offline data is left
+// locked with the old PIN, for the unlock prompt to write off.
+export async function resetPin(phone: string, code: string, newPin: string): Promise<boolean> {
+  const { user_id, vault_recovery_key } = await invokeOtp<PinReset>({
+    action: "reset_pin",
+    phone,
+    code,
+    new_pin: newPin,
+    device_id: getDeviceId(),
+  });
+
+  if (vault_recovery_key && (await recoverOfflineData(user_id, vault_recovery_key, newPin))) {
     return false;
   }
-  const isValid = stored.otp === otp;
-  if (isValid) {
-    otpStore.delete(phone);
+  return hasOfflineVault(user_id);
+}
+
+// Gives the server a key for this device that re-opens its offline vault after a PIN
+// reset. Best effort: a vault without one can only be written off when the PIN is reset.
+export async function setUpOfflineDataRecovery(userId: string, pin: string): Promise<void> {
+  try {
+    if (await hasOfflineDataRecovery(userId)) return;
+
+    // Saved on the server first, so the vault never relies on a key the server lacks
+    const recoveryKey = generateRecoveryKey();
+    const { error } = await supabase.rpc("save_vault_recovery_key", {
+      _device_id: getDeviceId(),
+      _recovery_key: recoveryKey,
+    });
+    if (error) throw error;
+
+    await addOfflineDataRecovery(userId, pin, recoveryKey);
+  } catch (error) {
+    console.error("Error setting up offline data recovery:", error);
   }
-  return isValid;
 }
 
 // Generate unique payment ID
@@ -65,8 +198,9 @@ export async function signUp({ phone, pin, displayName }: SignUpData) {
   try {
     // Create user with phone as email (use a valid email format)
     // Using .app domain which is a valid TLD
-    const email = `${phone}@offlinepay.app`;
-    const password = hashPin(pin);
+    const email = phoneEmail(phone);
+    // Only a placeholder: pin-auth replaces it with the real password on first login
+    const password = `${crypto.randomUUID()}${crypto.randomUUID()}`;
 
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email,
@@ -98,7 +232,6 @@ export async function signUp({ phone, pin, displayName }: SignUpData) {
       user_id: authData.user.id,
       phone,
       display_name: displayName || `User ${phone.slice(-4)}`,
-      pin_hash: hashPin(pin),
       payment_id: paymentId,
       device_id: localStorage.getItem("offlinepay-device-id") || "web-" + Date.now(),
     });
@@ -110,11 +243,16 @@ export async function signUp({ phone, pin, displayName }: SignUpData) {
       throw new Error(`Failed to create profile: ${profileError.message}. Please ensure database is set up correctly.`);
     }
 
-    // Create wallet with initial balance (demo purposes)
-    const { error: walletError } = await supabase.from("wallets").insert({
-      user_id: authData.user.id,
-      balance: 1000.0, // Demo starting balance
-    });
+    // The PIN is hashed and stored on the server
+    const { error: pinError } = await supabase.rpc("create_pin", { _pin: pin });
+
+    if (pinError) {
+      console.error("PIN setup error:", pinError);
+      throw new Error(`Failed to set PIN: ${pinError.message}`);
+    }
+
+    // The server creates the wallet with its demo starting balance
+    const { error: walletError } = await supabase.rpc("open_wallet", { _currency: HOME_CURRENCY });
 
     if (walletError) {
       console.error("Wallet creation error:", walletError);
@@ -132,6 +270,10 @@ export async function signUp({ phone, pin, displayName }: SignUpData) {
       // Don't throw here, just log - role is less critical
     }
 
+    // Set up this device's offline vault with the new PIN
+    await unlockOfflineData(authData.user.id, pin);
+    await setUpOfflineDataRecovery(authData.user.id, pin);
+
     return { user: authData.user, paymentId };
   } catch (error: unknown) {
     console.error("SignUp error:", error);
@@ -146,26 +288,23 @@ interface SignInData {
 
 export async function signIn({ phone, pin }: SignInData) {
   try {
-    const email = `${phone}@offlinepay.app`;
-    const password = hashPin(pin);
+    console.log('Login attempt for:', phoneEmail(phone));
 
-    console.log('Login attempt for:', email);
-
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) {
-      console.error('Login error:', error);
-      throw new Error(error.message || 'Login failed. Please check your credentials.');
-    }
+    const data = await signInWithPin(phone, pin);
 
     if (!data.user) {
       throw new Error("Login failed. No user data returned.");
     }
 
     console.log("Login successful");
+
+    // Offline records are sealed with a key derived from the PIN
+    if (await unlockOfflineData(data.user.id, pin)) {
+      await setUpOfflineDataRecovery(data.user.id, pin);
+    } else {
+      console.warn("Offline data on this device was locked with a different PIN");
+    }
+
     return data;
   } catch (error: unknown) {
     console.error("SignIn error:", error);
@@ -178,6 +317,7 @@ export async function signOut() {
   if (error) {
     throw error;
   }
+  lockOfflineData();
 }
 
 export async function getCurrentUser() {
@@ -201,18 +341,67 @@ export async function getProfile(userId: string) {
   return data;
 }
 
-export async function getWallet(userId: string) {
+export function toWallet(row: Tables<"wallets">): Wallet {
+  return {
+    ...row,
+    balance: fromDecimal(row.balance),
+    offline_reserve: fromDecimal(row.offline_reserve),
+    offline_daily_limit: fromDecimal(row.offline_daily_limit),
+    offline_used_today: fromDecimal(row.offline_used_today),
+  };
+}
+
+export function toTransaction(row: Tables<"transactions">): Transaction {
+  return {
+    ...row,
+    amount: fromDecimal(row.amount),
+    received_amount: row.received_amount === null ? null : fromDecimal(row.received_amount),
+    refunded_amount: fromDecimal(row.refunded_amount),
+  };
+}
+
+export function toWalletDrift(
+  row: Database["public"]["Functions"]["reconcile_wallet_balances"]["Returns"][number]
+): WalletDrift {
+  return {
+    ...row,
+    wallet_amount: fromDecimal(row.wallet_amount),
+    ledger_amount: fromDecimal(row.ledger_amount),
+    drift: fromDecimal(row.drift),
+  };
+}
+
+// The home-currency wallet, which holds the offline purse
+export async function getWallet(userId: string): Promise<Wallet> {
   const { data, error } = await supabase
     .from("wallets")
     .select("*")
     .eq("user_id", userId)
+    .eq("currency", HOME_CURRENCY)
     .single();
 
   if (error) {
     throw error;
   }
 
-  return data;
+  return toWallet(data);
+}
+
+// Every wallet the user holds, home currency first
+export async function getWallets(userId: string): Promise<Wallet[]> {
+  const { data, error } = await supabase
+    .from("wallets")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  return data
+    .map(toWallet)
+    .sort((a, b) => Number(b.currency === HOME_CURRENCY) - Number(a.currency === HOME_CURRENCY));
 }
 
 export async function isAdmin(userId: string): Promise<boolean> {
@@ -0,0 +1,93 @@
+import type { Session } from "@supabase/supabase-js";
+import {
+  deleteOfflineSetting,
+  getPendingTransactions,
+  getSealedOfflineSetting,
+  setSealedOfflineSetting,
+} from "./offlineDb";
+import { getUnlockedVaultUserId, isOfflineVaultUnlocked, onOfflineVaultChange } from "./offlineVault";
+import { syncPendingTransactions } from "./syncEngine";
+
+export { setVaultKey, lockOfflineVault } from "./offlineVault";
+
+// The service worker has no access to the Supabase session in localStorage, so the
+// app mirrors the current access token into IndexedDB for background submissions.
+interface BackgroundSyncSession {
+  userId: string;
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Leave enough headroom for the request to reach the edge function before expiry
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+function sessionSettingKey(userId: string): string {
+  return `sync-session:${userId}`;
+}
+
+let currentSession: Session | null = null;
+
+async function persistSession(session: Session): Promise<void> {
+  await setSealedOfflineSetting<BackgroundSyncSession>(
+    session.user.id,
+    sessionSettingKey(session.user.id),
+    {
+      userId: session.user.id,
+      accessToken: session.access_token,
+      expiresAt: (session.expires_at ?? 0) * 1000,
+    }
+  );
+}
+
+export async function saveBackgroundSyncSession(session: Session | null): Promise<void> {
+  const previous = currentSession;
+  currentSession = session;
+
+  if (!session) {
+    if (previous) {
+      await deleteOfflineSetting(sessionSettingKey(previous.user.id));
+    }
+    return;
+  }
+
+  // The token is sealed, so while the vault is locked it is saved on the next unlock
+  if (isOfflineVaultUnlocked(session.user.id)) {
+    await persistSession(session);
+  }
+}
+
+onOfflineVaultChange(() => {
+  if (currentSession && isOfflineVaultUnlocked(currentSession.user.id)) {
+    persistSession(currentSession).catch((error) =>
+      console.error("Error saving background sync session:", error)
+    );
+  }
+});
+
+// Entry point for the service worker's `sync-transactions` event (built into sw-sync.js).
+// Returns false when the worker holds no vault key or usable session, so an open
+// window must sync instead. The key only reaches the worker from an unlocked window and
+// is gone once the browser stops the worker, so with every window closed the queue
+// waits until the app is opened and unlocked again. Rejects while vouchers remain
+// queued so the browser schedules another attempt.
+export async function runBackgroundSync(): Promise<boolean> {
+  const userId = getUnlockedVaultUserId();
+  if (!userId) return false;
+
+  const session = await getSealedOfflineSetting<BackgroundSyncSession>(
+    userId,
+    sessionSettingKey(userId)
+  );
+  if (!session || session.expiresAt - TOKEN_EXPIRY_MARGIN_MS <= Date.now()) {
+    return false;
+  }
+
+  await syncPendingTransactions(userId, { accessToken: session.accessToken });
+
+  const remaining = await getPendingTransactions(userId);
+  if (remaining.length > 0) {
+    throw new Error(`${remaining.length} vouchers still waiting to sync`);
+  }
+
+  return true;
+}
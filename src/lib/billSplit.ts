@@ -0,0 +1,182 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  BillDraft,
+  BillDraftParticipant,
+  cacheRecipient,
+  deleteBillDraft,
+  getCachedRecipientByPaymentId,
+} from "./offlineDb";
+import { isOfflineVaultUnlocked } from "./offlineVault";
+import {
+  MAX_PAYMENT_AMOUNT,
+  Money,
+  ZERO_MONEY,
+  formatMoney,
+  fromDecimal,
+  splitMoney,
+  subtractMoney,
+  sumMoney,
+  toDecimal,
+} from "./money";
+
+// Split bills: the creator drafts a bill on their device (online or not), then sends
+// it, which creates one payment request per participant through create_bill_split.
+// Collection is tracked server-side on those requests.
+
+// Matches the limit in create_bill_split
+export const MAX_BILL_PARTICIPANTS = 20;
+
+// How long each participant's request stays payable
+const BILL_REQUEST_LIFETIME_DAYS = 14;
+
+export type BillParticipantStatus = "pending" | "paid" | "declined" | "cancelled" | "expired";
+
+// One entry of get_bill_splits' participants column
+export interface BillSplitParticipant {
+  request_id: string;
+  payer_id: string;
+  display_name: string | null;
+  payment_id: string;
+  amount: Money;
+  status: BillParticipantStatus;
+  responded_at: string | null;
+}
+
+type BillSplitRow = Database["public"]["Functions"]["get_bill_splits"]["Returns"][number];
+
+// A row of get_bill_splits with its amounts converted to Money
+export type BillSplit = Omit<BillSplitRow, "participants" | "total_amount" | "creator_share"> & {
+  total_amount: Money;
+  creator_share: Money;
+  participants: BillSplitParticipant[];
+};
+
+export interface BillShares {
+  // In the order of the draft's participants
+  participantShares: Money[];
+  ownShare: Money;
+}
+
+export class BillSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BillSplitError";
+  }
+}
+
+export function toBillSplit(row: BillSplitRow): BillSplit {
+  return {
+    ...row,
+    total_amount: fromDecimal(row.total_amount),
+    creator_share: fromDecimal(row.creator_share),
+    // Amounts in the JSON are rupees
+    participants: (row.participants as unknown as BillSplitParticipant[]).map((participant) => ({
+      ...participant,
+      amount: fromDecimal(participant.amount),
+    })),
+  };
+}
+
+export function calculateShares(
+  draft: Pick<BillDraft, "totalAmount" | "mode" | "includeSelf" | "participants">
+): BillShares {
+  const { totalAmount, participants } = draft;
+
+  if (!(totalAmount > 0)) {
+    throw new BillSplitError("Enter the bill total");
+  }
+  if (totalAmount > MAX_PAYMENT_AMOUNT) {
+    throw new BillSplitError(`Bills are limited to ${formatMoney(MAX_PAYMENT_AMOUNT)}`);
+  }
+  if (participants.length === 0) {
+    throw new BillSplitError("Add at least one person to split with");
+  }
+  if (participants.length > MAX_BILL_PARTICIPANTS) {
+    throw new BillSplitError(`A bill can be split with at most ${MAX_BILL_PARTICIPANTS} people`);
+  }
+
+  if (draft.mode === "equal") {
+    const shares = splitMoney(totalAmount, participants.length + (draft.includeSelf ? 1 : 0));
+    // The creator takes the last share, so any extra paisa is asked of the others
+    const ownShare = draft.includeSelf ? shares.pop()! : ZERO_MONEY;
+    return { participantShares: shares, ownShare };
+  }
+
+  const participantShares = participants.map((participant) => participant.amount ?? ZERO_MONEY);
+  if (participantShares.some((share) => !(share > 0))) {
+    throw new BillSplitError("Enter an amount for everyone");
+  }
+  const ownShare = subtractMoney(totalAmount, sumMoney(participantShares));
+  if (ownShare < 0) {
+    throw new BillSplitError("The shares add up to more than the bill");
+  }
+  return { participantShares, ownShare };
+}
+
+// Fills in user IDs for participants entered by payment ID, caching them for offline use
+async function resolveParticipant(
+  ownerId: string,
+  participant: BillDraftParticipant
+): Promise<BillDraftParticipant> {
+  if (participant.userId) return participant;
+
+  // The recipient cache is only readable while the offline vault is unlocked
+  const canUseCache = isOfflineVaultUnlocked(ownerId);
+  const cached = canUseCache
+    ? await getCachedRecipientByPaymentId(ownerId, participant.paymentId)
+    : null;
+  if (cached) {
+    return { ...participant, userId: cached.user_id, displayName: cached.display_name };
+  }
+
+  const { data, error } = await supabase.rpc("get_profile_by_payment_id", {
+    _payment_id: participant.paymentId,
+  });
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new BillSplitError(`No one has the payment ID ${participant.paymentId}`);
+  }
+
+  const profile = data[0];
+  if (canUseCache) {
+    await cacheRecipient(ownerId, {
+      id: profile.id,
+      user_id: profile.user_id,
+      display_name: profile.display_name,
+      payment_id: profile.payment_id,
+    });
+  }
+  return { ...participant, userId: profile.user_id, displayName: profile.display_name };
+}
+
+// Sends the bill's payment requests and removes the draft. Returns the bill's ID.
+export async function sendBillSplit(draft: BillDraft): Promise<string> {
+  if (!draft.title.trim()) {
+    throw new BillSplitError("Give the bill a title");
+  }
+  const { participantShares } = calculateShares(draft);
+
+  const participants = await Promise.all(
+    draft.participants.map((participant) => resolveParticipant(draft.ownerId, participant))
+  );
+  if (participants.some((participant) => participant.userId === draft.ownerId)) {
+    throw new BillSplitError("Your own share is worked out for you; remove yourself from the list");
+  }
+
+  const { data, error } = await supabase.rpc("create_bill_split", {
+    _title: draft.title.trim(),
+    _total_amount: toDecimal(draft.totalAmount),
+    _shares: participants.map((participant, i) => ({
+      payer_id: participant.userId,
+      amount: toDecimal(participantShares[i]),
+    })),
+    _expires_at: new Date(
+      Date.now() + BILL_REQUEST_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  });
+  if (error) throw error;
+
+  await deleteBillDraft(draft.ownerId, draft.id);
+  return data;
+}
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { CurrencyCode, Money, paise } from "./money";
+
+// Currency wallets and conversions. Transfers between currencies only happen at a rate
+// an admin has entered in fx_rates; process_transaction refuses anything else.
+
+export type Currency = Tables<"currencies">;
+export type FxRate = Tables<"fx_rates">;
+
+export async function getActiveCurrencies(): Promise<Currency[]> {
+  const { data, error } = await supabase
+    .from("currencies")
+    .select("*")
+    .eq("is_active", true)
+    .order("code");
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getFxRates(): Promise<FxRate[]> {
+  const { data, error } = await supabase
+    .from("fx_rates")
+    .select("*")
+    .order("base_currency")
+    .order("quote_currency");
+
+  if (error) throw error;
+  return data;
+}
+
+export function findFxRate(
+  rates: FxRate[],
+  from: CurrencyCode,
+  to: CurrencyCode
+): FxRate | undefined {
+  return rates.find((rate) => rate.base_currency === from && rate.quote_currency === to);
+}
+
+// What the receiver gets, rounded the way process_transaction rounds it
+export function convertMoney(amount: Money, rate: FxRate): Money {
+  return paise(Math.round(amount * rate.rate));
+}
+
+// Opens an empty wallet in another currency; opening one twice is harmless
+export async function openWallet(currency: CurrencyCode): Promise<void> {
+  const { error } = await supabase.rpc("open_wallet", { _currency: currency });
+  if (error) throw error;
+}
@@ -0,0 +1,26 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { getDeviceId, getOrCreateSigningKey } from "./offlineDb";
+
+// Publish this device's voucher signing key so the server can verify offline payments
+export async function registerDeviceKey(userId: string): Promise<void> {
+  const { publicKeyJwk } = await getOrCreateSigningKey(userId);
+
+  const { error } = await supabase.rpc("register_device_key", {
+    _device_id: getDeviceId(),
+    _public_key: publicKeyJwk as Json,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Stop the server accepting vouchers signed on a device; it cannot be undone
+export async function revokeDeviceKey(deviceId: string): Promise<void> {
+  const { error } = await supabase.rpc("revoke_device_key", { _device_id: deviceId });
+
+  if (error) {
+    throw error;
+  }
+}
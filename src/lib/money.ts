@@ -0,0 +1,156 @@
+// Money is held as a whole number of paise so sums and splits are exact. The database,
+// signed vouchers and QR codes carry rupees with two decimals; amounts are converted
+// with fromDecimal/toDecimal where they cross those boundaries and nowhere else.
+// Integer paise stop at that boundary: amount columns and RPC arguments are still
+// DECIMAL(12,2) rupees, guarded by assert_valid_amount, until they move to BIGINT.
+//
+// Other currencies work the same way in their own minor unit (cents for USD). Money does
+// not carry its currency: it travels alongside as an ISO 4217 code, and only currencies
+// with two decimal places are supported (see the currencies table).
+
+export type Money = number & { readonly __unit: "paise" };
+
+export type CurrencyCode = string;
+
+// The currency every user's first wallet holds, and the only one offline vouchers,
+// payment requests, scheduled transfers and bill splits use
+export const HOME_CURRENCY: CurrencyCode = "INR";
+
+const PAISE_PER_RUPEE = 100;
+
+const DISPLAY_LOCALE = "en-IN";
+
+// Largest single payment, matching assert_valid_amount in the database: ₹1,00,00,000
+export const MAX_PAYMENT_AMOUNT = 1_000_000_000 as Money;
+
+export const ZERO_MONEY = 0 as Money;
+
+// Digits on at least one side of the point: "5", "5." and ".5" are all fine
+const DECIMAL_PATTERN = /^(?=\.?\d)(\d*)(?:\.(\d*))?$/;
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyError";
+  }
+}
+
+export function paise(value: number): Money {
+  if (!Number.isSafeInteger(value)) {
+    throw new MoneyError("Amounts must be a whole number of paise");
+  }
+  return value as Money;
+}
+
+// Rupees as stored in DECIMAL(12,2) columns, returned by RPCs or kept in IndexedDB
+export function fromDecimal(value: number | string): Money {
+  const rupees = typeof value === "string" ? Number(value) : value;
+  if (!Number.isFinite(rupees)) {
+    throw new MoneyError("Invalid amount");
+  }
+  // Rounds away the float error in values such as 1234.56 * 100
+  return paise(Math.round(rupees * PAISE_PER_RUPEE));
+}
+
+export function toDecimal(amount: Money): number {
+  return amount / PAISE_PER_RUPEE;
+}
+
+// Parses an amount typed by the user, such as "1,250", "99.5" or ".5". Rejects anything
+// that is not a plain non-negative number with at most two decimal places.
+export function parseMoney(text: string): Money {
+  const normalized = text.trim().replace(/,/g, "");
+  if (!normalized) {
+    throw new MoneyError("Enter an amount");
+  }
+
+  const match = DECIMAL_PATTERN.exec(normalized);
+  if (!match) {
+    throw new MoneyError("Enter a valid amount");
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > 2) {
+    throw new MoneyError("Amounts can have at most two decimal places");
+  }
+
+  const value = Number(whole) * PAISE_PER_RUPEE + Number(fraction.padEnd(2, "0"));
+  if (!Number.isSafeInteger(value)) {
+    throw new MoneyError("That amount is too large");
+  }
+  return value as Money;
+}
+
+// For inputs that may be half typed, such as live previews and saved drafts
+export function tryParseMoney(text: string): Money | null {
+  try {
+    return parseMoney(text);
+  } catch {
+    return null;
+  }
+}
+
+// Checks an amount about to be sent, requested or scheduled
+export function checkPaymentAmount(amount: Money, currency = HOME_CURRENCY): Money {
+  if (amount <= 0) {
+    throw new MoneyError("Enter an amount greater than zero");
+  }
+  if (amount > MAX_PAYMENT_AMOUNT) {
+    throw new MoneyError(`Payments are limited to ${formatMoney(MAX_PAYMENT_AMOUNT, currency)}`);
+  }
+  return amount;
+}
+
+export function parsePaymentAmount(text: string, currency = HOME_CURRENCY): Money {
+  return checkPaymentAmount(parseMoney(text), currency);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  return paise(a + b);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return paise(a - b);
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce(addMoney, ZERO_MONEY);
+}
+
+export function maxMoney(a: Money, b: Money): Money {
+  return (a > b ? a : b) as Money;
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  return (a < b ? a : b) as Money;
+}
+
+// Splits to the paisa; leftover paise go to the first parts so the total is exact
+export function splitMoney(total: Money, parts: number): Money[] {
+  const base = Math.floor(total / parts);
+  const remainder = total - base * parts;
+  return Array.from({ length: parts }, (_, i) => paise(base + (i < remainder ? 1 : 0)));
+}
+
+// "₹1,250", "₹99.50" or "$12.75": minor units are only shown when there are some
+export function formatMoney(amount: Money, currency = HOME_CURRENCY): string {
+  const fractionDigits = amount % PAISE_PER_RUPEE === 0 ? 0 : 2;
+  return toDecimal(amount).toLocaleString(DISPLAY_LOCALE, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+// "₹" or "$" for labels such as "Amount (₹)"; falls back to the code, such as "AED"
+export function currencySymbol(currency = HOME_CURRENCY): string {
+  const parts = new Intl.NumberFormat(DISPLAY_LOCALE, { style: "currency", currency }).formatToParts(0);
+  return parts.find((part) => part.type === "currency")?.value ?? currency;
+}
+
+// Plain digits for prefilling an amount input, which parseMoney reads back exactly
+export function formatMoneyInput(amount: Money): string {
+  return amount % PAISE_PER_RUPEE === 0
+    ? String(amount / PAISE_PER_RUPEE)
+    : toDecimal(amount).toFixed(2);
+}
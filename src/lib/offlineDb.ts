@@ -1,20 +1,67 @@
 import { openDB, DBSchema, IDBPDatabase } from "idb";
+import {
+  serializeVoucher,
+  sha256Hex,
+  generateSigningKeyPair,
+  exportPublicKey,
+  signPayload,
+} from "./voucherCrypto";
+import {
+  SealedValue,
+  decodeKeyBytes,
+  deriveVaultKey,
+  encodeKeyBytes,
+  generateDataKey,
+  generateVaultSalt,
+  importDataKey,
+  lockOfflineVault,
+  openWithKey,
+  seal,
+  sealWithKey,
+  setVaultKey,
+  unseal,
+} from "./offlineVault";
+import { requestBackgroundSync, shareOfflineVaultKey } from "./serviceWorker";
+import {
+  CurrencyCode,
+  HOME_CURRENCY,
+  Money,
+  ZERO_MONEY,
+  addMoney,
+  fromDecimal,
+  maxMoney,
+  subtractMoney,
+  toDecimal,
+} from "./money";
 
 interface PendingTransaction {
   id: string;
   senderId: string;
   receiverId: string;
   receiverPhone?: string;
-  amount: number;
+  amount: Money;
+  // Always the home currency: vouchers are signed and settled in rupees
+  currency: CurrencyCode;
   timestamp: number;
   status: "pending" | "syncing" | "failed";
   hash: string;
   retryCount: number;
   deviceId: string;
   description?: string;
+  signature?: string;
+  // Set when a voucher queued before signing existed was signed later, on sync
+  signedAt?: number;
+  // Only vouchers paid out of the offline purse hand their amount back to it on failure
+  drawnFromPurse?: boolean;
+  failureReason?: string;
+  nextAttemptAt?: number;
+  // When the voucher was last handed to a sync, while its status is "syncing"
+  syncingSince?: number;
 }
 
 export interface CachedRecipient {
+  // User whose lookup cached this recipient; each user only sees their own cache
+  ownerId: string;
   id: string;
   user_id: string;
   display_name: string | null;
@@ -22,14 +69,106 @@ export interface CachedRecipient {
   cached_at: number;
 }
 
+// A payment receipt scanned from a sender's screen, kept until the matching
+// transaction shows up on the server
+export interface IncomingReceipt {
+  // Receiver who scanned the receipt
+  ownerId: string;
+  voucherId: string;
+  senderId: string;
+  senderPaymentId: string;
+  senderName?: string;
+  amount: Money;
+  timestamp: number;
+  deviceId: string;
+  description?: string;
+  hash: string;
+  signature: string;
+  // "unverified" until the sender's device key is available to check the signature
+  verification: "verified" | "unverified";
+  status: "pending" | "settled";
+  transactionId?: string;
+  receivedAt: number;
+}
+
+// A bill being split, saved on the device until its requests can be sent
+export interface BillDraft {
+  ownerId: string;
+  id: string;
+  title: string;
+  totalAmount: Money;
+  mode: "equal" | "custom";
+  // Equal splits only: whether the creator takes a share of the total too
+  includeSelf: boolean;
+  participants: BillDraftParticipant[];
+  updatedAt: number;
+}
+
+export interface BillDraftParticipant {
+  paymentId: string;
+  // Known when picked from cached recipients; resolved when the bill is sent otherwise
+  userId?: string;
+  displayName?: string | null;
+  // Custom splits only
+  amount?: Money;
+}
+
+// Public halves of other users' device signing keys, used to verify receipts offline
+export interface CachedDeviceKey {
+  userId: string;
+  deviceId: string;
+  publicKey: JsonWebKey;
+  cachedAt: number;
+}
+
+// Only the fields IndexedDB queries on are stored readable; the rest is sealed with
+// the owner's offline vault key (see offlineVault.ts)
+// Amounts are kept at rest in rupees, the unit vouchers are signed in, and become Money
+// as records are opened
+type AtRest<T, K extends keyof T> = Omit<T, K> & {
+  [P in K]: undefined extends T[P] ? number | undefined : number;
+};
+
+type TransactionIndexFields =
+  | "id"
+  | "senderId"
+  | "status"
+  | "timestamp"
+  | "retryCount"
+  | "nextAttemptAt";
+
+type StoredTransaction = Pick<PendingTransaction, TransactionIndexFields> & {
+  sealed: SealedValue;
+};
+
+type RecipientIndexFields = "ownerId" | "id" | "cached_at";
+
+type StoredRecipient = Pick<CachedRecipient, RecipientIndexFields> & {
+  sealed: SealedValue;
+};
+
+type ReceiptIndexFields = "ownerId" | "voucherId" | "status" | "receivedAt";
+
+type StoredReceipt = Pick<IncomingReceipt, ReceiptIndexFields> & {
+  sealed: SealedValue;
+};
+
+type BillDraftIndexFields = "ownerId" | "id" | "updatedAt";
+
+type StoredBillDraft = Pick<BillDraft, BillDraftIndexFields> & {
+  sealed: SealedValue;
+};
+
 interface OfflinePayDB extends DBSchema {
   pendingTransactions: {
     key: string;
-    value: PendingTransaction;
+    // Plaintext records predate encryption and are sealed on the owner's next unlock
+    value: StoredTransaction | AtRest<PendingTransaction, "amount">;
     indexes: {
       "by-status": string;
       "by-timestamp": number;
       "by-sender": string;
+      "by-sender-status": [string, string];
     };
   };
   offlineSettings: {
@@ -37,13 +176,34 @@ interface OfflinePayDB extends DBSchema {
     value: {
       key: string;
       value: unknown;
+      // Set when value is sealed with this user's vault key
+      sealedFor?: string;
     };
   };
   cachedRecipients: {
-    key: string;
-    value: CachedRecipient;
+    key: [string, string];
+    value: StoredRecipient | CachedRecipient;
     indexes: {
-      "by-payment-id": string;
+      "by-owner": string;
+    };
+  };
+  // Public keys are not secret, so they are stored readable and shared by every user
+  cachedDeviceKeys: {
+    key: [string, string];
+    value: CachedDeviceKey;
+  };
+  incomingReceipts: {
+    key: [string, string];
+    value: StoredReceipt;
+    indexes: {
+      "by-owner": string;
+    };
+  };
+  billDrafts: {
+    key: [string, string];
+    value: StoredBillDraft;
+    indexes: {
+      "by-owner": string;
     };
   };
 }
@@ -53,8 +213,8 @@ let dbInstance: IDBPDatabase<OfflinePayDB> | null = null;
 async function getDB(): Promise<IDBPDatabase<OfflinePayDB>> {
   if (dbInstance) return dbInstance;
 
-  dbInstance = await openDB<OfflinePayDB>("offlinepay-db", 2, {
-    upgrade(db, oldVersion) {
+  dbInstance = await openDB<OfflinePayDB>("offlinepay-db", 6, {
+    upgrade(db, oldVersion, newVersion, transaction) {
       // Pending transactions store
       if (!db.objectStoreNames.contains("pendingTransactions")) {
         const txStore = db.createObjectStore("pendingTransactions", {
@@ -63,6 +223,11 @@ async function getDB(): Promise<IDBPDatabase<OfflinePayDB>> {
         txStore.createIndex("by-status", "status");
         txStore.createIndex("by-timestamp", "timestamp");
         txStore.createIndex("by-sender", "senderId");
+        txStore.createIndex("by-sender-status", ["senderId", "status"]);
+      } else if (oldVersion < 3) {
+        transaction
+          .objectStore("pendingTransactions")
+          .createIndex("by-sender-status", ["senderId", "status"]);
       }
 
       // Offline settings store
@@ -70,33 +235,188 @@ async function getDB(): Promise<IDBPDatabase<OfflinePayDB>> {
         db.createObjectStore("offlineSettings", { keyPath: "key" });
       }
 
-      // Cached recipients store (added in version 2)
+      // Version 2 cached recipients were shared by every user of the device and
+      // cannot be attributed to an owner, so the cache is rebuilt per user
+      if (oldVersion === 2) {
+        db.deleteObjectStore("cachedRecipients");
+      }
+
+      // Cached recipients store, keyed by owner (added in version 2, scoped in version 3)
       if (!db.objectStoreNames.contains("cachedRecipients")) {
         const recipientStore = db.createObjectStore("cachedRecipients", {
-          keyPath: "id",
+          keyPath: ["ownerId", "id"],
         });
-        recipientStore.createIndex("by-payment-id", "payment_id");
+        recipientStore.createIndex("by-owner", "ownerId");
+      } else if (oldVersion === 3) {
+        // Payment ids are sealed from version 4 on, so lookups happen after decryption
+        transaction.objectStore("cachedRecipients").deleteIndex("by-owner-payment-id");
+      }
+
+      // The background sync token was stored in plaintext before version 4
+      if (oldVersion === 3) {
+        transaction.objectStore("offlineSettings").delete("sync-session");
       }
+
+      // Sender keys and scanned receipts (added in version 5)
+      if (!db.objectStoreNames.contains("cachedDeviceKeys")) {
+        db.createObjectStore("cachedDeviceKeys", { keyPath: ["userId", "deviceId"] });
+      }
+      if (!db.objectStoreNames.contains("incomingReceipts")) {
+        const receiptStore = db.createObjectStore("incomingReceipts", {
+          keyPath: ["ownerId", "voucherId"],
+        });
+        receiptStore.createIndex("by-owner", "ownerId");
+      }
+
+      // Split bill drafts (added in version 6)
+      if (!db.objectStoreNames.contains("billDrafts")) {
+        const draftStore = db.createObjectStore("billDrafts", { keyPath: ["ownerId", "id"] });
+        draftStore.createIndex("by-owner", "ownerId");
+      }
+
+      // Existing plaintext records cannot be sealed here: WebCrypto calls would outlive
+      // the upgrade transaction, and the key only exists once the owner enters their PIN.
+      // They stay readable until sealLegacyRecords runs on that user's next unlock.
     },
   });
 
   return dbInstance;
 }
 
-// Generate a simple hash for transaction integrity
-function generateHash(tx: Omit<PendingTransaction, "hash" | "id">): string {
-  const data = `${tx.senderId}:${tx.receiverId}:${tx.amount}:${tx.timestamp}:${tx.deviceId}`;
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
+// Seals with the unlocked vault, or with an explicit key while re-keying
+function sealFor<T>(userId: string, value: T, key?: CryptoKey): Promise<SealedValue> {
+  return key ? sealWithKey(key, value) : seal(userId, value);
+}
+
+async function sealTransaction(tx: PendingTransaction, key?: CryptoKey): Promise<StoredTransaction> {
+  const { id, senderId, status, timestamp, retryCount, nextAttemptAt, ...rest } = tx;
+  return {
+    id,
+    senderId,
+    status,
+    timestamp,
+    retryCount,
+    nextAttemptAt,
+    sealed: await sealFor(senderId, { ...rest, amount: toDecimal(rest.amount) }, key),
+  };
+}
+
+async function openTransaction(
+  record: StoredTransaction | AtRest<PendingTransaction, "amount">
+): Promise<PendingTransaction> {
+  // Records queued before wallets had currencies carry none
+  if (!("sealed" in record)) {
+    return {
+      ...record,
+      amount: fromDecimal(record.amount),
+      currency: record.currency ?? HOME_CURRENCY,
+    };
   }
-  return Math.abs(hash).toString(16).padStart(8, "0");
+  const { sealed, ...fields } = record;
+  const rest = await unseal<AtRest<Omit<PendingTransaction, TransactionIndexFields>, "amount">>(
+    record.senderId,
+    sealed
+  );
+  return {
+    ...fields,
+    ...rest,
+    amount: fromDecimal(rest.amount),
+    currency: rest.currency ?? HOME_CURRENCY,
+  };
+}
+
+async function sealRecipient(recipient: CachedRecipient, key?: CryptoKey): Promise<StoredRecipient> {
+  const { ownerId, id, cached_at, ...rest } = recipient;
+  return { ownerId, id, cached_at, sealed: await sealFor(ownerId, rest, key) };
+}
+
+async function openRecipient(record: StoredRecipient | CachedRecipient): Promise<CachedRecipient> {
+  if (!("sealed" in record)) return record;
+  const { sealed, ...fields } = record;
+  const rest = await unseal<Omit<CachedRecipient, RecipientIndexFields>>(record.ownerId, sealed);
+  return { ...fields, ...rest };
+}
+
+async function sealReceipt(receipt: IncomingReceipt, key?: CryptoKey): Promise<StoredReceipt> {
+  const { ownerId, voucherId, status, receivedAt, ...rest } = receipt;
+  return {
+    ownerId,
+    voucherId,
+    status,
+    receivedAt,
+    sealed: await sealFor(ownerId, { ...rest, amount: toDecimal(rest.amount) }, key),
+  };
+}
+
+async function openReceipt(record: StoredReceipt): Promise<IncomingReceipt> {
+  const { sealed, ...fields } = record;
+  const rest = await unseal<AtRest<Omit<IncomingReceipt, ReceiptIndexFields>, "amount">>(
+    record.ownerId,
+    sealed
+  );
+  return { ...fields, ...rest, amount: fromDecimal(rest.amount) };
+}
+
+type BillDraftAtRest = AtRest<
+  Omit<BillDraft, BillDraftIndexFields | "participants">,
+  "totalAmount"
+> & {
+  participants: AtRest<BillDraftParticipant, "amount">[];
+};
+
+async function sealBillDraft(draft: BillDraft, key?: CryptoKey): Promise<StoredBillDraft> {
+  const { ownerId, id, updatedAt, ...rest } = draft;
+  const atRest: BillDraftAtRest = {
+    ...rest,
+    totalAmount: toDecimal(rest.totalAmount),
+    participants: rest.participants.map((participant) => ({
+      ...participant,
+      amount: participant.amount === undefined ? undefined : toDecimal(participant.amount),
+    })),
+  };
+  return { ownerId, id, updatedAt, sealed: await sealFor(ownerId, atRest, key) };
+}
+
+async function openBillDraft(record: StoredBillDraft): Promise<BillDraft> {
+  const { sealed, ...fields } = record;
+  const rest = await unseal<BillDraftAtRest>(record.ownerId, sealed);
+  return {
+    ...fields,
+    ...rest,
+    totalAmount: fromDecimal(rest.totalAmount),
+    participants: rest.participants.map((participant) => ({
+      ...participant,
+      amount: participant.amount === undefined ? undefined : fromDecimal(participant.amount),
+    })),
+  };
+}
+
+export interface OfflinePurse {
+  balance: Money;
+  updatedAt: number;
+}
+
+type StoredOfflinePurse = AtRest<OfflinePurse, "balance">;
+
+function openOfflinePurse(stored: StoredOfflinePurse | undefined): OfflinePurse {
+  return stored
+    ? { balance: fromDecimal(stored.balance), updatedAt: stored.updatedAt }
+    : { balance: ZERO_MONEY, updatedAt: 0 };
+}
+
+function storeOfflinePurse(purse: OfflinePurse): StoredOfflinePurse {
+  return { balance: toDecimal(purse.balance), updatedAt: purse.updatedAt };
+}
+
+interface DeviceSigningKey {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  publicKeyJwk: JsonWebKey;
+  createdAt: number;
 }
 
 // Get device ID (persistent across sessions)
-function getDeviceId(): string {
+export function getDeviceId(): string {
   let deviceId = localStorage.getItem("offlinepay-device-id");
   if (!deviceId) {
     deviceId = crypto.randomUUID();
@@ -105,58 +425,185 @@ function getDeviceId(): string {
   return deviceId;
 }
 
+// Signing keys are per user so a shared device never signs one user's vouchers with another's key
+export async function getOrCreateSigningKey(userId: string): Promise<DeviceSigningKey> {
+  const settingKey = `signing-key:${userId}`;
+  const existing = await getOfflineSetting<DeviceSigningKey>(settingKey);
+  if (existing) return existing;
+
+  const keyPair = await generateSigningKeyPair();
+  const signingKey: DeviceSigningKey = {
+    privateKey: keyPair.privateKey,
+    publicKey: keyPair.publicKey,
+    publicKeyJwk: await exportPublicKey(keyPair.publicKey),
+    createdAt: Date.now(),
+  };
+  await setOfflineSetting(settingKey, signingKey);
+  return signingKey;
+}
+
+// Hash and sign the voucher fields with the sender's device key
+async function signVoucher(
+  tx: Omit<PendingTransaction, "hash" | "signature">
+): Promise<Pick<PendingTransaction, "hash" | "signature">> {
+  const payload = serializeVoucher({ ...tx, amount: toDecimal(tx.amount) });
+  const { privateKey } = await getOrCreateSigningKey(tx.senderId);
+  const [hash, signature] = await Promise.all([
+    sha256Hex(payload),
+    signPayload(privateKey, payload),
+  ]);
+  return { hash, signature };
+}
+
 export async function addPendingTransaction(
-  tx: Omit<PendingTransaction, "id" | "hash" | "status" | "retryCount" | "deviceId" | "timestamp">
+  tx: Omit<
+    PendingTransaction,
+    "id" | "currency" | "hash" | "signature" | "status" | "retryCount" | "deviceId" | "timestamp"
+  >
 ): Promise<PendingTransaction> {
   const db = await getDB();
   const deviceId = getDeviceId();
   const timestamp = Date.now();
-  
-  const fullTx: Omit<PendingTransaction, "hash" | "id"> = {
+
+  const fullTx: Omit<PendingTransaction, "hash" | "signature"> = {
     ...tx,
+    id: `tx-${timestamp}-${crypto.randomUUID().slice(0, 8)}`,
+    currency: HOME_CURRENCY,
     timestamp,
     status: "pending",
     retryCount: 0,
     deviceId,
+    drawnFromPurse: true,
   };
 
-  const hash = generateHash(fullTx);
-  const id = `tx-${timestamp}-${hash.slice(0, 8)}`;
-
   const transaction: PendingTransaction = {
     ...fullTx,
-    id,
-    hash,
+    ...(await signVoucher(fullTx)),
   };
+  // Sealed up front: awaiting WebCrypto inside the IndexedDB transaction would commit it early
+  const sealed = await sealTransaction(transaction);
+
+  // Queue the voucher and draw down the offline purse atomically
+  const dbTx = db.transaction(["pendingTransactions", "offlineSettings"], "readwrite");
+  const purseKey = `offline-purse:${tx.senderId}`;
+  const purse = openOfflinePurse(
+    (await dbTx.objectStore("offlineSettings").get(purseKey))?.value as
+      | StoredOfflinePurse
+      | undefined
+  );
+
+  if (purse.balance < transaction.amount) {
+    dbTx.abort();
+    await dbTx.done.catch(() => undefined);
+    throw new Error("Insufficient offline purse balance");
+  }
+
+  await dbTx.objectStore("pendingTransactions").put(sealed);
+  await dbTx.objectStore("offlineSettings").put({
+    key: purseKey,
+    value: storeOfflinePurse({
+      balance: subtractMoney(purse.balance, transaction.amount),
+      updatedAt: Date.now(),
+    }),
+  });
+  await dbTx.done;
+
+  // Let the service worker settle the voucher once connectivity returns, even if the app is closed
+  requestBackgroundSync();
 
-  await db.put("pendingTransactions", transaction);
   return transaction;
 }
 
-export async function getPendingTransactions(): Promise<PendingTransaction[]> {
+// Vouchers queued before signing was introduced only carry the legacy 32-bit hash
+export async function ensureTransactionSigned(tx: PendingTransaction): Promise<PendingTransaction> {
+  if (tx.signature) return tx;
+
   const db = await getDB();
-  return db.getAllFromIndex("pendingTransactions", "by-status", "pending");
+  // The voucher keeps its original timestamp, so the signing time is signed along with it
+  const legacy = { ...tx, signedAt: Date.now() };
+  const signed: PendingTransaction = { ...legacy, ...(await signVoucher(legacy)) };
+  await db.put("pendingTransactions", await sealTransaction(signed));
+  return signed;
 }
 
-export async function getAllOfflineTransactions(): Promise<PendingTransaction[]> {
+// Queries are scoped to one user: on a shared device other users' vouchers stay
+// queued untouched until their owner signs in again
+export async function getPendingTransactions(userId: string): Promise<PendingTransaction[]> {
   const db = await getDB();
-  const all = await db.getAll("pendingTransactions");
+  const records = await db.getAllFromIndex("pendingTransactions", "by-sender-status", [
+    userId,
+    "pending",
+  ]);
+  return Promise.all(records.map(openTransaction));
+}
+
+// A context that closed mid-sync leaves its vouchers marked "syncing", where
+// getPendingTransactions never sees them. Puts those that went to sync before
+// staleBefore back in the queue.
+export async function requeueStaleTransactions(userId: string, staleBefore: number): Promise<number> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex("pendingTransactions", "by-sender-status", [
+    userId,
+    "syncing",
+  ]);
+
+  let requeued = 0;
+  for (const record of records) {
+    const tx = await openTransaction(record);
+    if (tx.syncingSince && tx.syncingSince >= staleBefore) continue;
+    tx.status = "pending";
+    tx.syncingSince = undefined;
+    await db.put("pendingTransactions", await sealTransaction(tx));
+    requeued++;
+  }
+  return requeued;
+}
+
+export async function getAllOfflineTransactions(userId: string): Promise<PendingTransaction[]> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex("pendingTransactions", "by-sender", userId);
+  const all = await Promise.all(records.map(openTransaction));
   return all.sort((a, b) => b.timestamp - a.timestamp);
 }
 
 export async function updateTransactionStatus(
   id: string,
   status: PendingTransaction["status"],
-  incrementRetry = false
+  incrementRetry = false,
+  failureReason?: string
 ): Promise<void> {
   const db = await getDB();
-  const tx = await db.get("pendingTransactions", id);
-  if (tx) {
+  const record = await db.get("pendingTransactions", id);
+  if (record) {
+    const tx = await openTransaction(record);
     tx.status = status;
+    tx.syncingSince = status === "syncing" ? Date.now() : undefined;
     if (incrementRetry) {
       tx.retryCount += 1;
     }
-    await db.put("pendingTransactions", tx);
+    if (failureReason) {
+      tx.failureReason = failureReason;
+    }
+    await db.put("pendingTransactions", await sealTransaction(tx));
+  }
+}
+
+// Put a voucher back in the queue, not to be retried before nextAttemptAt
+export async function scheduleTransactionRetry(
+  id: string,
+  nextAttemptAt: number,
+  failureReason?: string
+): Promise<void> {
+  const db = await getDB();
+  const record = await db.get("pendingTransactions", id);
+  if (record) {
+    const tx = await openTransaction(record);
+    tx.status = "pending";
+    tx.syncingSince = undefined;
+    tx.retryCount += 1;
+    tx.nextAttemptAt = nextAttemptAt;
+    tx.failureReason = failureReason;
+    await db.put("pendingTransactions", await sealTransaction(tx));
   }
 }
 
@@ -165,9 +612,9 @@ export async function deleteTransaction(id: string): Promise<void> {
   await db.delete("pendingTransactions", id);
 }
 
-export async function clearSyncedTransactions(): Promise<void> {
+export async function clearSyncedTransactions(userId: string): Promise<void> {
   const db = await getDB();
-  const all = await db.getAll("pendingTransactions");
+  const all = await db.getAllFromIndex("pendingTransactions", "by-sender", userId);
   const tx = db.transaction("pendingTransactions", "readwrite");
   
   for (const item of all) {
@@ -191,42 +638,400 @@ export async function getOfflineSetting<T>(key: string): Promise<T | null> {
   return (setting?.value as T | undefined) ?? null;
 }
 
-// Get today's offline transaction total for limit checking
-export async function getTodayOfflineTotal(userId: string): Promise<number> {
+export async function deleteOfflineSetting(key: string): Promise<void> {
+  const db = await getDB();
+  await db.delete("offlineSettings", key);
+}
+
+// For settings that must not be readable at rest, such as access tokens
+export async function setSealedOfflineSetting<T>(userId: string, key: string, value: T): Promise<void> {
   const db = await getDB();
-  const transactions = await db.getAllFromIndex(
-    "pendingTransactions",
-    "by-sender",
-    userId
+  await db.put("offlineSettings", { key, value: await seal(userId, value), sealedFor: userId });
+}
+
+export async function getSealedOfflineSetting<T>(userId: string, key: string): Promise<T | null> {
+  const db = await getDB();
+  const setting = await db.get("offlineSettings", key);
+  if (!setting || setting.sealedFor !== userId) return null;
+  return unseal<T>(userId, setting.value as SealedValue);
+}
+
+// Offline purse helpers (mirrors the escrowed wallets.offline_reserve on this device)
+export async function getOfflinePurse(userId: string): Promise<OfflinePurse> {
+  return openOfflinePurse(
+    (await getOfflineSetting<StoredOfflinePurse>(`offline-purse:${userId}`)) ?? undefined
   );
-  
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayStart = today.getTime();
-  
-  return transactions
-    .filter((tx) => tx.timestamp >= todayStart && tx.status !== "failed")
-    .reduce((sum, tx) => sum + tx.amount, 0);
+}
+
+export async function adjustOfflinePurse(userId: string, delta: Money): Promise<OfflinePurse> {
+  const db = await getDB();
+  const purseKey = `offline-purse:${userId}`;
+  const tx = db.transaction("offlineSettings", "readwrite");
+  const current = openOfflinePurse(
+    (await tx.store.get(purseKey))?.value as StoredOfflinePurse | undefined
+  );
+  const purse: OfflinePurse = {
+    balance: maxMoney(ZERO_MONEY, addMoney(current.balance, delta)),
+    updatedAt: Date.now(),
+  };
+  await tx.store.put({ key: purseKey, value: storeOfflinePurse(purse) });
+  await tx.done;
+  return purse;
 }
 
 // Cached recipients helpers
-export async function cacheRecipient(recipient: Omit<CachedRecipient, "cached_at">): Promise<void> {
+export async function cacheRecipient(
+  ownerId: string,
+  recipient: Omit<CachedRecipient, "ownerId" | "cached_at">
+): Promise<void> {
   const db = await getDB();
-  await db.put("cachedRecipients", {
-    ...recipient,
-    cached_at: Date.now(),
-  });
+  await db.put(
+    "cachedRecipients",
+    await sealRecipient({ ...recipient, ownerId, cached_at: Date.now() })
+  );
+}
+
+export async function getCachedRecipientByPaymentId(
+  ownerId: string,
+  paymentId: string
+): Promise<CachedRecipient | null> {
+  const recipients = await getAllCachedRecipients(ownerId);
+  return recipients.find((recipient) => recipient.payment_id === paymentId) ?? null;
+}
+
+export async function getAllCachedRecipients(ownerId: string): Promise<CachedRecipient[]> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex("cachedRecipients", "by-owner", ownerId);
+  return Promise.all(records.map(openRecipient));
+}
+
+// Device key cache helpers
+export async function cacheDeviceKeys(keys: Omit<CachedDeviceKey, "cachedAt">[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction("cachedDeviceKeys", "readwrite");
+  const cachedAt = Date.now();
+  for (const key of keys) {
+    await tx.store.put({ ...key, cachedAt });
+  }
+  await tx.done;
+}
+
+export async function getCachedDeviceKey(
+  userId: string,
+  deviceId: string
+): Promise<CachedDeviceKey | null> {
+  const db = await getDB();
+  return (await db.get("cachedDeviceKeys", [userId, deviceId])) ?? null;
 }
 
-export async function getCachedRecipientByPaymentId(paymentId: string): Promise<CachedRecipient | null> {
+// Incoming receipt helpers
+export async function saveIncomingReceipt(receipt: IncomingReceipt): Promise<void> {
   const db = await getDB();
-  const results = await db.getAllFromIndex("cachedRecipients", "by-payment-id", paymentId);
-  return results.length > 0 ? results[0] : null;
+  await db.put("incomingReceipts", await sealReceipt(receipt));
 }
 
-export async function getAllCachedRecipients(): Promise<CachedRecipient[]> {
+export async function getIncomingReceipt(
+  ownerId: string,
+  voucherId: string
+): Promise<IncomingReceipt | null> {
   const db = await getDB();
-  return db.getAll("cachedRecipients");
+  const record = await db.get("incomingReceipts", [ownerId, voucherId]);
+  return record ? openReceipt(record) : null;
+}
+
+export async function getIncomingReceipts(ownerId: string): Promise<IncomingReceipt[]> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex("incomingReceipts", "by-owner", ownerId);
+  const all = await Promise.all(records.map(openReceipt));
+  return all.sort((a, b) => b.receivedAt - a.receivedAt);
+}
+
+// Bill draft helpers
+export async function saveBillDraft(draft: Omit<BillDraft, "updatedAt">): Promise<BillDraft> {
+  const db = await getDB();
+  const saved: BillDraft = { ...draft, updatedAt: Date.now() };
+  await db.put("billDrafts", await sealBillDraft(saved));
+  return saved;
+}
+
+export async function getBillDrafts(ownerId: string): Promise<BillDraft[]> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex("billDrafts", "by-owner", ownerId);
+  const all = await Promise.all(records.map(openBillDraft));
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function deleteBillDraft(ownerId: string, id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete("billDrafts", [ownerId, id]);
+}
+
+// Offline vault: records are sealed with a random data key. The vault stores that key
+// sealed with a key derived from the PIN and, once the server holds a recovery key for
+// this device, sealed with the recovery key too, so a forgotten PIN can be reset without
+// losing the offline queue. Vaults created before this have no dataKey: the PIN key
+// seals records directly and check tells a wrong PIN apart from an unreadable record.
+interface OfflineVaultRecord {
+  salt: Uint8Array;
+  dataKey?: SealedValue;
+  recoveryDataKey?: SealedValue;
+  check?: SealedValue;
+}
+
+async function getVaultRecord(userId: string): Promise<OfflineVaultRecord | null> {
+  return getOfflineSetting<OfflineVaultRecord>(`vault:${userId}`);
+}
+
+export async function hasOfflineVault(userId: string): Promise<boolean> {
+  return (await getVaultRecord(userId)) !== null;
+}
+
+export async function hasOfflineDataRecovery(userId: string): Promise<boolean> {
+  return !!(await getVaultRecord(userId))?.recoveryDataKey;
+}
+
+async function sealDataKey(key: CryptoKey, dataKey: Uint8Array): Promise<SealedValue> {
+  return sealWithKey(key, encodeKeyBytes(dataKey));
+}
+
+async function openDataKey(key: CryptoKey, sealed: SealedValue): Promise<Uint8Array> {
+  return decodeKeyBytes(await openWithKey<string>(key, sealed));
+}
+
+async function createVaultRecord(pin: string, dataKey: Uint8Array): Promise<OfflineVaultRecord> {
+  const salt = generateVaultSalt();
+  return { salt, dataKey: await sealDataKey(await deriveVaultKey(pin, salt), dataKey) };
+}
+
+// Returns the data key's bytes, or null if the PIN does not open the vault
+async function openVaultRecord(vault: OfflineVaultRecord, pin: string): Promise<Uint8Array | null> {
+  try {
+    return await openDataKey(await deriveVaultKey(pin, vault.salt), vault.dataKey);
+  } catch {
+    return null;
+  }
+}
+
+// Seal records written before encryption existed
+async function sealLegacyRecords(userId: string): Promise<void> {
+  const db = await getDB();
+
+  const transactions = await db.getAllFromIndex("pendingTransactions", "by-sender", userId);
+  for (const record of transactions) {
+    if (!("sealed" in record)) {
+      await db.put("pendingTransactions", await sealTransaction(await openTransaction(record)));
+    }
+  }
+
+  const recipients = await db.getAllFromIndex("cachedRecipients", "by-owner", userId);
+  for (const record of recipients) {
+    if (!("sealed" in record)) {
+      await db.put("cachedRecipients", await sealRecipient(record));
+    }
+  }
+}
+
+// Open the user's vault with their PIN and keep the data key in memory until
+// lockOfflineData. Creates the vault on first use; returns false if the PIN does not open
+// an existing one.
+export async function unlockOfflineData(userId: string, pin: string): Promise<boolean> {
+  const existing = await getVaultRecord(userId);
+  let key: CryptoKey;
+
+  if (!existing) {
+    const dataKey = generateDataKey();
+    await setOfflineSetting<OfflineVaultRecord>(
+      `vault:${userId}`,
+      await createVaultRecord(pin, dataKey)
+    );
+    key = await importDataKey(dataKey);
+  } else if (existing.dataKey) {
+    const dataKey = await openVaultRecord(existing, pin);
+    if (!dataKey) {
+      return false;
+    }
+    key = await importDataKey(dataKey);
+  } else {
+    key = await deriveVaultKey(pin, existing.salt);
+    try {
+      await openWithKey(key, existing.check);
+    } catch {
+      return false;
+    }
+  }
+
+  setVaultKey(userId, key);
+  shareOfflineVaultKey({ userId, key });
+  await sealLegacyRecords(userId);
+
+  // Move an old PIN-keyed vault onto a data key so it can be recovered
+  if (existing && !existing.dataKey) {
+    await changeOfflineDataPin(userId, pin);
+  }
+  return true;
+}
+
+export function lockOfflineData() {
+  lockOfflineVault();
+  shareOfflineVaultKey(null);
+}
+
+// Re-seal everything the user owns under a new data key, sealed with the new PIN. The
+// vault has no recovery key afterwards, until addOfflineDataRecovery gives it one.
+export async function changeOfflineDataPin(userId: string, newPin: string): Promise<void> {
+  const db = await getDB();
+  const transactions = await getAllOfflineTransactions(userId);
+  const recipients = await getAllCachedRecipients(userId);
+  const receipts = await getIncomingReceipts(userId);
+  const billDrafts = await getBillDrafts(userId);
+  const settings = (await db.getAll("offlineSettings")).filter(
+    (setting) => setting.sealedFor === userId
+  );
+  const settingValues = await Promise.all(
+    settings.map((setting) => unseal(userId, setting.value as SealedValue))
+  );
+
+  const dataKey = generateDataKey();
+  const key = await importDataKey(dataKey);
+  const sealedTransactions = await Promise.all(transactions.map((tx) => sealTransaction(tx, key)));
+  const sealedRecipients = await Promise.all(recipients.map((r) => sealRecipient(r, key)));
+  const sealedReceipts = await Promise.all(receipts.map((r) => sealReceipt(r, key)));
+  const sealedBillDrafts = await Promise.all(billDrafts.map((d) => sealBillDraft(d, key)));
+  const sealedSettings = await Promise.all(
+    settings.map(async (setting, i) => ({
+      ...setting,
+      value: await sealWithKey(key, settingValues[i]),
+    }))
+  );
+  const vault = await createVaultRecord(newPin, dataKey);
+
+  // Everything is swapped in one transaction so a failure leaves the old PIN working
+  const dbTx = db.transaction(
+    [
+      "pendingTransactions",
+      "cachedRecipients",
+      "incomingReceipts",
+      "billDrafts",
+      "offlineSettings",
+    ],
+    "readwrite"
+  );
+  for (const record of sealedTransactions) {
+    await dbTx.objectStore("pendingTransactions").put(record);
+  }
+  for (const record of sealedRecipients) {
+    await dbTx.objectStore("cachedRecipients").put(record);
+  }
+  for (const record of sealedReceipts) {
+    await dbTx.objectStore("incomingReceipts").put(record);
+  }
+  for (const record of sealedBillDrafts) {
+    await dbTx.objectStore("billDrafts").put(record);
+  }
+  for (const setting of sealedSettings) {
+    await dbTx.objectStore("offlineSettings").put(setting);
+  }
+  await dbTx.objectStore("offlineSettings").put({ key: `vault:${userId}`, value: vault });
+  await dbTx.done;
+
+  setVaultKey(userId, key);
+  shareOfflineVaultKey({ userId, key });
+}
+
+// Seal the data key with a recovery key the server now holds for this device. Returns
+// false if the PIN does not open the vault.
+export async function addOfflineDataRecovery(
+  userId: string,
+  pin: string,
+  recoveryKey: string
+): Promise<boolean> {
+  const vault = await getVaultRecord(userId);
+  const dataKey = vault?.dataKey && (await openVaultRecord(vault, pin));
+  if (!dataKey) {
+    return false;
+  }
+
+  const key = await importDataKey(decodeKeyBytes(recoveryKey));
+  await setOfflineSetting<OfflineVaultRecord>(`vault:${userId}`, {
+    ...vault,
+    recoveryDataKey: await sealDataKey(key, dataKey),
+  });
+  return true;
+}
+
+// After a PIN reset, re-open the vault with the server's recovery key and seal its data
+// key with the new PIN. Queued vouchers and other records are kept as they are. Returns
+// false if there is no vault to recover or the recovery key does not open it.
+export async function recoverOfflineData(
+  userId: string,
+  recoveryKey: string,
+  newPin: string
+): Promise<boolean> {
+  const vault = await getVaultRecord(userId);
+  if (!vault?.recoveryDataKey) {
+    return false;
+  }
+
+  let dataKey: Uint8Array;
+  try {
+    dataKey = await openDataKey(
+      await importDataKey(decodeKeyBytes(recoveryKey)),
+      vault.recoveryDataKey
+    );
+  } catch {
+    return false;
+  }
+
+  await setOfflineSetting<OfflineVaultRecord>(`vault:${userId}`, {
+    ...(await createVaultRecord(newPin, dataKey)),
+    recoveryDataKey: vault.recoveryDataKey,
+  });
+  return true;
+}
+
+// Write off a vault no PIN can open any more, after the account PIN was reset on a device
+// without a recovery key. Deletes everything sealed for the user and starts a new vault
+// with the current PIN; returns how many unsettled vouchers were written off. The offline
+// purse is left drawn down, since their receivers may still settle handed-over vouchers.
+export async function resetOfflineData(userId: string, pin: string): Promise<number> {
+  const db = await getDB();
+  const transactions = await db.getAllFromIndex("pendingTransactions", "by-sender", userId);
+  const recipientKeys = await db.getAllKeysFromIndex("cachedRecipients", "by-owner", userId);
+  const receiptKeys = await db.getAllKeysFromIndex("incomingReceipts", "by-owner", userId);
+  const billDraftKeys = await db.getAllKeysFromIndex("billDrafts", "by-owner", userId);
+  const settingKeys = (await db.getAll("offlineSettings"))
+    .filter((setting) => setting.sealedFor === userId)
+    .map((setting) => setting.key);
+
+  const dbTx = db.transaction(
+    [
+      "pendingTransactions",
+      "cachedRecipients",
+      "incomingReceipts",
+      "billDrafts",
+      "offlineSettings",
+    ],
+    "readwrite"
+  );
+  for (const tx of transactions) {
+    await dbTx.objectStore("pendingTransactions").delete(tx.id);
+  }
+  for (const key of recipientKeys) {
+    await dbTx.objectStore("cachedRecipients").delete(key);
+  }
+  for (const key of receiptKeys) {
+    await dbTx.objectStore("incomingReceipts").delete(key);
+  }
+  for (const key of billDraftKeys) {
+    await dbTx.objectStore("billDrafts").delete(key);
+  }
+  for (const key of [...settingKeys, `vault:${userId}`]) {
+    await dbTx.objectStore("offlineSettings").delete(key);
+  }
+  await dbTx.done;
+
+  await unlockOfflineData(userId, pin);
+  return transactions.filter((tx) => tx.status !== "failed").length;
 }
 
 export type { PendingTransaction };
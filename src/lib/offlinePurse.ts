@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { adjustOfflinePurse, getOfflinePurse, getAllOfflineTransactions } from "./offlineDb";
+import { Money, ZERO_MONEY, fromDecimal, subtractMoney, toDecimal } from "./money";
+
+// Escrow funds on the server, then make them spendable offline on this device
+export async function loadOfflinePurse(userId: string, amount: Money): Promise<Money> {
+  const { error } = await supabase.rpc("load_offline_purse", { _amount: toDecimal(amount) });
+
+  if (error) {
+    throw error;
+  }
+
+  const purse = await adjustOfflinePurse(userId, amount);
+  return purse.balance;
+}
+
+// Hand unspent offline funds back to the wallet once every voucher has settled
+export async function returnOfflinePurse(userId: string): Promise<Money> {
+  const queued = await getAllOfflineTransactions(userId);
+  if (queued.some((tx) => tx.status !== "failed")) {
+    throw new Error("Sync pending offline payments before returning the purse");
+  }
+
+  const { balance } = await getOfflinePurse(userId);
+  if (balance <= 0) return ZERO_MONEY;
+
+  const { data: returned, error } = await supabase.rpc("unload_offline_purse", {
+    _amount: toDecimal(balance),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  await adjustOfflinePurse(userId, subtractMoney(ZERO_MONEY, balance));
+  return fromDecimal(returned);
+}
@@ -0,0 +1,138 @@
+// Offline records are sealed at rest with a random AES-GCM data key, itself sealed with a
+// key derived from the user's PIN. The data key only lives in memory between unlocking at
+// login and locking at sign-out.
+// A 4-digit PIN carries little entropy, so this keeps the database unreadable to
+// other scripts and casual inspection rather than to a determined offline attacker.
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const DATA_KEY_BYTES = 32;
+
+export interface SealedValue {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+export class OfflineVaultLockedError extends Error {
+  constructor(message = "Offline data is locked. Enter your PIN to unlock it.") {
+    super(message);
+    this.name = "OfflineVaultLockedError";
+  }
+}
+
+interface UnlockedVault {
+  userId: string;
+  key: CryptoKey;
+}
+
+let vault: UnlockedVault | null = null;
+const listeners = new Set<() => void>();
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export function generateVaultSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+export async function deriveVaultKey(pin: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export function generateDataKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+}
+
+export function importDataKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// Key bytes travel as base64, both inside sealed JSON and to the server
+export function encodeKeyBytes(raw: Uint8Array): string {
+  return btoa(String.fromCharCode(...raw));
+}
+
+export function decodeKeyBytes(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+}
+
+// A key the server holds for this device so a PIN reset can re-open the vault
+export function generateRecoveryKey(): string {
+  return encodeKeyBytes(generateDataKey());
+}
+
+export async function sealWithKey<T>(key: CryptoKey, value: T): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv, ciphertext };
+}
+
+// Rejects when the key is wrong or the record was tampered with
+export async function openWithKey<T>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: sealed.iv },
+    key,
+    sealed.ciphertext
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+function getVaultKey(userId: string): CryptoKey {
+  if (!vault || vault.userId !== userId) {
+    throw new OfflineVaultLockedError();
+  }
+  return vault.key;
+}
+
+export function seal<T>(userId: string, value: T): Promise<SealedValue> {
+  return sealWithKey(getVaultKey(userId), value);
+}
+
+export function unseal<T>(userId: string, sealed: SealedValue): Promise<T> {
+  return openWithKey<T>(getVaultKey(userId), sealed);
+}
+
+export function setVaultKey(userId: string, key: CryptoKey) {
+  vault = { userId, key };
+  notifyListeners();
+}
+
+export function lockOfflineVault() {
+  if (!vault) return;
+  vault = null;
+  notifyListeners();
+}
+
+export function getUnlockedVaultUserId(): string | null {
+  return vault?.userId ?? null;
+}
+
+export function isOfflineVaultUnlocked(userId: string): boolean {
+  return vault?.userId === userId;
+}
+
+export function onOfflineVaultChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
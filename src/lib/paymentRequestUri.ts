@@ -0,0 +1,145 @@
+import { sha256Hex } from "./voucherCrypto";
+import { Money, MoneyError, checkPaymentAmount, parseMoney, toDecimal } from "./money";
+
+// Payment request QR codes:
+//
+//   offlinepay://pay/<payment id>?v=1&am=<amount>&tn=<note>&tr=<reference>&exp=<unix seconds>&cs=<checksum>
+//
+// Everything after the payment id is optional, so a bare `offlinepay://pay/OP12345678`
+// (or just `OP12345678`) is still a valid request for any amount. The checksum is the
+// first 8 hex characters of the SHA-256 of the URI without it; it catches misreads and
+// hand-edited codes but is not a signature.
+
+const URI_PREFIX = "offlinepay://pay/";
+const URI_VERSION = 1;
+const CHECKSUM_LENGTH = 8;
+
+const PAYMENT_ID_PATTERN = /^OP[A-Z0-9]{4,20}$/;
+const AMOUNT_PATTERN = /^\d{1,9}(\.\d{1,2})?$/;
+const MAX_NOTE_LENGTH = 100;
+const MAX_REFERENCE_LENGTH = 35;
+
+export interface PaymentRequest {
+  paymentId: string;
+  amount?: Money;
+  note?: string;
+  reference?: string;
+  // Milliseconds since the epoch
+  expiresAt?: number;
+}
+
+export class PaymentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentRequestError";
+  }
+}
+
+// Parameters in a fixed order so the checksum is reproducible
+function toParams(request: PaymentRequest): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("v", String(URI_VERSION));
+  if (request.amount !== undefined) params.set("am", toDecimal(request.amount).toFixed(2));
+  if (request.note) params.set("tn", request.note);
+  if (request.reference) params.set("tr", request.reference);
+  if (request.expiresAt !== undefined) {
+    params.set("exp", String(Math.floor(request.expiresAt / 1000)));
+  }
+  return params;
+}
+
+async function checksum(paymentId: string, params: URLSearchParams): Promise<string> {
+  const digest = await sha256Hex(`${URI_PREFIX}${paymentId}?${params.toString()}`);
+  return digest.slice(0, CHECKSUM_LENGTH);
+}
+
+function validate(request: PaymentRequest): void {
+  if (!PAYMENT_ID_PATTERN.test(request.paymentId)) {
+    throw new PaymentRequestError("Invalid payment ID");
+  }
+  if (request.amount !== undefined) {
+    try {
+      checkPaymentAmount(request.amount);
+    } catch (error) {
+      throw new PaymentRequestError((error as MoneyError).message);
+    }
+  }
+  if (request.note && request.note.length > MAX_NOTE_LENGTH) {
+    throw new PaymentRequestError(`Note must be ${MAX_NOTE_LENGTH} characters or fewer`);
+  }
+  if (request.reference && request.reference.length > MAX_REFERENCE_LENGTH) {
+    throw new PaymentRequestError(`Reference must be ${MAX_REFERENCE_LENGTH} characters or fewer`);
+  }
+}
+
+export async function buildPaymentRequestUri(
+  request: PaymentRequest,
+  { withChecksum = true } = {}
+): Promise<string> {
+  validate(request);
+
+  const params = toParams(request);
+  if (withChecksum) {
+    params.set("cs", await checksum(request.paymentId, params));
+  }
+  return `${URI_PREFIX}${request.paymentId}?${params.toString()}`;
+}
+
+export function isExpired(request: PaymentRequest, now = Date.now()): boolean {
+  return request.expiresAt !== undefined && request.expiresAt <= now;
+}
+
+// Accepts request URIs, bare `offlinepay://pay/<id>` links and plain payment IDs.
+// Rejects unknown versions, malformed fields, checksum mismatches and expired requests.
+export async function parsePaymentRequestUri(text: string): Promise<PaymentRequest> {
+  const trimmed = text.trim();
+
+  if (!trimmed.toLowerCase().startsWith(URI_PREFIX)) {
+    const paymentId = trimmed.toUpperCase();
+    if (!PAYMENT_ID_PATTERN.test(paymentId)) {
+      throw new PaymentRequestError("This QR code is not an OfflinePay payment code");
+    }
+    return { paymentId };
+  }
+
+  const rest = trimmed.slice(URI_PREFIX.length);
+  const queryStart = rest.indexOf("?");
+  const paymentId = (queryStart === -1 ? rest : rest.slice(0, queryStart))
+    .replace(/\/+$/, "")
+    .toUpperCase();
+  const params = new URLSearchParams(queryStart === -1 ? "" : rest.slice(queryStart + 1));
+
+  const version = params.get("v");
+  if (version !== null && version !== String(URI_VERSION)) {
+    throw new PaymentRequestError("This payment code needs a newer version of the app");
+  }
+
+  const amountText = params.get("am");
+  if (amountText !== null && !AMOUNT_PATTERN.test(amountText)) {
+    throw new PaymentRequestError("Invalid amount");
+  }
+  const expiryText = params.get("exp");
+  if (expiryText !== null && !/^\d+$/.test(expiryText)) {
+    throw new PaymentRequestError("Invalid expiry");
+  }
+
+  const request: PaymentRequest = {
+    paymentId,
+    amount: amountText !== null ? parseMoney(amountText) : undefined,
+    note: params.get("tn") || undefined,
+    reference: params.get("tr") || undefined,
+    expiresAt: expiryText !== null ? Number(expiryText) * 1000 : undefined,
+  };
+  validate(request);
+
+  const expected = params.get("cs");
+  if (expected !== null && expected.toLowerCase() !== (await checksum(paymentId, toParams(request)))) {
+    throw new PaymentRequestError("This payment code is damaged or has been altered");
+  }
+
+  if (isExpired(request)) {
+    throw new PaymentRequestError("This payment request has expired");
+  }
+
+  return request;
+}
@@ -0,0 +1,238 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  cacheDeviceKeys,
+  getCachedDeviceKey,
+  getIncomingReceipt,
+  getIncomingReceipts,
+  saveIncomingReceipt,
+  IncomingReceipt,
+  PendingTransaction,
+} from "./offlineDb";
+import { serializeVoucher, sha256Hex, verifyPayload, SignedVoucher } from "./voucherCrypto";
+import { fromDecimal, toDecimal } from "./money";
+
+// Signed payment receipts: the sender shows the voucher they queued as a QR code, and
+// the receiver checks its signature against the sender's cached device key, so both
+// sides have a record of the payment before either is back online.
+
+export const RECEIPT_PREFIX = "offlinepay-receipt:";
+
+const RECEIPT_VERSION = 1;
+
+interface PaymentReceipt {
+  v: number;
+  id: string;
+  senderId: string;
+  receiverId: string;
+  amount: number;
+  timestamp: number;
+  deviceId: string;
+  description?: string;
+  hash: string;
+  signature: string;
+  // Display only, not covered by the signature
+  senderPaymentId: string;
+  senderName?: string;
+}
+
+export class ReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptError";
+  }
+}
+
+export function encodeReceipt(
+  tx: PendingTransaction,
+  sender: { payment_id: string; display_name: string | null }
+): string {
+  const receipt: PaymentReceipt = {
+    v: RECEIPT_VERSION,
+    id: tx.id,
+    senderId: tx.senderId,
+    receiverId: tx.receiverId,
+    amount: toDecimal(tx.amount),
+    timestamp: tx.timestamp,
+    deviceId: tx.deviceId,
+    description: tx.description,
+    hash: tx.hash,
+    signature: tx.signature ?? "",
+    senderPaymentId: sender.payment_id,
+    senderName: sender.display_name ?? undefined,
+  };
+  return RECEIPT_PREFIX + JSON.stringify(receipt);
+}
+
+export function isReceipt(text: string): boolean {
+  return text.startsWith(RECEIPT_PREFIX);
+}
+
+function decodeReceipt(text: string): PaymentReceipt {
+  if (!isReceipt(text)) {
+    throw new ReceiptError("This QR code is not a payment receipt");
+  }
+
+  let receipt: PaymentReceipt;
+  try {
+    receipt = JSON.parse(text.slice(RECEIPT_PREFIX.length));
+  } catch {
+    throw new ReceiptError("This receipt could not be read");
+  }
+
+  if (
+    receipt?.v !== RECEIPT_VERSION ||
+    typeof receipt.id !== "string" ||
+    typeof receipt.senderId !== "string" ||
+    typeof receipt.receiverId !== "string" ||
+    typeof receipt.amount !== "number" ||
+    typeof receipt.timestamp !== "number" ||
+    typeof receipt.deviceId !== "string" ||
+    typeof receipt.hash !== "string" ||
+    typeof receipt.signature !== "string" ||
+    !receipt.signature
+  ) {
+    throw new ReceiptError("This receipt is incomplete or from an unsupported version");
+  }
+
+  return receipt;
+}
+
+// Cache the active device keys of the given users for verifying their receipts offline
+export async function prefetchDeviceKeys(userIds: string[]): Promise<void> {
+  const unique = Array.from(new Set(userIds));
+  if (unique.length === 0) return;
+
+  const { data, error } = await supabase.rpc("get_device_public_keys", { _user_ids: unique });
+  if (error) throw error;
+
+  await cacheDeviceKeys(
+    (data ?? []).map((key) => ({
+      userId: key.user_id,
+      deviceId: key.device_id,
+      publicKey: key.public_key as JsonWebKey,
+    }))
+  );
+}
+
+async function getSenderKey(
+  senderId: string,
+  deviceId: string,
+  canFetch: boolean
+): Promise<JsonWebKey | null> {
+  const cached = await getCachedDeviceKey(senderId, deviceId);
+  if (cached || !canFetch) return cached?.publicKey ?? null;
+
+  try {
+    await prefetchDeviceKeys([senderId]);
+  } catch (error) {
+    console.error("Error fetching sender device key:", error);
+    return null;
+  }
+  return (await getCachedDeviceKey(senderId, deviceId))?.publicKey ?? null;
+}
+
+// Resolves to "unverified" when the sender's key is unknown and throws when the
+// receipt does not match its signature
+async function verifyReceipt(
+  receipt: SignedVoucher,
+  canFetch: boolean
+): Promise<IncomingReceipt["verification"]> {
+  const payload = serializeVoucher(receipt);
+  if ((await sha256Hex(payload)) !== receipt.hash) {
+    throw new ReceiptError("This receipt has been altered");
+  }
+
+  const publicKey = await getSenderKey(receipt.senderId, receipt.deviceId, canFetch);
+  if (!publicKey) return "unverified";
+
+  if (!(await verifyPayload(publicKey, payload, receipt.signature))) {
+    throw new ReceiptError("This receipt's signature is not valid");
+  }
+  return "verified";
+}
+
+// Check a scanned receipt and keep it as an incoming pending payment
+export async function acceptReceipt(ownerId: string, text: string): Promise<IncomingReceipt> {
+  const receipt = decodeReceipt(text);
+  if (receipt.receiverId !== ownerId) {
+    throw new ReceiptError("This receipt is for a payment to someone else");
+  }
+
+  const existing = await getIncomingReceipt(ownerId, receipt.id);
+  if (existing?.verification === "verified") return existing;
+
+  const incoming: IncomingReceipt = {
+    ownerId,
+    voucherId: receipt.id,
+    senderId: receipt.senderId,
+    senderPaymentId: receipt.senderPaymentId,
+    senderName: receipt.senderName,
+    amount: fromDecimal(receipt.amount),
+    timestamp: receipt.timestamp,
+    deviceId: receipt.deviceId,
+    description: receipt.description,
+    hash: receipt.hash,
+    signature: receipt.signature,
+    verification: await verifyReceipt(receipt, navigator.onLine),
+    status: existing?.status ?? "pending",
+    transactionId: existing?.transactionId,
+    receivedAt: existing?.receivedAt ?? Date.now(),
+  };
+  await saveIncomingReceipt(incoming);
+  return incoming;
+}
+
+// Online housekeeping: refresh sender keys, verify receipts scanned without one and
+// settle receipts whose voucher the server has applied
+export async function reconcileIncomingReceipts(ownerId: string): Promise<void> {
+  const { data: recent, error: recentError } = await supabase
+    .from("transactions")
+    .select("sender_id, receiver_id")
+    .or(`sender_id.eq.${ownerId},receiver_id.eq.${ownerId}`)
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (recentError) throw recentError;
+
+  const receipts = await getIncomingReceipts(ownerId);
+  const counterparties = (recent ?? [])
+    .map((tx) => (tx.sender_id === ownerId ? tx.receiver_id : tx.sender_id))
+    .concat(receipts.map((receipt) => receipt.senderId))
+    .filter((id): id is string => !!id);
+  await prefetchDeviceKeys(counterparties);
+
+  const pending = receipts.filter((receipt) => receipt.status === "pending");
+  if (pending.length === 0) return;
+
+  const { data: settled, error: settledError } = await supabase
+    .from("transactions")
+    .select("id, transaction_hash")
+    .eq("receiver_id", ownerId)
+    .in("transaction_hash", pending.map((receipt) => receipt.hash));
+  if (settledError) throw settledError;
+
+  const settledByHash = new Map((settled ?? []).map((tx) => [tx.transaction_hash, tx.id]));
+
+  for (const receipt of pending) {
+    let verification = receipt.verification;
+    if (verification === "unverified") {
+      try {
+        verification = await verifyReceipt(
+          { ...receipt, id: receipt.voucherId, receiverId: ownerId },
+          false
+        );
+      } catch (error) {
+        console.warn(`Receipt ${receipt.voucherId} failed verification:`, error);
+      }
+    }
+
+    const transactionId = settledByHash.get(receipt.hash);
+    if (verification === receipt.verification && !transactionId) continue;
+
+    await saveIncomingReceipt({
+      ...receipt,
+      verification,
+      status: transactionId ? "settled" : receipt.status,
+      transactionId,
+    });
+  }
+}
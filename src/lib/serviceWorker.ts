@@ -74,3 +74,29 @@ export async function requestBackgroundSync(): Promise<boolean> {
     return false;
   }
 }
+
+type SharedVault = { userId: string; key: CryptoKey } | null;
+
+let sharedVault: SharedVault = null;
+let isResharingOnControllerChange = false;
+
+// The service worker keeps its own in-memory copy of the offline data key so background
+// sync can read the queue. It is lost whenever the browser stops the worker, and by
+// design it is never written anywhere the worker could reload it from: a worker woken
+// with no window open cannot sync, and the queue waits until the app is opened and
+// unlocked again. While a window is open the worker hands the sync back to it instead.
+export function shareOfflineVaultKey(vault: SharedVault): void {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  if (!isResharingOnControllerChange) {
+    // A newly activated worker starts without the key
+    isResharingOnControllerChange = true;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      navigator.serviceWorker.controller?.postMessage({ type: 'OFFLINE_VAULT', vault: sharedVault });
+    });
+  }
+  sharedVault = vault;
+  navigator.serviceWorker.controller?.postMessage({ type: 'OFFLINE_VAULT', vault });
+}
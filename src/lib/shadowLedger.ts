@@ -0,0 +1,196 @@
+import type { Wallet } from "./auth";
+import {
+  getAllOfflineTransactions,
+  getSealedOfflineSetting,
+  setSealedOfflineSetting,
+  PendingTransaction,
+} from "./offlineDb";
+import { isOfflineVaultUnlocked } from "./offlineVault";
+import {
+  Money,
+  ZERO_MONEY,
+  addMoney,
+  fromDecimal,
+  maxMoney,
+  subtractMoney,
+  sumMoney,
+  toDecimal,
+} from "./money";
+
+// Local shadow ledger: the last wallet state the server confirmed, adjusted on the
+// device for vouchers that have been queued or settled since it was captured.
+
+type WalletRow = Pick<
+  Wallet,
+  | "balance"
+  | "offline_reserve"
+  | "offline_daily_limit"
+  | "offline_used_today"
+  | "last_offline_reset"
+  | "updated_at"
+>;
+
+interface WalletSnapshot {
+  balance: Money;
+  offlineReserve: Money;
+  offlineDailyLimit: Money;
+  offlineUsedToday: Money;
+  // Server date (UTC) that offlineUsedToday belongs to
+  usageDate: string | null;
+  // Server updated_at of the wallet row the snapshot was taken from
+  walletUpdatedAt: number;
+  capturedAt: number;
+}
+
+export interface LedgerBalance {
+  // Wallet balance as last confirmed by the server
+  confirmedBalance: Money;
+  // Vouchers queued on this device that the server has not settled yet
+  queuedDebits: Money;
+  // Everything the user can still spend: wallet plus offline purse, minus queued debits
+  availableBalance: Money;
+  offlineRemainingToday: Money;
+  capturedAt: number;
+}
+
+type LedgerListener = () => void;
+
+const listeners = new Set<LedgerListener>();
+
+function snapshotKey(userId: string): string {
+  return `wallet-snapshot:${userId}`;
+}
+
+// Offline usage is counted per server day, which is UTC
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function isQueued(tx: PendingTransaction): boolean {
+  return tx.status !== "failed";
+}
+
+export function onLedgerChange(listener: LedgerListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyLedgerChanged() {
+  listeners.forEach((listener) => listener());
+}
+
+type SnapshotAmountField = "balance" | "offlineReserve" | "offlineDailyLimit" | "offlineUsedToday";
+
+// Snapshots are sealed with their amounts in rupees, as they were before Money
+type StoredWalletSnapshot = Omit<WalletSnapshot, SnapshotAmountField> &
+  Record<SnapshotAmountField, number>;
+
+async function getSnapshot(userId: string): Promise<WalletSnapshot | null> {
+  if (!isOfflineVaultUnlocked(userId)) return null;
+  const stored = await getSealedOfflineSetting<StoredWalletSnapshot>(userId, snapshotKey(userId));
+  if (!stored) return null;
+  return {
+    ...stored,
+    balance: fromDecimal(stored.balance),
+    offlineReserve: fromDecimal(stored.offlineReserve),
+    offlineDailyLimit: fromDecimal(stored.offlineDailyLimit),
+    offlineUsedToday: fromDecimal(stored.offlineUsedToday),
+  };
+}
+
+async function saveSnapshot(userId: string, snapshot: WalletSnapshot): Promise<void> {
+  const stored: StoredWalletSnapshot = {
+    ...snapshot,
+    balance: toDecimal(snapshot.balance),
+    offlineReserve: toDecimal(snapshot.offlineReserve),
+    offlineDailyLimit: toDecimal(snapshot.offlineDailyLimit),
+    offlineUsedToday: toDecimal(snapshot.offlineUsedToday),
+  };
+  await setSealedOfflineSetting(userId, snapshotKey(userId), stored);
+  notifyLedgerChanged();
+}
+
+// A wallet read from the server replaces the snapshot unless it is no newer than the
+// row the snapshot came from, which would drop debits applied locally since then.
+// Skipped while offline data is locked.
+export async function recordWalletSnapshot(userId: string, wallet: WalletRow): Promise<void> {
+  if (!isOfflineVaultUnlocked(userId)) return;
+
+  const walletUpdatedAt = Date.parse(wallet.updated_at);
+  const current = await getSnapshot(userId);
+  if (current && walletUpdatedAt <= current.walletUpdatedAt) return;
+
+  await saveSnapshot(userId, {
+    balance: wallet.balance,
+    offlineReserve: wallet.offline_reserve,
+    offlineDailyLimit: wallet.offline_daily_limit,
+    offlineUsedToday: wallet.offline_used_today,
+    usageDate: wallet.last_offline_reset,
+    walletUpdatedAt,
+    capturedAt: Date.now(),
+  });
+}
+
+// A voucher left the queue because the server settled it. Mirror the debit onto the
+// snapshot the way process_transaction applies it, so the balance stays right until
+// the wallet is next read from the server.
+export async function applySettledDebit(tx: PendingTransaction): Promise<void> {
+  const snapshot = await getSnapshot(tx.senderId);
+  if (!snapshot) return;
+
+  const fromReserve = snapshot.offlineReserve >= tx.amount;
+  const settledDate = utcDate(tx.timestamp);
+  const today = utcDate(Date.now());
+  const usedToday = snapshot.usageDate === today ? snapshot.offlineUsedToday : ZERO_MONEY;
+
+  await saveSnapshot(tx.senderId, {
+    ...snapshot,
+    balance: fromReserve ? snapshot.balance : subtractMoney(snapshot.balance, tx.amount),
+    offlineReserve: fromReserve
+      ? subtractMoney(snapshot.offlineReserve, tx.amount)
+      : snapshot.offlineReserve,
+    offlineUsedToday: settledDate === today ? addMoney(usedToday, tx.amount) : usedToday,
+    usageDate: today,
+  });
+}
+
+// Offline spending counted against today's limit: what the server has settled plus
+// what is still queued on this device
+export async function getTodayOfflineTotal(userId: string): Promise<Money> {
+  const [snapshot, transactions] = await Promise.all([
+    getSnapshot(userId),
+    getAllOfflineTransactions(userId),
+  ]);
+  const today = utcDate(Date.now());
+
+  const settled = snapshot?.usageDate === today ? snapshot.offlineUsedToday : ZERO_MONEY;
+  const queued = sumMoney(
+    transactions
+      .filter((tx) => isQueued(tx) && utcDate(tx.timestamp) === today)
+      .map((tx) => tx.amount)
+  );
+
+  return addMoney(settled, queued);
+}
+
+export async function getLedgerBalance(userId: string): Promise<LedgerBalance | null> {
+  const snapshot = await getSnapshot(userId);
+  if (!snapshot) return null;
+
+  const transactions = await getAllOfflineTransactions(userId);
+  const queuedDebits = sumMoney(transactions.filter(isQueued).map((tx) => tx.amount));
+  const offlineUsedToday = await getTodayOfflineTotal(userId);
+
+  return {
+    confirmedBalance: snapshot.balance,
+    queuedDebits,
+    availableBalance: subtractMoney(addMoney(snapshot.balance, snapshot.offlineReserve), queuedDebits),
+    offlineRemainingToday: maxMoney(
+      ZERO_MONEY,
+      subtractMoney(snapshot.offlineDailyLimit, offlineUsedToday)
+    ),
+    capturedAt: snapshot.capturedAt,
+  };
+}
@@ -1,135 +1,408 @@
 import { supabase } from "@/integrations/supabase/client";
 import {
   getPendingTransactions,
+  requeueStaleTransactions,
   updateTransactionStatus,
+  scheduleTransactionRetry,
   deleteTransaction,
+  ensureTransactionSigned,
+  adjustOfflinePurse,
   PendingTransaction,
 } from "./offlineDb";
+import {
+  TransactionError,
+  getTransactionErrorCode,
+  getTransactionErrorMessage,
+  isPermanentTransactionError,
+  TransactionErrorCode,
+} from "./transactionErrors";
+import { withSyncLock } from "./syncLock";
+import { isOfflineVaultUnlocked } from "./offlineVault";
+import { applySettledDebit, notifyLedgerChanged } from "./shadowLedger";
+import type { SignedVoucher } from "./voucherCrypto";
+import { toDecimal } from "./money";
+
+type SyncStatus = "syncing" | "success" | "error";
 
+// `remote` is true when the sync ran in another tab or the service worker
 type SyncCallback = (
-  status: "syncing" | "success" | "error",
+  status: SyncStatus,
   message?: string,
-  count?: number
+  count?: number,
+  remote?: boolean
 ) => void;
 
+export interface SyncFailure {
+  transactionId: string;
+  code: TransactionErrorCode | null;
+  message: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  failures: SyncFailure[];
+}
+
+interface SyncStatusMessage {
+  status: SyncStatus;
+  message?: string;
+  count?: number;
+}
+
 let isSyncing = false;
 let syncCallback: SyncCallback | null = null;
 
+// Progress is mirrored to every open tab so their sync indicators stay consistent
+let statusChannel: BroadcastChannel | null = null;
+
+function getStatusChannel(): BroadcastChannel | null {
+  if (!statusChannel && typeof BroadcastChannel !== "undefined") {
+    statusChannel = new BroadcastChannel("offlinepay-sync-status");
+    statusChannel.addEventListener("message", (event: MessageEvent<SyncStatusMessage>) => {
+      const { status, message, count } = event.data;
+      syncCallback?.(status, message, count, true);
+    });
+  }
+  return statusChannel;
+}
+
+function notifySync(status: SyncStatus, message?: string, count?: number) {
+  syncCallback?.(status, message, count, false);
+  getStatusChannel()?.postMessage({ status, message, count } satisfies SyncStatusMessage);
+}
+
 export function setSyncCallback(callback: SyncCallback | null) {
   syncCallback = callback;
+  if (callback) {
+    getStatusChannel();
+  }
 }
 
-export async function syncPendingTransactions(): Promise<{
-  synced: number;
-  failed: number;
-}> {
+// Per-voucher outcome reported by the submit-vouchers edge function
+export interface VoucherResult {
+  voucher_id: string;
+  status: "settled" | "duplicate" | "insufficient_funds" | "rejected";
+  transaction_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  // A duplicate that another user delivered as a relay
+  relayed?: boolean;
+}
+
+// Keeps a single request small enough for slow links
+const SYNC_BATCH_SIZE = 50;
+
+// No sync holds the lock this long, so a voucher still "syncing" after it was orphaned
+const SYNC_LOCK_LIFETIME_MS = 5 * 60 * 1000;
+
+// Transient failures back off exponentially: 5s, 10s, 20s ... capped at 30 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+export function getRetryDelay(retryCount: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retryCount);
+  // Jitter so devices coming back online together don't retry in lockstep
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+}
+
+export function toSignedVoucher(tx: PendingTransaction): SignedVoucher {
+  return {
+    id: tx.id,
+    senderId: tx.senderId,
+    receiverId: tx.receiverId,
+    amount: toDecimal(tx.amount),
+    timestamp: tx.timestamp,
+    deviceId: tx.deviceId,
+    description: tx.description,
+    signedAt: tx.signedAt,
+    hash: tx.hash,
+    signature: tx.signature ?? "",
+  };
+}
+
+interface SubmitOptions {
+  accessToken?: string;
+  // Vouchers signed by other users, carried to the server on their behalf
+  relay?: boolean;
+}
+
+// The edge function verifies every device signature, then settles the batch in one database transaction
+export async function submitVoucherBatch(
+  vouchers: SignedVoucher[],
+  { accessToken, relay }: SubmitOptions = {}
+): Promise<VoucherResult[]> {
+  const { data, error } = await supabase.functions.invoke<{ results: VoucherResult[] }>(
+    "submit-vouchers",
+    {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+      body: { vouchers, relay },
+    }
+  );
+
+  if (error) {
+    // Non-2xx responses carry the rejection reason in the JSON body
+    const context = (error as { context?: Response }).context;
+    const body = await context?.json?.().catch(() => null);
+    throw new TransactionError(body?.error || error.message, getTransactionErrorCode(body));
+  }
+
+  return data.results;
+}
+
+function toTransactionError(result: VoucherResult | undefined): TransactionError {
+  if (!result) {
+    return new TransactionError("No result returned for voucher");
+  }
+  return new TransactionError(
+    result.error_message || "Voucher was rejected",
+    getTransactionErrorCode({ code: result.error_code })
+  );
+}
+
+interface SyncOptions {
+  // Ignore backoff schedules, e.g. when the user taps "Sync"
+  force?: boolean;
+  // Credentials for contexts without a Supabase session, i.e. the service worker
+  accessToken?: string;
+}
+
+// Submits the queued vouchers signed by userId; other users' vouchers on a shared
+// device wait until their owner signs in
+export async function syncPendingTransactions(
+  userId: string,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
   if (isSyncing) {
     console.log("Sync already in progress");
-    return { synced: 0, failed: 0 };
+    return { synced: 0, failed: 0, failures: [] };
+  }
+
+  // Queued vouchers are sealed until the user unlocks offline data with their PIN
+  if (!isOfflineVaultUnlocked(userId)) {
+    console.log("Offline data locked, skipping sync");
+    return { synced: 0, failed: 0, failures: [] };
   }
 
   isSyncing = true;
+  let lockBusy = false;
+  try {
+    const result = await withSyncLock(() => submitPendingTransactions(userId, options));
+    if (!result) {
+      lockBusy = true;
+      console.log("Sync already in progress in another tab");
+      return { synced: 0, failed: 0, failures: [] };
+    }
+    return result;
+  } finally {
+    isSyncing = false;
+    if (autoSyncUserId) {
+      // The lock holder works through the same queue, so check back later rather
+      // than retrying at once while the vouchers it holds still look due
+      scheduleNextSync(lockBusy ? RETRY_BASE_DELAY_MS : 0);
+    }
+  }
+}
+
+// Must only run while holding the sync lock
+async function submitPendingTransactions(
+  userId: string,
+  options: SyncOptions
+): Promise<SyncResult> {
   let synced = 0;
+  let relayed = 0;
   let failed = 0;
+  const failures: SyncFailure[] = [];
 
-  try {
-    const pending = await getPendingTransactions();
+  const markFailed = async (tx: PendingTransaction, error: unknown) => {
+    console.error(`Failed to sync transaction ${tx.id}:`, error);
 
-    if (pending.length === 0) {
-      isSyncing = false;
-      return { synced: 0, failed: 0 };
+    if (isPermanentTransactionError(error)) {
+      // Business rejections will never succeed, so fail the voucher right away
+      await updateTransactionStatus(tx.id, "failed", true, getTransactionErrorMessage(error));
+      // The escrowed funds were never spent, so make them available offline again
+      if (tx.drawnFromPurse) {
+        await adjustOfflinePurse(tx.senderId, tx.amount);
+      }
+      failures.push({
+        transactionId: tx.id,
+        code: getTransactionErrorCode(error),
+        message: getTransactionErrorMessage(error),
+      });
+    } else {
+      // Network and server hiccups are retried later rather than giving up on the payment
+      await scheduleTransactionRetry(
+        tx.id,
+        Date.now() + getRetryDelay(tx.retryCount),
+        getTransactionErrorMessage(error)
+      );
     }
+    failed++;
+  };
 
-    syncCallback?.("syncing", `Syncing ${pending.length} transactions...`, pending.length);
-
-    for (const tx of pending) {
-      try {
-        // Mark as syncing
-        await updateTransactionStatus(tx.id, "syncing");
-
-        // Check for duplicate (double-spend prevention)
-        const { data: existing } = await supabase
-          .from("transactions")
-          .select("id")
-          .eq("transaction_hash", tx.hash)
-          .maybeSingle();
-
-        if (existing) {
-          console.log(`Transaction ${tx.id} already synced, removing local copy`);
-          await deleteTransaction(tx.id);
-          synced++;
-          continue;
-        }
+  const now = Date.now();
+  const requeued = await requeueStaleTransactions(userId, now - SYNC_LOCK_LIFETIME_MS);
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} transactions left syncing by an interrupted sync`);
+  }
 
-        // Process the transaction
-        const { data, error } = await supabase.rpc("process_transaction", {
-          _sender_id: tx.senderId,
-          _receiver_id: tx.receiverId,
-          _amount: tx.amount,
-          _description: tx.description || null,
-          _is_offline: true,
-          _transaction_hash: tx.hash,
-          _device_id: tx.deviceId,
-        });
-
-        if (error) {
-          throw error;
-        }
+  const pending = (await getPendingTransactions(userId)).filter(
+    (tx) => options.force || !tx.nextAttemptAt || tx.nextAttemptAt <= now
+  );
 
-        // Success - remove from local storage
-        await deleteTransaction(tx.id);
-        synced++;
-        console.log(`Transaction ${tx.id} synced successfully as ${data}`);
-      } catch (error: unknown) {
-        console.error(`Failed to sync transaction ${tx.id}:`, error);
+  if (pending.length === 0) {
+    return { synced: 0, failed: 0, failures };
+  }
 
-        // Update retry count and mark as failed if too many retries
-        await updateTransactionStatus(tx.id, tx.retryCount >= 2 ? "failed" : "pending", true);
-        failed++;
-      }
+  notifySync("syncing", `Syncing ${pending.length} transactions...`, pending.length);
+
+  // Oldest first so the server sees vouchers in the order they were spent
+  const ordered = [...pending].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (let i = 0; i < ordered.length; i += SYNC_BATCH_SIZE) {
+    const batch: PendingTransaction[] = [];
+    for (const tx of ordered.slice(i, i + SYNC_BATCH_SIZE)) {
+      // Vouchers queued before signing existed are signed now. Signing writes the
+      // record back, so it has to happen before the voucher is marked syncing.
+      batch.push(await ensureTransactionSigned(tx));
+      await updateTransactionStatus(tx.id, "syncing");
     }
 
-    if (synced > 0) {
-      syncCallback?.("success", `${synced} transaction${synced > 1 ? "s" : ""} synced!`, synced);
+    let results: VoucherResult[];
+    try {
+      results = await submitVoucherBatch(batch.map(toSignedVoucher), {
+        accessToken: options.accessToken,
+      });
+    } catch (error: unknown) {
+      // The whole request failed, so every voucher in it is retried
+      for (const tx of batch) {
+        await markFailed(tx, error);
+      }
+      continue;
     }
 
-    if (failed > 0) {
-      syncCallback?.("error", `${failed} transaction${failed > 1 ? "s" : ""} failed to sync`, failed);
+    const resultsById = new Map(results.map((result) => [result.voucher_id, result]));
+
+    for (const tx of batch) {
+      const result = resultsById.get(tx.id);
+
+      if (result?.status === "settled" || result?.status === "duplicate") {
+        // Success - remove from local storage. Replays are safe because the server is idempotent.
+        await deleteTransaction(tx.id);
+        // A duplicate was settled by an earlier sync whose response never arrived,
+        // or by another user relaying the voucher
+        if (result.status === "settled") {
+          await applySettledDebit(tx);
+        }
+        if (result.relayed) {
+          relayed++;
+        }
+        synced++;
+        console.log(
+          result.status === "duplicate"
+            ? `Transaction ${tx.id} already synced as ${result.transaction_id}, removing local copy`
+            : `Transaction ${tx.id} synced successfully as ${result.transaction_id}`
+        );
+      } else {
+        await markFailed(tx, toTransactionError(result));
+      }
     }
+  }
 
-    return { synced, failed };
-  } finally {
-    isSyncing = false;
+  notifyLedgerChanged();
+
+  if (synced > 0) {
+    const relayNote = relayed > 0 ? ` (${relayed} delivered earlier by a relay)` : "";
+    notifySync(
+      "success",
+      `${synced} transaction${synced > 1 ? "s" : ""} synced!${relayNote}`,
+      synced
+    );
+  }
+
+  if (failed > 0) {
+    const reason = failures.length > 0 ? ` - ${failures[0].message}` : "";
+    notifySync(
+      "error",
+      `${failed} transaction${failed > 1 ? "s" : ""} failed to sync${reason}`,
+      failed
+    );
   }
+
+  return { synced, failed, failures };
 }
 
 // Auto-sync when coming online
+let autoSyncUserId: string | null = null;
 let onlineListener: (() => void) | null = null;
+let serviceWorkerListener: (() => void) | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Wake up when the earliest backed-off voucher becomes due, but not before minDelay
+async function scheduleNextSync(minDelay = 0) {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const userId = autoSyncUserId;
+  if (!userId || !isOfflineVaultUnlocked(userId)) return;
+
+  const pending = await getPendingTransactions(userId);
+  if (pending.length === 0 || autoSyncUserId !== userId) return;
+
+  const nextAttemptAt = Math.min(...pending.map((tx) => tx.nextAttemptAt ?? 0));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (navigator.onLine) {
+      syncPendingTransactions(userId);
+    }
+  }, Math.max(minDelay, nextAttemptAt - Date.now()));
+}
 
-export function startAutoSync() {
-  if (onlineListener) return;
+export function startAutoSync(userId: string) {
+  if (autoSyncUserId === userId) return;
+  stopAutoSync();
+  autoSyncUserId = userId;
 
   onlineListener = () => {
     console.log("Network online, triggering sync...");
     // Small delay to ensure stable connection
     setTimeout(() => {
-      syncPendingTransactions();
+      syncPendingTransactions(userId);
     }, 1000);
   };
 
   window.addEventListener("online", onlineListener);
 
+  // Background sync fired by the service worker (see registerServiceWorker)
+  serviceWorkerListener = () => {
+    console.log("Service worker requested sync");
+    syncPendingTransactions(userId);
+  };
+
+  window.addEventListener("sw-sync-transactions", serviceWorkerListener);
+
   // Also sync on startup if online
   if (navigator.onLine) {
     setTimeout(() => {
-      syncPendingTransactions();
+      syncPendingTransactions(userId);
     }, 2000);
   }
 }
 
 export function stopAutoSync() {
+  autoSyncUserId = null;
   if (onlineListener) {
     window.removeEventListener("online", onlineListener);
     onlineListener = null;
   }
+  if (serviceWorkerListener) {
+    window.removeEventListener("sw-sync-transactions", serviceWorkerListener);
+    serviceWorkerListener = null;
+  }
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
 }
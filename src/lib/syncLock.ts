@@ -0,0 +1,78 @@
+// Only one context (tab or service worker) may submit the offline queue at a time,
+// otherwise two of them could pick up the same vouchers and race each other.
+const SYNC_LOCK_NAME = "offlinepay-sync";
+
+// How long a claimant waits for a current holder to object before taking the lock
+const CLAIM_TIMEOUT_MS = 150;
+
+type LockMessage =
+  | { type: "claim"; id: string; at: number }
+  | { type: "held"; id: string };
+
+let heldBy: string | null = null;
+let lockChannel: BroadcastChannel | null = null;
+
+function getLockChannel(): BroadcastChannel {
+  if (!lockChannel) {
+    lockChannel = new BroadcastChannel(`${SYNC_LOCK_NAME}-lock`);
+    lockChannel.addEventListener("message", (event: MessageEvent<LockMessage>) => {
+      // Tell anyone trying to claim the lock that this context is holding it
+      if (event.data?.type === "claim" && heldBy) {
+        lockChannel?.postMessage({ type: "held", id: heldBy });
+      }
+    });
+  }
+  return lockChannel;
+}
+
+// Best-effort lock for browsers without Web Locks: announce a claim and back off if a
+// holder answers or an earlier claim from another context is seen.
+async function withBroadcastLock<T>(callback: () => Promise<T>): Promise<T | null> {
+  if (heldBy) return null;
+
+  const channel = getLockChannel();
+  const claim = { type: "claim", id: crypto.randomUUID(), at: Date.now() } as const;
+  let contested = false;
+
+  const onMessage = (event: MessageEvent<LockMessage>) => {
+    const message = event.data;
+    if (message?.type === "held") {
+      contested = true;
+    } else if (
+      message?.type === "claim" &&
+      (message.at < claim.at || (message.at === claim.at && message.id < claim.id))
+    ) {
+      contested = true;
+    }
+  };
+
+  channel.addEventListener("message", onMessage);
+  channel.postMessage(claim);
+  await new Promise((resolve) => setTimeout(resolve, CLAIM_TIMEOUT_MS));
+  channel.removeEventListener("message", onMessage);
+
+  if (contested || heldBy) return null;
+
+  heldBy = claim.id;
+  try {
+    return await callback();
+  } finally {
+    heldBy = null;
+  }
+}
+
+// Runs the callback while holding the sync lock. Resolves to null without running it
+// when another context already holds the lock.
+export async function withSyncLock<T>(callback: () => Promise<T>): Promise<T | null> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, (lock) =>
+      lock ? callback() : null
+    );
+  }
+
+  if (typeof BroadcastChannel !== "undefined") {
+    return withBroadcastLock(callback);
+  }
+
+  return callback();
+}
@@ -0,0 +1,148 @@
+// Machine-readable rejection reasons. Database functions raise them as the exception HINT:
+// process_transaction and the payment request, bill split, reversal, ledger, wallet and
+// PIN functions. The submit-vouchers (per-voucher `error_code`), pin-auth and otp edge
+// functions return them as `code`.
+export type TransactionErrorCode =
+  | "not_authenticated"
+  | "unauthorized_sender"
+  | "offline_not_allowed"
+  | "unsigned_voucher"
+  | "invalid_amount"
+  | "self_transfer"
+  | "receiver_not_found"
+  | "receiver_inactive"
+  | "sender_wallet_not_found"
+  | "offline_limit_exceeded"
+  | "insufficient_balance"
+  | "malformed_voucher"
+  | "unknown_device"
+  | "invalid_signature"
+  | "voucher_expired"
+  | "request_not_found"
+  | "unauthorized_request"
+  | "request_expired"
+  | "request_not_pending"
+  | "invalid_bill_split"
+  | "bill_split_not_found"
+  | "transaction_not_found"
+  | "unauthorized_reversal"
+  | "transaction_not_reversible"
+  | "already_reversed"
+  | "refund_exceeds_remaining"
+  | "ledger_bypass"
+  | "admin_only"
+  | "currency_mismatch"
+  | "offline_currency_unsupported"
+  | "fx_rate_unavailable"
+  | "fx_partial_refund"
+  | "unsupported_currency"
+  | "invalid_pin"
+  | "incorrect_pin"
+  | "pin_already_set"
+  | "pin_locked"
+  | "pin_throttled"
+  | "otp_rate_limited"
+  | "otp_invalid"
+  | "otp_expired"
+  | "otp_attempts_exceeded"
+  | "phone_taken"
+  | "phone_not_verified";
+
+const ERROR_MESSAGES: Record<TransactionErrorCode, string> = {
+  not_authenticated: "Your session has expired. Please log in again.",
+  unauthorized_sender: "You can only send money from your own wallet.",
+  offline_not_allowed: "Offline payments must be synced from the device that created them.",
+  unsigned_voucher: "This offline payment is missing its device signature.",
+  invalid_amount: "Enter a valid amount.",
+  self_transfer: "You cannot send money to yourself.",
+  receiver_not_found: "The recipient could not be found.",
+  receiver_inactive: "The recipient's account is not active.",
+  sender_wallet_not_found: "Your wallet could not be found.",
+  offline_limit_exceeded: "This payment exceeds your offline daily limit.",
+  insufficient_balance: "Insufficient balance to complete this payment.",
+  malformed_voucher: "This offline payment is corrupted and cannot be submitted.",
+  unknown_device: "This device is not registered for offline payments.",
+  invalid_signature: "This offline payment failed signature verification.",
+  voucher_expired: "This offline payment is too old to be settled.",
+  request_not_found: "This payment request could not be found.",
+  unauthorized_request: "You cannot act on this payment request.",
+  request_expired: "This payment request has expired.",
+  request_not_pending: "This payment request has already been answered.",
+  invalid_bill_split: "Check the bill's title, participants and shares.",
+  bill_split_not_found: "This bill could not be found.",
+  transaction_not_found: "This transaction could not be found.",
+  unauthorized_reversal: "Only the person who received a payment can refund it.",
+  transaction_not_reversible: "This transaction cannot be refunded.",
+  already_reversed: "This payment has already been fully refunded.",
+  refund_exceeds_remaining: "The refund is more than what is left of the payment.",
+  ledger_bypass: "Balances can only change through recorded payments.",
+  admin_only: "Only admins can do this.",
+  currency_mismatch: "The recipient does not have a wallet in this currency.",
+  offline_currency_unsupported: "Offline payments can only be made in rupees.",
+  fx_rate_unavailable: "There is no exchange rate between these currencies yet.",
+  fx_partial_refund: "Payments that were converted between currencies can only be refunded in full.",
+  unsupported_currency: "This currency is not supported.",
+  invalid_pin: "PIN must be 4 digits.",
+  incorrect_pin: "Incorrect PIN.",
+  pin_already_set: "A PIN has already been set for this account.",
+  pin_locked: "Too many incorrect PIN attempts. Try again once the lock ends.",
+  pin_throttled: "Wait a moment before trying your PIN again.",
+  otp_rate_limited: "Too many codes requested. Please wait before asking for another.",
+  otp_invalid: "The code you entered is incorrect.",
+  otp_expired: "This code has expired. Request a new one.",
+  otp_attempts_exceeded: "Too many incorrect codes. Request a new one.",
+  phone_taken: "This phone number is already registered. Please log in instead.",
+  phone_not_verified: "Verify your phone number before creating an account.",
+};
+
+// Business rejections that will fail the same way however often they are retried
+const PERMANENT_ERRORS: TransactionErrorCode[] = [
+  "unauthorized_sender",
+  "unsigned_voucher",
+  "invalid_amount",
+  "self_transfer",
+  "receiver_not_found",
+  "receiver_inactive",
+  "sender_wallet_not_found",
+  "offline_limit_exceeded",
+  "insufficient_balance",
+  "malformed_voucher",
+  "invalid_signature",
+  "voucher_expired",
+  "offline_currency_unsupported",
+];
+
+export class TransactionError extends Error {
+  code: TransactionErrorCode | null;
+
+  constructor(message: string, code: TransactionErrorCode | null = null) {
+    super(message);
+    this.name = "TransactionError";
+    this.code = code;
+  }
+}
+
+function isTransactionErrorCode(value: unknown): value is TransactionErrorCode {
+  return typeof value === "string" && value in ERROR_MESSAGES;
+}
+
+// Accepts a TransactionError, a PostgREST error (reason in `hint`) or an edge function body (`code`)
+export function getTransactionErrorCode(error: unknown): TransactionErrorCode | null {
+  if (!error || typeof error !== "object") return null;
+  const { code, hint } = error as { code?: unknown; hint?: unknown };
+  if (isTransactionErrorCode(hint)) return hint;
+  if (isTransactionErrorCode(code)) return code;
+  return null;
+}
+
+export function getTransactionErrorMessage(error: unknown): string {
+  const code = getTransactionErrorCode(error);
+  if (code) return ERROR_MESSAGES[code];
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : "Please try again";
+}
+
+export function isPermanentTransactionError(error: unknown): boolean {
+  const code = getTransactionErrorCode(error);
+  return code !== null && PERMANENT_ERRORS.includes(code);
+}
@@ -0,0 +1,103 @@
+// WebCrypto helpers for signing offline payment vouchers.
+// The payload layout must stay in sync with supabase/functions/_shared/voucher.ts
+
+const SIGNING_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const;
+
+export const VOUCHER_VERSION = 1;
+
+export interface VoucherFields {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  // Rupees: the signed payload predates Money and the server verifies it as is
+  amount: number;
+  timestamp: number;
+  deviceId: string;
+  description?: string;
+  // Only on vouchers queued before signing existed and signed when they were synced
+  signedAt?: number;
+}
+
+// A voucher as submitted to the server, carrying its hash and device signature
+export interface SignedVoucher extends VoucherFields {
+  hash: string;
+  signature: string;
+}
+
+// Canonical, order-stable serialization of the fields covered by the signature.
+// signedAt is appended only when present, so regular vouchers keep their layout.
+export function serializeVoucher(voucher: VoucherFields): string {
+  return JSON.stringify([
+    VOUCHER_VERSION,
+    voucher.id,
+    voucher.senderId,
+    voucher.receiverId,
+    voucher.amount,
+    voucher.timestamp,
+    voucher.deviceId,
+    voucher.description ?? null,
+    ...(voucher.signedAt === undefined ? [] : [voucher.signedAt]),
+  ]);
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  const binary = String.fromCharCode(...Array.from(new Uint8Array(bytes)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function sha256Hex(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Private key is non-extractable so it can only be used for signing on this device
+export async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ["sign", "verify"]);
+}
+
+export async function exportPublicKey(publicKey: CryptoKey): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey("jwk", publicKey);
+}
+
+export async function signPayload(privateKey: CryptoKey, payload: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    privateKey,
+    new TextEncoder().encode(payload)
+  );
+  return toBase64Url(signature);
+}
+
+export async function verifyPayload(
+  publicKeyJwk: JsonWebKey,
+  payload: string,
+  signature: string
+): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey("jwk", publicKeyJwk, SIGNING_ALGORITHM, false, [
+      "verify",
+    ]);
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
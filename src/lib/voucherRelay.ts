@@ -0,0 +1,128 @@
+import { ensureTransactionSigned, getPendingTransactions } from "./offlineDb";
+import { submitVoucherBatch, toSignedVoucher, VoucherResult } from "./syncEngine";
+import type { SignedVoucher } from "./voucherCrypto";
+
+// Store-and-forward relay: a sender without connectivity shows their signed pending
+// vouchers as a looping sequence of QR frames, and any online user scans them and
+// submits them on the sender's behalf. The server checks each voucher against the
+// sender's device key, so the relay cannot alter or forge payments.
+
+const RELAY_PREFIX = "offlinepay-relay";
+const RELAY_VERSION = 1;
+
+// Keeps the frame loop short enough to scan in well under a minute
+export const MAX_RELAY_VOUCHERS = 20;
+
+// Characters of bundle data per frame, small enough for low-end cameras to read
+const FRAME_DATA_SIZE = 300;
+
+// Frame layout: offlinepay-relay:<bundle id>:<index>/<total>:<data>
+const FRAME_PATTERN = /^offlinepay-relay:([A-Za-z0-9]+):(\d+)\/(\d+):(.*)$/s;
+
+interface RelayBundle {
+  v: number;
+  vouchers: SignedVoucher[];
+}
+
+export class RelayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelayError";
+  }
+}
+
+export function isRelayFrame(text: string): boolean {
+  return text.startsWith(`${RELAY_PREFIX}:`);
+}
+
+// The oldest pending vouchers the user can hand to a relay, signed if they predate signing
+export async function getRelayableVouchers(userId: string): Promise<SignedVoucher[]> {
+  const pending = (await getPendingTransactions(userId))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, MAX_RELAY_VOUCHERS);
+  const signed = await Promise.all(pending.map(ensureTransactionSigned));
+  return signed.map(toSignedVoucher);
+}
+
+export function encodeRelayFrames(vouchers: SignedVoucher[]): string[] {
+  const bundle: RelayBundle = { v: RELAY_VERSION, vouchers };
+  const data = JSON.stringify(bundle);
+  const bundleId = crypto.randomUUID().replace(/-/g, "").slice(0, 8);
+  const total = Math.max(1, Math.ceil(data.length / FRAME_DATA_SIZE));
+
+  return Array.from({ length: total }, (_, i) => {
+    const chunk = data.slice(i * FRAME_DATA_SIZE, (i + 1) * FRAME_DATA_SIZE);
+    return `${RELAY_PREFIX}:${bundleId}:${i + 1}/${total}:${chunk}`;
+  });
+}
+
+export interface RelayScanProgress {
+  received: number;
+  total: number;
+}
+
+// Collects frames in any order; scanning frames from a different bundle starts over
+export class RelayFrameReader {
+  private bundleId: string | null = null;
+  private chunks: (string | undefined)[] = [];
+
+  addFrame(text: string): RelayScanProgress {
+    const match = FRAME_PATTERN.exec(text);
+    if (!match) {
+      throw new RelayError("This QR code is not a relay code");
+    }
+
+    const [, bundleId, indexText, totalText, chunk] = match;
+    const index = Number(indexText);
+    const total = Number(totalText);
+    if (total < 1 || index < 1 || index > total) {
+      throw new RelayError("This relay code is damaged");
+    }
+
+    if (bundleId !== this.bundleId || total !== this.chunks.length) {
+      this.bundleId = bundleId;
+      this.chunks = new Array(total).fill(undefined);
+    }
+    this.chunks[index - 1] = chunk;
+
+    return this.getProgress();
+  }
+
+  getProgress(): RelayScanProgress {
+    return {
+      received: this.chunks.filter((chunk) => chunk !== undefined).length,
+      total: this.chunks.length,
+    };
+  }
+
+  isComplete(): boolean {
+    return this.chunks.length > 0 && this.chunks.every((chunk) => chunk !== undefined);
+  }
+
+  getVouchers(): SignedVoucher[] {
+    if (!this.isComplete()) {
+      throw new RelayError("Keep scanning until every frame has been read");
+    }
+
+    let bundle: RelayBundle;
+    try {
+      bundle = JSON.parse(this.chunks.join(""));
+    } catch {
+      throw new RelayError("The relay code could not be read");
+    }
+    if (bundle?.v !== RELAY_VERSION || !Array.isArray(bundle.vouchers)) {
+      throw new RelayError("This relay code is from an unsupported version");
+    }
+    return bundle.vouchers;
+  }
+
+  reset() {
+    this.bundleId = null;
+    this.chunks = [];
+  }
+}
+
+// Submit someone else's vouchers; the server only accepts ones their signer produced
+export function relayVouchers(vouchers: SignedVoucher[]): Promise<VoucherResult[]> {
+  return submitVoucherBatch(vouchers, { relay: true });
+}
@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
@@ -14,9 +15,27 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ThemeToggle } from "@/components/ThemeToggle";
-import { signOut } from "@/lib/auth";
+import { Transaction, WalletDrift, signOut, toTransaction, toWallet, toWalletDrift } from "@/lib/auth";
 import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import { Currency, FxRate, getActiveCurrencies, getFxRates } from "@/lib/currencies";
+import {
+  HOME_CURRENCY,
+  Money,
+  ZERO_MONEY,
+  formatMoney,
+  paise,
+  sumMoney,
+  toDecimal,
+} from "@/lib/money";
 import {
   Shield,
   Users,
@@ -29,6 +48,8 @@ import {
   CheckCircle2,
   XCircle,
   Clock,
+  Scale,
+  Globe,
 } from "lucide-react";
 import {
   LineChart,
@@ -43,25 +64,12 @@ import { format, subDays } from "date-fns";
 
 interface Stats {
   totalUsers: number;
-  totalWalletBalance: number;
+  totalWalletBalance: Money;
   totalTransactions: number;
   pendingTransactions: number;
   flaggedTransactions: number;
 }
 
-interface Transaction {
-  id: string;
-  sender_id: string | null;
-  receiver_id: string | null;
-  amount: number;
-  status: string;
-  description: string | null;
-  is_offline: boolean | null;
-  fraud_flagged: boolean | null;
-  fraud_reason: string | null;
-  created_at: string;
-}
-
 interface User {
   id: string;
   user_id: string;
@@ -88,6 +96,12 @@ export default function AdminDashboard() {
   const [chartData, setChartData] = useState<DailyChartPoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("overview");
+  const [drifts, setDrifts] = useState<WalletDrift[] | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [rateForm, setRateForm] = useState({ base: "", quote: "", rate: "" });
+  const [isSavingRate, setIsSavingRate] = useState(false);
 
   useEffect(() => {
     if (!authLoading) {
@@ -105,13 +119,14 @@ export default function AdminDashboard() {
       // Fetch stats
       const [usersRes, walletsRes, txRes, pendingRes, flaggedRes] = await Promise.all([
         supabase.from("profiles").select("id", { count: "exact", head: true }),
-        supabase.from("wallets").select("balance"),
+        // Only the home currency is totalled; other currencies cannot be added to it
+        supabase.from("wallets").select("*").eq("currency", HOME_CURRENCY),
         supabase.from("transactions").select("id", { count: "exact", head: true }),
         supabase.from("transactions").select("id", { count: "exact", head: true }).eq("status", "pending"),
         supabase.from("transactions").select("id", { count: "exact", head: true }).eq("fraud_flagged", true),
       ]);
 
-      const totalBalance = walletsRes.data?.reduce((sum, w) => sum + Number(w.balance), 0) || 0;
+      const totalBalance = sumMoney((walletsRes.data || []).map((w) => toWallet(w).balance));
 
       setStats({
         totalUsers: usersRes.count || 0,
@@ -127,7 +142,7 @@ export default function AdminDashboard() {
         .select("*")
         .order("created_at", { ascending: false })
         .limit(50);
-      setTransactions(txData || []);
+      setTransactions((txData || []).map(toTransaction));
 
       // Fetch users
       const { data: userData } = await supabase
@@ -148,21 +163,28 @@ export default function AdminDashboard() {
 
       const { data: dailyTx } = await supabase
         .from("transactions")
-        .select("created_at, amount")
+        .select("*")
+        .eq("currency", HOME_CURRENCY)
         .gte("created_at", subDays(new Date(), 7).toISOString());
 
+      const recentTransactions = (dailyTx || []).map(toTransaction);
       const dailyVolume = last7Days.map((day) => {
-        const dayTransactions = (dailyTx || []).filter(
+        const dayTransactions = recentTransactions.filter(
           (tx) => format(new Date(tx.created_at), "yyyy-MM-dd") === day.dateKey
         );
         return {
           date: day.date,
-          volume: dayTransactions.reduce((sum, tx) => sum + Number(tx.amount), 0),
+          // Rupees, for the chart axis
+          volume: toDecimal(sumMoney(dayTransactions.map((tx) => tx.amount))),
           count: dayTransactions.length,
         };
       });
 
       setChartData(dailyVolume);
+
+      const [currencyList, rates] = await Promise.all([getActiveCurrencies(), getFxRates()]);
+      setCurrencies(currencyList);
+      setFxRates(rates);
     } catch (error) {
       console.error("Error fetching admin data:", error);
     } finally {
@@ -170,9 +192,27 @@ export default function AdminDashboard() {
     }
   };
 
+  const runReconciliation = async () => {
+    setIsReconciling(true);
+    try {
+      const { data, error } = await supabase.rpc("reconcile_wallet_balances");
+      if (error) throw error;
+      setDrifts((data || []).map(toWalletDrift));
+    } catch (error) {
+      toast({
+        title: "Error reconciling balances",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
   useEffect(() => {
     if (user && isAdmin) {
       fetchData();
+      runReconciliation();
     }
   }, [user, isAdmin]);
 
@@ -189,16 +229,67 @@ export default function AdminDashboard() {
     }
   };
 
-  const handleReject = async (txId: string) => {
+  const handleReject = async (tx: Transaction) => {
     try {
-      await supabase
-        .from("transactions")
-        .update({ status: "cancelled", fraud_reason: "Rejected by admin" })
-        .eq("id", txId);
-      toast({ title: "Transaction rejected" });
+      // A completed transaction has already moved money, so rejecting it sends the money back
+      const { error } =
+        tx.status === "completed"
+          ? await supabase.rpc("reverse_transaction", {
+              _transaction_id: tx.id,
+              _reason: "Rejected by admin",
+            })
+          : await supabase
+              .from("transactions")
+              .update({ status: "cancelled", fraud_reason: "Rejected by admin" })
+              .eq("id", tx.id);
+      if (error) throw error;
+
+      toast({
+        title: "Transaction rejected",
+        description: tx.status === "completed" ? "The funds were returned to the sender" : undefined,
+      });
       fetchData();
     } catch (error) {
-      toast({ title: "Error rejecting transaction", variant: "destructive" });
+      toast({
+        title: "Error rejecting transaction",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveRate = async () => {
+    const rate = Number(rateForm.rate);
+    if (!rateForm.base || !rateForm.quote || rateForm.base === rateForm.quote) {
+      toast({ title: "Choose two different currencies", variant: "destructive" });
+      return;
+    }
+    if (!(rate > 0)) {
+      toast({ title: "Enter a rate greater than zero", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingRate(true);
+    try {
+      const { error } = await supabase.from("fx_rates").upsert({
+        base_currency: rateForm.base,
+        quote_currency: rateForm.quote,
+        rate,
+        updated_by: user?.id,
+      });
+      if (error) throw error;
+
+      toast({ title: `1 ${rateForm.base} = ${rate} ${rateForm.quote}` });
+      setRateForm({ base: "", quote: "", rate: "" });
+      setFxRates(await getFxRates());
+    } catch (error) {
+      toast({
+        title: "Error saving rate",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingRate(false);
     }
   };
 
@@ -243,6 +334,15 @@ export default function AdminDashboard() {
             <TabsTrigger value="transactions">Transactions</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="pending">Pending Syncs</TabsTrigger>
+            <TabsTrigger value="ledger">
+              Ledger
+              {drifts && drifts.length > 0 && (
+                <Badge variant="destructive" className="ml-2">
+                  {drifts.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="fx">FX Rates</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -267,7 +367,7 @@ export default function AdminDashboard() {
                     <Wallet className="h-8 w-8 text-success" />
                     <div>
                       <p className="text-2xl font-bold">
-                        ₹{(stats?.totalWalletBalance || 0).toLocaleString("en-IN")}
+                        {formatMoney(stats?.totalWalletBalance ?? ZERO_MONEY)}
                       </p>
                       <p className="text-sm text-muted-foreground">Total Balance</p>
                     </div>
@@ -368,7 +468,7 @@ export default function AdminDashboard() {
                         <TableCell className="font-mono text-xs">
                           {tx.id.slice(0, 8)}...
                         </TableCell>
-                        <TableCell>₹{Number(tx.amount).toLocaleString("en-IN")}</TableCell>
+                        <TableCell>{formatMoney(tx.amount, tx.currency)}</TableCell>
                         <TableCell>
                           <Badge
                             variant={
@@ -388,11 +488,20 @@ export default function AdminDashboard() {
                           )}
                         </TableCell>
                         <TableCell>
-                          {tx.is_offline ? (
+                          {tx.original_transaction_id ? (
+                            <Badge variant="outline">
+                              Reversal of {tx.original_transaction_id.slice(0, 8)}
+                            </Badge>
+                          ) : tx.is_offline ? (
                             <Badge variant="outline">Offline</Badge>
                           ) : (
                             <Badge variant="outline">Online</Badge>
                           )}
+                          {tx.refunded_amount > 0 && (
+                            <Badge variant="secondary" className="ml-1">
+                              {tx.refunded_amount >= tx.amount ? "Reversed" : "Part refunded"}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="text-sm text-muted-foreground">
                           {format(new Date(tx.created_at), "MMM d, h:mm a")}
@@ -469,7 +578,7 @@ export default function AdminDashboard() {
                           <TableCell className="font-mono text-xs">
                             {tx.id.slice(0, 8)}...
                           </TableCell>
-                          <TableCell>₹{Number(tx.amount).toLocaleString("en-IN")}</TableCell>
+                          <TableCell>{formatMoney(tx.amount, tx.currency)}</TableCell>
                           <TableCell>
                             <Badge
                               variant={tx.fraud_flagged ? "destructive" : "secondary"}
@@ -493,7 +602,7 @@ export default function AdminDashboard() {
                               <Button
                                 size="sm"
                                 variant="destructive"
-                                onClick={() => handleReject(tx.id)}
+                                onClick={() => handleReject(tx)}
                               >
                                 <XCircle className="h-4 w-4 mr-1" />
                                 Reject
@@ -515,6 +624,156 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Ledger Tab */}
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Ledger Reconciliation</CardTitle>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={runReconciliation}
+                  disabled={isReconciling}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isReconciling ? "animate-spin" : ""}`} />
+                  Run again
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {drifts === null ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : drifts.length === 0 ? (
+                  <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+                    <Scale className="h-8 w-8" />
+                    <p>All wallets reconcile with the ledger</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Wallet</TableHead>
+                        <TableHead>Ledger</TableHead>
+                        <TableHead>Drift</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {drifts.map((d) => (
+                        <TableRow key={`${d.user_id}-${d.currency}-${d.account}`}>
+                          <TableCell>
+                            <div>{d.display_name || "—"}</div>
+                            <div className="font-mono text-xs text-muted-foreground">
+                              {d.payment_id || d.user_id.slice(0, 8)}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {d.account === "offline_reserve" ? "Offline purse" : "Balance"} ·{" "}
+                            {d.currency}
+                          </TableCell>
+                          <TableCell>{formatMoney(d.wallet_amount, d.currency)}</TableCell>
+                          <TableCell>{formatMoney(d.ledger_amount, d.currency)}</TableCell>
+                          <TableCell className="font-medium text-destructive">
+                            {d.drift > 0 ? "+" : "-"}
+                            {formatMoney(paise(Math.abs(d.drift)), d.currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          {/* FX Rates Tab */}
+          <TabsContent value="fx">
+            <Card>
+              <CardHeader>
+                <CardTitle>Exchange Rates</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  Payments between currencies are refused unless a rate from the sender's
+                  currency to the receiver's is listed here.
+                </p>
+                <div className="flex flex-wrap items-end gap-2">
+                  <Select
+                    value={rateForm.base}
+                    onValueChange={(base) => setRateForm((form) => ({ ...form, base }))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue placeholder="From" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {currencies.map((currency) => (
+                        <SelectItem key={currency.code} value={currency.code}>
+                          {currency.code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={rateForm.quote}
+                    onValueChange={(quote) => setRateForm((form) => ({ ...form, quote }))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue placeholder="To" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {currencies.map((currency) => (
+                        <SelectItem key={currency.code} value={currency.code}>
+                          {currency.code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    value={rateForm.rate}
+                    onChange={(e) => setRateForm((form) => ({ ...form, rate: e.target.value }))}
+                    placeholder="Rate"
+                    className="w-40"
+                  />
+                  <Button onClick={handleSaveRate} disabled={isSavingRate}>
+                    {isSavingRate && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save Rate
+                  </Button>
+                </div>
+                {fxRates.length === 0 ? (
+                  <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+                    <Globe className="h-8 w-8" />
+                    <p>No exchange rates yet, so payments stay within one currency</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>From</TableHead>
+                        <TableHead>To</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Updated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fxRates.map((rate) => (
+                        <TableRow key={`${rate.base_currency}-${rate.quote_currency}`}>
+                          <TableCell>{rate.base_currency}</TableCell>
+                          <TableCell>{rate.quote_currency}</TableCell>
+                          <TableCell className="font-mono">{rate.rate}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {format(new Date(rate.updated_at), "MMM d, h:mm a")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </main>
     </div>
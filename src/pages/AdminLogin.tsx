@@ -6,13 +6,16 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { toast } from "@/hooks/use-toast";
 import { Shield, Loader2, ArrowLeft } from "lucide-react";
-import { hashPin } from "@/lib/auth";
+import { signInWithPin } from "@/lib/auth";
+import { PinAttemptNotice } from "@/components/PinAttemptNotice";
+import { usePinAttempts } from "@/hooks/usePinAttempts";
 
 export default function AdminLogin() {
   const navigate = useNavigate();
   const [phone, setPhone] = useState("");
   const [pin, setPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const pinAttempts = usePinAttempts();
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,16 +32,9 @@ export default function AdminLogin() {
     setIsLoading(true);
 
     try {
-      // Use the same hash function as regular login
-      const hashedPin = hashPin(pin);
-
-      // Login with Supabase
-      const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-        email: `${phone}@offlinepay.app`,
-        password: hashedPin,
-      });
-
-      if (authError) throw authError;
+      // Same credentials as regular login
+      const authData = await signInWithPin(phone, pin);
+      pinAttempts.reset();
 
       // Check if user has admin role
       const { data: roleData, error: roleError } = await supabase
@@ -67,6 +63,7 @@ export default function AdminLogin() {
       navigate("/admin");
     } catch (error: unknown) {
       console.error("Admin login error:", error);
+      pinAttempts.recordFailure(error);
       const message =
         error instanceof Error ? error.message || "Invalid credentials" : "Invalid credentials";
       toast({
@@ -124,7 +121,9 @@ export default function AdminLogin() {
               />
             </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
+            <PinAttemptNotice attempts={pinAttempts} />
+
+            <Button type="submit" className="w-full" disabled={isLoading || pinAttempts.mustWait}>
               {isLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin mr-2" />
               ) : (
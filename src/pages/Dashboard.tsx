@@ -2,11 +2,15 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useNetworkStatus } from "@/hooks/useNetworkStatus";
 import { useSyncEngine } from "@/hooks/useSyncEngine";
+import { useLedgerBalance } from "@/hooks/useLedgerBalance";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { OfflinePurseCard } from "@/components/OfflinePurseCard";
+import { CurrencyWalletsCard } from "@/components/CurrencyWalletsCard";
 import { signOut } from "@/lib/auth";
+import { ZERO_MONEY, addMoney, formatMoney, subtractMoney } from "@/lib/money";
 import { toast } from "@/hooks/use-toast";
 import {
   Wallet,
@@ -19,7 +23,7 @@ import {
   LogOut,
   Loader2,
   ArrowDownLeft,
-  ScanLine,
+  HandCoins,
   RefreshCw,
 } from "lucide-react";
 import { useEffect } from "react";
@@ -29,6 +33,7 @@ export default function Dashboard() {
   const { user, profile, wallet, isLoading } = useAuth();
   const { isOnline } = useNetworkStatus();
   const { isSyncing, pendingCount, triggerSync } = useSyncEngine();
+  const { ledger } = useLedgerBalance();
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -39,7 +44,14 @@ export default function Dashboard() {
   const handleLogout = async () => {
     try {
       await signOut();
-      toast({ title: "Logged out successfully" });
+      // Queued vouchers stay on this device and sync the next time this user logs in
+      toast({
+        title: "Logged out successfully",
+        description:
+          pendingCount > 0
+            ? `${pendingCount} offline payment${pendingCount > 1 ? "s" : ""} will sync when you log in again.`
+            : undefined,
+      });
       navigate("/");
     } catch (error) {
       toast({ title: "Error logging out", variant: "destructive" });
@@ -54,9 +66,15 @@ export default function Dashboard() {
     );
   }
 
-  const offlineRemaining = wallet
-    ? wallet.offline_daily_limit - wallet.offline_used_today
-    : 0;
+  // Prefer the local ledger, which already accounts for payments waiting to sync
+  const availableBalance = ledger
+    ? ledger.availableBalance
+    : addMoney(wallet?.balance ?? ZERO_MONEY, wallet?.offline_reserve ?? ZERO_MONEY);
+  const offlineRemaining = ledger
+    ? ledger.offlineRemainingToday
+    : wallet
+      ? subtractMoney(wallet.offline_daily_limit, wallet.offline_used_today)
+      : ZERO_MONEY;
 
   return (
     <div className="min-h-screen bg-background flex flex-col pb-20">
@@ -88,8 +106,13 @@ export default function Dashboard() {
           <CardContent className="p-6">
             <p className="text-white/80 text-sm mb-1">Available Balance</p>
             <h2 className="text-4xl font-bold mb-4">
-              ₹{wallet?.balance?.toLocaleString("en-IN") || "0.00"}
+              {formatMoney(availableBalance)}
             </h2>
+            {ledger && ledger.queuedDebits > 0 && (
+              <p className="text-white/80 text-xs -mt-3 mb-4">
+                {formatMoney(ledger.queuedDebits)} in offline payments waiting to sync
+              </p>
+            )}
             <div className="flex justify-between items-end">
               <div>
                 <p className="text-white/60 text-xs">Payment ID</p>
@@ -105,6 +128,12 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        {/* Offline Purse */}
+        <OfflinePurseCard />
+
+        {/* Wallets in other currencies */}
+        <CurrencyWalletsCard />
+
         {/* Offline Limit Warning */}
         {!isOnline && (
           <Card className="border-warning bg-warning/10">
@@ -113,7 +142,7 @@ export default function Dashboard() {
               <div>
                 <p className="font-medium text-sm">Offline Mode Active</p>
                 <p className="text-xs text-muted-foreground">
-                  Daily limit remaining: ₹{offlineRemaining.toLocaleString("en-IN")}
+                  Daily limit remaining: {formatMoney(offlineRemaining)}
                 </p>
               </div>
             </CardContent>
@@ -131,13 +160,24 @@ export default function Dashboard() {
                     {pendingCount} pending transaction{pendingCount > 1 ? "s" : ""}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    {isSyncing ? "Syncing..." : "Tap to sync now"}
+                    {isSyncing
+                      ? "Syncing..."
+                      : isOnline
+                        ? "Tap to sync now"
+                        : "Or let a friend with internet relay them"}
                   </p>
                 </div>
               </div>
-              <Button size="sm" variant="outline" onClick={triggerSync} disabled={isSyncing}>
-                Sync
-              </Button>
+              <div className="flex gap-2">
+                {!isOnline && (
+                  <Button size="sm" variant="outline" onClick={() => navigate("/relay")}>
+                    Relay
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={triggerSync} disabled={isSyncing}>
+                  Sync
+                </Button>
+              </div>
             </CardContent>
           </Card>
         )}
@@ -147,7 +187,7 @@ export default function Dashboard() {
           {[
             { icon: Send, label: "Send", color: "bg-primary", path: "/send" },
             { icon: ArrowDownLeft, label: "Receive", color: "bg-success", path: "/receive" },
-            { icon: ScanLine, label: "Scan", color: "bg-accent", path: "/send" },
+            { icon: HandCoins, label: "Request", color: "bg-accent", path: "/requests" },
             { icon: History, label: "History", color: "bg-secondary", path: "/history" },
           ].map(({ icon: Icon, label, color, path }) => (
             <button
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, Phone, ArrowLeft, Wallet } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { resetPin, sendOTP } from "@/lib/auth";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { ResendOtpButton } from "@/components/ResendOtpButton";
+
+type Step = "phone" | "reset";
+
+export default function ForgotPin() {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<Step>("phone");
+  const [phone, setPhone] = useState("");
+  const [otp, setOtp] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [resendAt, setResendAt] = useState<Date | null>(null);
+
+  const handlePhoneSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (phone.length < 10) {
+      toast({
+        title: "Invalid Phone",
+        description: "Please enter a valid 10-digit phone number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setResendAt(await sendOTP(phone, "reset_pin"));
+      setOtp("");
+      toast({
+        title: "OTP Sent",
+        description: `If +91 ${phone} has an account, a code is on its way`,
+      });
+      setStep("reset");
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't send OTP",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (otp.length !== 6) {
+      toast({
+        title: "Invalid OTP",
+        description: "Please enter the 6-digit OTP",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPin.length !== 4) {
+      toast({
+        title: "Invalid PIN",
+        description: "Please enter a 4-digit PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPin !== confirmPin) {
+      toast({
+        title: "PIN Mismatch",
+        description: "PINs do not match. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const offlineDataLocked = await resetPin(phone, otp, newPin);
+      toast({
+        title: "PIN reset",
+        description: offlineDataLocked
+          ? "Log in with your new PIN. Offline payments on this device could not be moved to it."
+          : "Log in with your new PIN",
+      });
+      navigate("/login");
+    } catch (error: unknown) {
+      setOtp("");
+      toast({
+        title: "Couldn't reset PIN",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const goBack = () => {
+    if (step === "reset") setStep("phone");
+    else navigate("/login");
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center justify-between p-4 safe-area-top">
+        <Button variant="ghost" size="icon" onClick={goBack}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex items-center gap-2">
+          <Wallet className="h-6 w-6 text-primary" />
+          <span className="font-bold text-lg">OfflinePay</span>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      {/* Content */}
+      <div className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md animate-scale-in">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">
+              {step === "phone" && "Forgot PIN"}
+              {step === "reset" && "Set a New PIN"}
+            </CardTitle>
+            <CardDescription>
+              {step === "phone" && "We'll text a code to your registered number"}
+              {step === "reset" && `Enter the OTP sent to +91 ${phone} and choose a new PIN`}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {/* Phone Step */}
+            {step === "phone" && (
+              <form onSubmit={handlePhoneSubmit} className="space-y-6">
+                <div className="relative">
+                  <Phone className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="tel"
+                    placeholder="Enter 10-digit mobile number"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value.replace(/\D/g, "").slice(0, 10))}
+                    className="pl-10 h-12 text-lg"
+                    autoFocus
+                  />
+                </div>
+                <Button type="submit" className="w-full h-12 text-lg" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : "Get OTP"}
+                </Button>
+              </form>
+            )}
+
+            {/* Code and new PIN Step */}
+            {step === "reset" && (
+              <div className="space-y-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">OTP</label>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={otp} onChange={(value) => setOtp(value)}>
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                        <InputOTPSlot index={4} />
+                        <InputOTPSlot index={5} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">New PIN</label>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={4} value={newPin} onChange={(value) => setNewPin(value)}>
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Confirm New PIN</label>
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={4}
+                      value={confirmPin}
+                      onChange={(value) => setConfirmPin(value)}
+                    >
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </div>
+                <p className="text-center text-xs text-muted-foreground">
+                  Offline payments saved on this device move to your new PIN. If this device
+                  never backed up its offline key, you can clear them after logging in.
+                </p>
+                <Button onClick={handleReset} className="w-full h-12 text-lg" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : "Reset PIN"}
+                </Button>
+                <ResendOtpButton
+                  resendAt={resendAt}
+                  onResend={() => handlePhoneSubmit()}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
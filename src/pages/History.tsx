@@ -4,10 +4,33 @@ import { useAuth } from "@/hooks/useAuth";
 import { useNetworkStatus } from "@/hooks/useNetworkStatus";
 import { supabase } from "@/integrations/supabase/client";
 import { getAllOfflineTransactions, PendingTransaction } from "@/lib/offlineDb";
+import { Transaction, toTransaction } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import {
+  Money,
+  MoneyError,
+  currencySymbol,
+  formatMoney,
+  formatMoneyInput,
+  parsePaymentAmount,
+  subtractMoney,
+  toDecimal,
+} from "@/lib/money";
 import {
   ArrowLeft,
   ArrowUpRight,
@@ -17,26 +40,15 @@ import {
   XCircle,
   Loader2,
   RefreshCw,
+  Undo2,
   Wifi,
   WifiOff,
 } from "lucide-react";
 import { format } from "date-fns";
 
-interface Transaction {
-  id: string;
-  sender_id: string | null;
-  receiver_id: string | null;
-  amount: number;
-  status: string;
-  description: string | null;
-  is_offline: boolean | null;
-  created_at: string;
-  synced_at: string | null;
-}
-
 export default function History() {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, refreshWallet } = useAuth();
   const { isOnline } = useNetworkStatus();
 
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -44,6 +56,11 @@ export default function History() {
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<"all" | "pending" | "completed">("all");
 
+  const [refundTarget, setRefundTarget] = useState<Transaction | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [isRefunding, setIsRefunding] = useState(false);
+
   const fetchTransactions = useCallback(async () => {
     if (!user) return;
 
@@ -58,10 +75,10 @@ export default function History() {
         .limit(50);
 
       if (error) throw error;
-      setTransactions(data || []);
+      setTransactions((data || []).map(toTransaction));
 
       // Fetch pending offline transactions
-      const offline = await getAllOfflineTransactions();
+      const offline = await getAllOfflineTransactions(user.id);
       setPendingTx(offline);
     } catch (error) {
       console.error("Error fetching transactions:", error);
@@ -74,6 +91,64 @@ export default function History() {
     fetchTransactions();
   }, [fetchTransactions]);
 
+  const openRefund = (tx: Transaction) => {
+    setRefundTarget(tx);
+    setRefundAmount(formatMoneyInput(subtractMoney(tx.amount, tx.refunded_amount)));
+    setRefundReason("");
+  };
+
+  const handleRefund = async () => {
+    if (!refundTarget) return;
+
+    // Converted payments are refunded in full at their original rate
+    const isConverted = !!refundTarget.received_currency;
+    let numAmount: Money;
+    try {
+      numAmount = isConverted
+        ? subtractMoney(refundTarget.amount, refundTarget.refunded_amount)
+        : parsePaymentAmount(refundAmount, refundTarget.currency);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
+      return;
+    }
+
+    setIsRefunding(true);
+    try {
+      const { error } = await supabase.rpc("reverse_transaction", {
+        _transaction_id: refundTarget.id,
+        _amount: toDecimal(numAmount),
+        _reason: refundReason.trim() || null,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Refund sent",
+        description: `${formatMoney(numAmount, refundTarget.currency)} returned to the sender`,
+      });
+      setRefundTarget(null);
+      await Promise.all([fetchTransactions(), refreshWallet()]);
+    } catch (error) {
+      console.error("Refund error:", error);
+      toast({
+        title: "Refund failed",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const transactionsById = new Map(transactions.map((tx) => [tx.id, tx]));
+
+  // How a refund or reversal refers back to the payment it undoes
+  const describeOriginal = (originalId: string) => {
+    const original = transactionsById.get(originalId);
+    return original
+      ? `For ${formatMoney(original.amount, original.currency)} on ${format(new Date(original.created_at), "MMM d")}`
+      : "For an earlier payment";
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "completed":
@@ -115,8 +190,9 @@ export default function History() {
       id: tx.id,
       type: "offline" as const,
       amount: tx.amount,
+      currency: tx.currency,
       status: tx.status,
-      description: tx.description,
+      description: tx.status === "failed" && tx.failureReason ? tx.failureReason : tx.description,
       timestamp: tx.timestamp,
       isSent: true,
       receiverId: tx.receiverId,
@@ -124,7 +200,10 @@ export default function History() {
     ...filteredTransactions.map((tx) => ({
       id: tx.id,
       type: "synced" as const,
-      amount: tx.amount,
+      // Receivers of a converted payment see what arrived in their own currency
+      ...(tx.received_currency && tx.sender_id !== user?.id
+        ? { amount: tx.received_amount!, currency: tx.received_currency }
+        : { amount: tx.amount, currency: tx.currency }),
       status: tx.status,
       description: tx.description,
       timestamp: new Date(tx.created_at).getTime(),
@@ -132,6 +211,18 @@ export default function History() {
       receiverId: tx.receiver_id,
       senderId: tx.sender_id,
       isOffline: tx.is_offline,
+      isRequestPayment: !!tx.payment_request_id,
+      originalTransactionId: tx.original_transaction_id,
+      // Reversals are sent by the original receiver; anyone else starting one is an admin
+      isAdminReversal: !!tx.original_transaction_id && tx.reversed_by !== tx.sender_id,
+      refundedAmount: tx.refunded_amount,
+      isFullyRefunded: tx.refunded_amount >= tx.amount,
+      canRefund:
+        tx.receiver_id === user?.id &&
+        tx.status === "completed" &&
+        !tx.original_transaction_id &&
+        tx.refunded_amount < tx.amount,
+      transaction: tx,
     })),
   ].sort((a, b) => b.timestamp - a.timestamp);
 
@@ -231,17 +322,48 @@ export default function History() {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <p className="font-medium truncate">
-                            {item.isSent ? "Sent" : "Received"}
+                            {"originalTransactionId" in item && item.originalTransactionId
+                              ? item.isSent
+                                ? "Refund sent"
+                                : "Refund received"
+                              : item.isSent
+                              ? "Sent"
+                              : "Received"}
                           </p>
                           {item.type === "offline" && (
                             <Badge variant="outline" className="text-xs">
                               Offline
                             </Badge>
                           )}
+                          {"isRequestPayment" in item && item.isRequestPayment && (
+                            <Badge variant="outline" className="text-xs">
+                              Request
+                            </Badge>
+                          )}
+                          {"isAdminReversal" in item && item.isAdminReversal && (
+                            <Badge variant="outline" className="text-xs">
+                              Reversal
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm text-muted-foreground truncate">
                           {item.description || "No description"}
                         </p>
+                        {"originalTransactionId" in item && item.originalTransactionId && (
+                          <p className="text-xs text-muted-foreground">
+                            {describeOriginal(item.originalTransactionId)}
+                          </p>
+                        )}
+                        {"refundedAmount" in item && item.refundedAmount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.isFullyRefunded
+                              ? "Fully refunded"
+                              : `${formatMoney(
+                                  item.refundedAmount,
+                                  item.transaction.currency
+                                )} refunded`}
+                          </p>
+                        )}
                         <p className="text-xs text-muted-foreground">
                           {format(new Date(item.timestamp), "MMM d, h:mm a")}
                         </p>
@@ -254,12 +376,24 @@ export default function History() {
                             item.isSent ? "text-destructive" : "text-success"
                           }`}
                         >
-                          {item.isSent ? "-" : "+"}₹
-                          {item.amount.toLocaleString("en-IN")}
+                          {item.isSent ? "-" : "+"}
+                          {formatMoney(item.amount, item.currency)}
                         </p>
                         <div className="mt-1">
                           {getStatusBadge(item.status)}
                         </div>
+                        {"canRefund" in item && item.canRefund && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="mt-1 h-7 px-2"
+                            disabled={!isOnline}
+                            onClick={() => openRefund(item.transaction)}
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Refund
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -269,6 +403,58 @@ export default function History() {
           </TabsContent>
         </Tabs>
       </main>
+
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              {refundTarget &&
+                (refundTarget.received_currency
+                  ? `The full ${formatMoney(
+                      refundTarget.received_amount!,
+                      refundTarget.received_currency
+                    )} will be returned and converted back at the original rate.`
+                  : `You can return up to ${formatMoney(
+                      subtractMoney(refundTarget.amount, refundTarget.refunded_amount),
+                      refundTarget.currency
+                    )} of this payment to the sender.`)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {refundTarget && !refundTarget.received_currency && (
+              <div className="space-y-2">
+                <Label htmlFor="refundAmount">
+                  Amount ({currencySymbol(refundTarget.currency)})
+                </Label>
+                <Input
+                  id="refundAmount"
+                  type="number"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="refundReason">Reason (optional)</Label>
+              <Input
+                id="refundReason"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+                placeholder="Returned item, overpaid..."
+                maxLength={255}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleRefund} disabled={isRefunding || !isOnline}>
+              {isRefunding && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Send Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
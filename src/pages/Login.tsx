@@ -8,12 +8,15 @@ import { Loader2, Phone, Wallet } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { signIn } from "@/lib/auth";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { PinAttemptNotice } from "@/components/PinAttemptNotice";
+import { usePinAttempts } from "@/hooks/usePinAttempts";
 
 export default function Login() {
   const navigate = useNavigate();
   const [phone, setPhone] = useState("");
   const [pin, setPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const pinAttempts = usePinAttempts();
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,6 +56,7 @@ export default function Login() {
     try {
       console.log("Attempting login with phone:", phone);
       await signIn({ phone, pin });
+      pinAttempts.reset();
       toast({
         title: "Welcome back!",
         description: "Login successful",
@@ -64,6 +68,8 @@ export default function Login() {
       navigate("/dashboard");
     } catch (error: unknown) {
       console.error("Login error details:", error);
+      pinAttempts.recordFailure(error);
+      setPin("");
 
       let errorMessage = "Login failed. Please try again.";
       const message = error instanceof Error ? error.message : String(error);
@@ -150,7 +156,13 @@ export default function Login() {
                 </div>
               </div>
 
-              <Button type="submit" className="w-full h-12 text-lg" disabled={isLoading}>
+              <PinAttemptNotice attempts={pinAttempts} />
+
+              <Button
+                type="submit"
+                className="w-full h-12 text-lg"
+                disabled={isLoading || pinAttempts.mustWait}
+              >
                 {isLoading ? (
                   <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                 ) : (
@@ -158,6 +170,17 @@ export default function Login() {
                 )}
               </Button>
 
+              <p className="text-center text-sm">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="p-0 h-auto"
+                  onClick={() => navigate("/forgot-pin")}
+                >
+                  Forgot PIN?
+                </Button>
+              </p>
+
               <p className="text-center text-sm text-muted-foreground">
                 Don't have an account?{" "}
                 <Button variant="link" className="p-0 h-auto" onClick={() => navigate("/signup")}>
@@ -0,0 +1,405 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import {
+  Money,
+  MoneyError,
+  currencySymbol,
+  formatMoney,
+  fromDecimal,
+  parsePaymentAmount,
+  toDecimal,
+} from "@/lib/money";
+import { ArrowLeft, HandCoins, Loader2, RefreshCw, Users, WifiOff } from "lucide-react";
+import { format } from "date-fns";
+
+type PaymentRequestRow = Omit<
+  Database["public"]["Functions"]["get_payment_requests"]["Returns"][number],
+  "amount"
+> & { amount: Money };
+
+const STATUS_VARIANTS: Record<
+  PaymentRequestRow["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  paid: "default",
+  declined: "destructive",
+  cancelled: "outline",
+  expired: "outline",
+};
+
+// How long a new request stays payable
+const REQUEST_LIFETIME_DAYS = 7;
+
+export default function PaymentRequests() {
+  const navigate = useNavigate();
+  const { user, isLoading: isAuthLoading, refreshWallet } = useAuth();
+  const { isOnline } = useNetworkStatus();
+
+  const [requests, setRequests] = useState<PaymentRequestRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [payingRequest, setPayingRequest] = useState<PaymentRequestRow | null>(null);
+
+  const [payerPaymentId, setPayerPaymentId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, isAuthLoading, navigate]);
+
+  const fetchRequests = useCallback(async () => {
+    if (!user || !navigator.onLine) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Settle overdue requests first so both sides see them as expired
+      const { error: expireError } = await supabase.rpc("expire_payment_requests");
+      if (expireError) console.error("Error expiring payment requests:", expireError);
+
+      const { data, error } = await supabase.rpc("get_payment_requests");
+      if (error) throw error;
+      setRequests(
+        (data || []).map((request) => ({ ...request, amount: fromDecimal(request.amount) }))
+      );
+    } catch (error) {
+      console.error("Error fetching payment requests:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests, isOnline]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    const normalizedPaymentId = payerPaymentId.trim().toUpperCase();
+    if (!normalizedPaymentId) {
+      toast({ title: "Enter a payment ID", variant: "destructive" });
+      return;
+    }
+    let numAmount: Money;
+    try {
+      numAmount = parsePaymentAmount(amount);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { data: profiles, error: lookupError } = await supabase.rpc(
+        "get_profile_by_payment_id",
+        { _payment_id: normalizedPaymentId }
+      );
+      if (lookupError) throw lookupError;
+      if (!profiles || profiles.length === 0) {
+        toast({
+          title: "User not found",
+          description: "Check the payment ID and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase.rpc("create_payment_request", {
+        _payer_id: profiles[0].user_id,
+        _amount: toDecimal(numAmount),
+        _note: note.trim() || null,
+        _expires_at: new Date(
+          Date.now() + REQUEST_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Request sent",
+        description: `Asked ${profiles[0].display_name || normalizedPaymentId} for ${formatMoney(numAmount)}`,
+      });
+      setPayerPaymentId("");
+      setAmount("");
+      setNote("");
+      await fetchRequests();
+    } catch (error) {
+      console.error("Error creating payment request:", error);
+      toast({
+        title: "Could not send request",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const runAction = async (
+    request: PaymentRequestRow,
+    action: "pay_payment_request" | "decline_payment_request" | "cancel_payment_request",
+    successTitle: string
+  ) => {
+    setBusyId(request.id);
+    try {
+      const { error } = await supabase.rpc(action, { _request_id: request.id });
+      if (error) throw error;
+
+      toast({ title: successTitle });
+      if (action === "pay_payment_request") {
+        await refreshWallet();
+      }
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+      toast({
+        title: "Action failed",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      await fetchRequests();
+    }
+  };
+
+  if (isAuthLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const incoming = requests.filter((request) => request.direction === "incoming");
+  const outgoing = requests.filter((request) => request.direction === "outgoing");
+  const pendingIncoming = incoming.filter((request) => request.status === "pending").length;
+
+  const renderRequest = (request: PaymentRequestRow) => {
+    const isPending = request.status === "pending";
+    const isBusy = busyId === request.id;
+
+    return (
+      <Card key={request.id}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {request.counterparty_name || request.counterparty_payment_id}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(request.created_at), "dd MMM, hh:mm a")}
+                {isPending && ` · expires ${format(new Date(request.expires_at), "dd MMM")}`}
+              </p>
+              {request.note && <p className="text-sm mt-1">{request.note}</p>}
+            </div>
+            <div className="text-right shrink-0">
+              <p className="font-semibold">{formatMoney(request.amount)}</p>
+              <Badge variant={STATUS_VARIANTS[request.status]} className="capitalize mt-1">
+                {request.status}
+              </Badge>
+            </div>
+          </div>
+
+          {isPending && request.direction === "incoming" && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={!isOnline || isBusy}
+                onClick={() => runAction(request, "decline_payment_request", "Request declined")}
+              >
+                Decline
+              </Button>
+              <Button
+                className="flex-1"
+                disabled={!isOnline || isBusy}
+                onClick={() => setPayingRequest(request)}
+              >
+                {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Pay"}
+              </Button>
+            </div>
+          )}
+
+          {isPending && request.direction === "outgoing" && (
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={!isOnline || isBusy}
+              onClick={() => runAction(request, "cancel_payment_request", "Request cancelled")}
+            >
+              {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Cancel Request"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderList = (list: PaymentRequestRow[], emptyText: string) =>
+    isLoading ? (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    ) : list.length === 0 ? (
+      <Card>
+        <CardContent className="p-6 text-center text-muted-foreground">
+          <HandCoins className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p>{emptyText}</p>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-3">{list.map(renderRequest)}</div>
+    );
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center gap-3 p-4 border-b safe-area-top">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="font-semibold text-lg">Requests</h1>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => navigate("/split")}
+        >
+          <Users className="h-4 w-4 mr-1" />
+          Split a Bill
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={fetchRequests}
+          disabled={isLoading || !isOnline}
+        >
+          <RefreshCw className={`h-5 w-5 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        {!isOnline && (
+          <Card className="border-warning bg-warning/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <WifiOff className="h-5 w-5 text-warning" />
+              <p className="text-sm">Payment requests need an internet connection</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Request Money</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="payerPaymentId">From (Payment ID)</Label>
+              <Input
+                id="payerPaymentId"
+                value={payerPaymentId}
+                onChange={(e) => setPayerPaymentId(e.target.value.toUpperCase())}
+                placeholder="OP12345678"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestAmount">Amount ({currencySymbol()})</Label>
+              <Input
+                id="requestAmount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestNote">Note (optional)</Label>
+              <Input
+                id="requestNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What's this for?"
+                maxLength={255}
+              />
+            </div>
+            <Button className="w-full" onClick={handleCreate} disabled={isCreating || !isOnline}>
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send Request"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="incoming">
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="incoming">
+              Inbox{pendingIncoming > 0 ? ` (${pendingIncoming})` : ""}
+            </TabsTrigger>
+            <TabsTrigger value="outgoing">Sent</TabsTrigger>
+          </TabsList>
+          <TabsContent value="incoming">
+            {renderList(incoming, "No one has requested money from you")}
+          </TabsContent>
+          <TabsContent value="outgoing">
+            {renderList(outgoing, "You haven't requested money yet")}
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <AlertDialog open={!!payingRequest} onOpenChange={(open) => !open && setPayingRequest(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Pay this request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {payingRequest &&
+                `${formatMoney(payingRequest.amount)} will be sent to ${
+                  payingRequest.counterparty_name || payingRequest.counterparty_payment_id
+                } from your wallet balance.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (payingRequest) {
+                  runAction(payingRequest, "pay_payment_request", "Request paid");
+                }
+                setPayingRequest(null);
+              }}
+            >
+              Pay
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,16 +1,156 @@
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QrScanner } from "@/components/QrScanner";
 import { toast } from "@/hooks/use-toast";
-import { ArrowLeft, Copy, Share2, Download, Loader2 } from "lucide-react";
+import { getIncomingReceipts, IncomingReceipt } from "@/lib/offlineDb";
+import { isOfflineVaultUnlocked, onOfflineVaultChange } from "@/lib/offlineVault";
+import { acceptReceipt, isReceipt, reconcileIncomingReceipts, ReceiptError } from "@/lib/receipts";
+import { Money, MoneyError, currencySymbol, formatMoney, parsePaymentAmount } from "@/lib/money";
+import {
+  buildPaymentRequestUri,
+  PaymentRequest,
+  PaymentRequestError,
+} from "@/lib/paymentRequestUri";
+import {
+  ArrowLeft,
+  Copy,
+  Share2,
+  Download,
+  Loader2,
+  ScanLine,
+  ShieldCheck,
+  ShieldAlert,
+  Users,
+  X,
+} from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 
+// Minutes until a payment request expires; "none" never expires
+const EXPIRY_OPTIONS = [
+  { value: "none", label: "No expiry" },
+  { value: "15", label: "15 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "1440", label: "24 hours" },
+];
+
 export default function ReceiveMoney() {
   const navigate = useNavigate();
-  const { profile, isLoading } = useAuth();
+  const { user, profile, isLoading } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const [showScanner, setShowScanner] = useState(false);
+  const [receipts, setReceipts] = useState<IncomingReceipt[]>([]);
+  const isAcceptingRef = useRef(false);
+  const [requestAmount, setRequestAmount] = useState("");
+  const [requestNote, setRequestNote] = useState("");
+  const [requestReference, setRequestReference] = useState("");
+  const [requestExpiry, setRequestExpiry] = useState("none");
+  const [activeRequest, setActiveRequest] = useState<{ uri: string; request: PaymentRequest } | null>(
+    null
+  );
+
+  const qrValue = activeRequest?.uri || profile?.payment_id || "";
+  const userId = user?.id;
+
+  const loadReceipts = useCallback(async () => {
+    if (!userId || !isOfflineVaultUnlocked(userId)) {
+      setReceipts([]);
+      return;
+    }
+    try {
+      setReceipts(await getIncomingReceipts(userId));
+    } catch (error) {
+      console.error("Error loading receipts:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadReceipts();
+    return onOfflineVaultChange(loadReceipts);
+  }, [loadReceipts]);
 
-  const qrValue = profile?.payment_id || "";
+  // Settle scanned receipts and refresh sender keys whenever we are online
+  useEffect(() => {
+    if (!userId || !isOnline || !isOfflineVaultUnlocked(userId)) return;
+    reconcileIncomingReceipts(userId)
+      .then(loadReceipts)
+      .catch((error) => console.error("Error reconciling receipts:", error));
+  }, [userId, isOnline, loadReceipts]);
+
+  const handleCreateRequest = async () => {
+    if (!profile?.payment_id) return;
+
+    let amount: Money;
+    try {
+      amount = parsePaymentAmount(requestAmount);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
+      return;
+    }
+
+    const request: PaymentRequest = {
+      paymentId: profile.payment_id,
+      amount,
+      note: requestNote.trim() || undefined,
+      reference: requestReference.trim() || undefined,
+      expiresAt:
+        requestExpiry === "none" ? undefined : Date.now() + Number(requestExpiry) * 60 * 1000,
+    };
+
+    try {
+      setActiveRequest({ uri: await buildPaymentRequestUri(request), request });
+    } catch (error) {
+      toast({
+        title: "Could not create request",
+        description: error instanceof PaymentRequestError ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReceiptScan = async (text: string) => {
+    if (!userId || isAcceptingRef.current) return;
+    if (!isReceipt(text)) {
+      toast({ title: "Not a payment receipt", variant: "destructive" });
+      return;
+    }
+
+    isAcceptingRef.current = true;
+    setShowScanner(false);
+    try {
+      const receipt = await acceptReceipt(userId, text);
+      toast({
+        title: receipt.verification === "verified" ? "Receipt verified" : "Receipt saved",
+        description:
+          receipt.verification === "verified"
+            ? `${formatMoney(receipt.amount)} from ${receipt.senderName || receipt.senderPaymentId}`
+            : "The sender's signature will be checked once you are online",
+      });
+      await loadReceipts();
+    } catch (error) {
+      console.error("Error accepting receipt:", error);
+      toast({
+        title: "Receipt rejected",
+        description: error instanceof ReceiptError ? error.message : "Unable to save this receipt",
+        variant: "destructive",
+      });
+    } finally {
+      isAcceptingRef.current = false;
+    }
+  };
 
   const handleCopy = async () => {
     if (!profile?.payment_id) return;
@@ -68,6 +208,21 @@ export default function ReceiveMoney() {
     );
   }
 
+  if (showScanner) {
+    return (
+      <QrScanner
+        title="Scan Payment Receipt"
+        onScan={handleReceiptScan}
+        onClose={() => setShowScanner(false)}
+        footer={
+          <p className="text-xs text-muted-foreground text-center">
+            Scan the receipt shown on the sender's screen after an offline payment
+          </p>
+        }
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Header */}
@@ -78,12 +233,14 @@ export default function ReceiveMoney() {
         <h1 className="font-semibold text-lg">Receive Money</h1>
       </header>
 
-      <main className="flex-1 p-4 flex flex-col items-center justify-center">
+      <main className="flex-1 p-4 flex flex-col items-center justify-center space-y-4">
         <Card className="w-full max-w-sm">
           <CardHeader className="text-center">
-            <CardTitle>Your QR Code</CardTitle>
+            <CardTitle>{activeRequest ? "Payment Request" : "Your QR Code"}</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Show this to receive payment
+              {activeRequest
+                ? `Scan to pay ${formatMoney(activeRequest.request.amount!)}`
+                : "Show this to receive payment"}
             </p>
           </CardHeader>
           <CardContent className="flex flex-col items-center space-y-6">
@@ -100,6 +257,29 @@ export default function ReceiveMoney() {
               />
             </div>
 
+            {activeRequest && (
+              <div className="w-full p-3 bg-muted rounded-lg text-sm space-y-1">
+                {activeRequest.request.note && <p>{activeRequest.request.note}</p>}
+                {activeRequest.request.reference && (
+                  <p className="text-muted-foreground">Ref: {activeRequest.request.reference}</p>
+                )}
+                {activeRequest.request.expiresAt && (
+                  <p className="text-muted-foreground">
+                    Expires {new Date(activeRequest.request.expiresAt).toLocaleString("en-IN")}
+                  </p>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setActiveRequest(null)}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Clear Request
+                </Button>
+              </div>
+            )}
+
             {/* Payment ID */}
             <div className="text-center">
               <p className="text-sm text-muted-foreground mb-1">Payment ID</p>
@@ -146,6 +326,120 @@ export default function ReceiveMoney() {
             </Button>
           </CardContent>
         </Card>
+
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Request a Specific Amount</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              The payer's amount is fixed by the QR code
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="requestAmount">Amount ({currencySymbol()})</Label>
+              <Input
+                id="requestAmount"
+                type="number"
+                value={requestAmount}
+                onChange={(e) => setRequestAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestNote">Note (optional)</Label>
+              <Input
+                id="requestNote"
+                value={requestNote}
+                onChange={(e) => setRequestNote(e.target.value)}
+                placeholder="What's this for?"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requestReference">Reference (optional)</Label>
+              <Input
+                id="requestReference"
+                value={requestReference}
+                onChange={(e) => setRequestReference(e.target.value)}
+                placeholder="Invoice or order number"
+                maxLength={35}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={requestExpiry} onValueChange={setRequestExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" onClick={handleCreateRequest}>
+              Create Request QR
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Offline Payments Received</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Scan the sender's receipt to confirm a payment made while offline
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Button className="w-full" onClick={() => setShowScanner(true)}>
+              <ScanLine className="h-4 w-4 mr-2" />
+              Scan Payment Receipt
+            </Button>
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={() => navigate("/relay?mode=carry")}
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Carry a Friend's Payments
+            </Button>
+
+            {receipts.map((receipt) => (
+              <div
+                key={receipt.voucherId}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {receipt.senderName || receipt.senderPaymentId}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(receipt.timestamp).toLocaleString("en-IN")}
+                  </p>
+                  <div className="flex gap-1 mt-1">
+                    <Badge variant={receipt.status === "settled" ? "default" : "secondary"}>
+                      {receipt.status === "settled" ? "Settled" : "Pending"}
+                    </Badge>
+                    <Badge variant="outline">
+                      {receipt.verification === "verified" ? (
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                      ) : (
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                      )}
+                      {receipt.verification === "verified" ? "Verified" : "Unverified"}
+                    </Badge>
+                  </div>
+                </div>
+                <p className="font-semibold text-success shrink-0">
+                  +{formatMoney(receipt.amount)}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
       </main>
     </div>
   );
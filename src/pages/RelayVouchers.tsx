@@ -0,0 +1,321 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AnimatedQrCode } from "@/components/AnimatedQrCode";
+import { QrScanner } from "@/components/QrScanner";
+import { toast } from "@/hooks/use-toast";
+import { isOfflineVaultUnlocked, onOfflineVaultChange } from "@/lib/offlineVault";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import type { VoucherResult } from "@/lib/syncEngine";
+import type { SignedVoucher } from "@/lib/voucherCrypto";
+import { Money, formatMoney, fromDecimal, sumMoney } from "@/lib/money";
+import {
+  encodeRelayFrames,
+  getRelayableVouchers,
+  isRelayFrame,
+  relayVouchers,
+  MAX_RELAY_VOUCHERS,
+  RelayError,
+  RelayFrameReader,
+  RelayScanProgress,
+} from "@/lib/voucherRelay";
+import { ArrowLeft, Loader2, ScanLine, Send, CheckCircle2, XCircle } from "lucide-react";
+
+type RelayMode = "share" | "carry";
+
+const RESULT_LABELS: Record<VoucherResult["status"], string> = {
+  settled: "Delivered",
+  duplicate: "Already delivered",
+  insufficient_funds: "Insufficient funds",
+  rejected: "Rejected",
+};
+
+function totalAmount(vouchers: SignedVoucher[]): Money {
+  return sumMoney(vouchers.map((voucher) => fromDecimal(voucher.amount)));
+}
+
+export default function RelayVouchers() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, isLoading } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const mode: RelayMode = searchParams.get("mode") === "carry" ? "carry" : "share";
+
+  // Share: this user's own pending vouchers
+  const [ownVouchers, setOwnVouchers] = useState<SignedVoucher[]>([]);
+  const [isLoadingOwn, setIsLoadingOwn] = useState(true);
+
+  // Carry: vouchers scanned from someone else's screen
+  const readerRef = useRef(new RelayFrameReader());
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanProgress, setScanProgress] = useState<RelayScanProgress | null>(null);
+  const [carried, setCarried] = useState<SignedVoucher[]>([]);
+  const [results, setResults] = useState<VoucherResult[] | null>(null);
+  const [isRelaying, setIsRelaying] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, isLoading, navigate]);
+
+  const loadOwnVouchers = useCallback(async () => {
+    if (!userId || !isOfflineVaultUnlocked(userId)) {
+      setOwnVouchers([]);
+      setIsLoadingOwn(false);
+      return;
+    }
+    try {
+      setOwnVouchers(await getRelayableVouchers(userId));
+    } catch (error) {
+      console.error("Error loading pending vouchers:", error);
+    } finally {
+      setIsLoadingOwn(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadOwnVouchers();
+    return onOfflineVaultChange(loadOwnVouchers);
+  }, [loadOwnVouchers]);
+
+  const frames = useMemo(
+    () => (ownVouchers.length > 0 ? encodeRelayFrames(ownVouchers) : []),
+    [ownVouchers]
+  );
+
+  const startScan = () => {
+    readerRef.current.reset();
+    setScanProgress(null);
+    setCarried([]);
+    setResults(null);
+    setShowScanner(true);
+  };
+
+  const handleFrame = (text: string) => {
+    if (!isRelayFrame(text)) return;
+
+    try {
+      const reader = readerRef.current;
+      setScanProgress(reader.addFrame(text));
+      if (reader.isComplete()) {
+        const vouchers = reader.getVouchers();
+        setShowScanner(false);
+        setCarried(vouchers);
+        toast({
+          title: "Payments received",
+          description: `${vouchers.length} payment${vouchers.length > 1 ? "s" : ""} ready to deliver`,
+        });
+      }
+    } catch (error) {
+      setShowScanner(false);
+      toast({
+        title: "Could not read relay code",
+        description: error instanceof RelayError ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRelay = async () => {
+    if (carried.length === 0) return;
+
+    setIsRelaying(true);
+    try {
+      const relayResults = await relayVouchers(carried);
+      setResults(relayResults);
+      const delivered = relayResults.filter(
+        (result) => result.status === "settled" || result.status === "duplicate"
+      ).length;
+      toast({
+        title: delivered === carried.length ? "Payments delivered" : "Some payments were not delivered",
+        description: `${delivered} of ${carried.length} delivered`,
+        variant: delivered === carried.length ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error("Relay error:", error);
+      toast({
+        title: "Relay failed",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRelaying(false);
+    }
+  };
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (showScanner) {
+    return (
+      <QrScanner
+        title="Scan Relay Code"
+        onScan={handleFrame}
+        onClose={() => setShowScanner(false)}
+        footer={
+          <div className="space-y-2">
+            <Progress
+              value={scanProgress ? (scanProgress.received / scanProgress.total) * 100 : 0}
+            />
+            <p className="text-xs text-muted-foreground text-center">
+              {scanProgress
+                ? `Read ${scanProgress.received} of ${scanProgress.total} frames`
+                : "Hold steady over your friend's relay code"}
+            </p>
+          </div>
+        }
+      />
+    );
+  }
+
+  const resultsById = new Map((results ?? []).map((result) => [result.voucher_id, result]));
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center gap-3 p-4 border-b safe-area-top">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="font-semibold text-lg">Relay Payments</h1>
+      </header>
+
+      <main className="flex-1 p-4">
+        <Tabs
+          value={mode}
+          onValueChange={(value) => setSearchParams({ mode: value }, { replace: true })}
+        >
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="share">Send via a friend</TabsTrigger>
+            <TabsTrigger value="carry">Carry for a friend</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="share">
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Your Relay Code</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  A friend with internet can scan this to deliver your offline payments
+                </p>
+              </CardHeader>
+              <CardContent className="flex flex-col items-center space-y-4">
+                {isLoadingOwn ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                ) : ownVouchers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No payments waiting to sync</p>
+                ) : (
+                  <>
+                    <AnimatedQrCode frames={frames} />
+                    <p className="text-sm text-center">
+                      {ownVouchers.length} payment{ownVouchers.length > 1 ? "s" : ""} ·{" "}
+                      {formatMoney(totalAmount(ownVouchers))}
+                    </p>
+                    {ownVouchers.length === MAX_RELAY_VOUCHERS && (
+                      <p className="text-xs text-muted-foreground text-center">
+                        Showing your oldest {MAX_RELAY_VOUCHERS} payments. The rest can be
+                        relayed once these are delivered.
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground text-center">
+                      Your payments stay signed by this device, so they cannot be changed on
+                      the way. You'll see them confirmed the next time you sync.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="carry" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Deliver a Friend's Payments</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Scan the relay code on their screen. Their payments are checked against
+                  their signature, and nothing is charged to you.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button className="w-full" variant="outline" onClick={startScan}>
+                  <ScanLine className="h-4 w-4 mr-2" />
+                  Scan Relay Code
+                </Button>
+
+                {carried.length > 0 && (
+                  <>
+                    <p className="text-sm">
+                      {carried.length} payment{carried.length > 1 ? "s" : ""} ·{" "}
+                      {formatMoney(totalAmount(carried))}
+                    </p>
+                    <Button
+                      className="w-full"
+                      onClick={handleRelay}
+                      disabled={isRelaying || !isOnline || results !== null}
+                    >
+                      {isRelaying ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Send className="h-4 w-4 mr-2" />
+                          Deliver Payments
+                        </>
+                      )}
+                    </Button>
+                    {!isOnline && (
+                      <p className="text-xs text-muted-foreground text-center">
+                        Connect to the internet to deliver these payments
+                      </p>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {results && (
+              <Card>
+                <CardContent className="p-4 space-y-2">
+                  {carried.map((voucher) => {
+                    const result = resultsById.get(voucher.id);
+                    const delivered =
+                      result?.status === "settled" || result?.status === "duplicate";
+                    return (
+                      <div key={voucher.id} className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {delivered ? (
+                            <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+                          ) : (
+                            <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                          )}
+                          <span className="text-sm truncate">
+                            {formatMoney(fromDecimal(voucher.amount))}
+                          </span>
+                        </div>
+                        <Badge variant={delivered ? "default" : "destructive"}>
+                          {result ? RESULT_LABELS[result.status] : "No response"}
+                        </Badge>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,548 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import {
+  Money,
+  MoneyError,
+  currencySymbol,
+  formatMoney,
+  formatMoneyInput,
+  fromDecimal,
+  parsePaymentAmount,
+  toDecimal,
+} from "@/lib/money";
+import { ArrowLeft, CalendarClock, Loader2, Pause, Pencil, Play, WifiOff, X } from "lucide-react";
+import { format } from "date-fns";
+
+type ScheduledTransferRow = Omit<
+  Database["public"]["Functions"]["get_scheduled_transfers"]["Returns"][number],
+  "amount"
+> & { amount: Money };
+type TransferFrequency = Database["public"]["Enums"]["transfer_frequency"];
+type ScheduledTransferStatus = Database["public"]["Enums"]["scheduled_transfer_status"];
+
+const FREQUENCY_LABELS: Record<TransferFrequency, string> = {
+  once: "One time",
+  daily: "Every day",
+  weekly: "Every week",
+  monthly: "Every month",
+};
+
+const STATUS_VARIANTS: Record<
+  ScheduledTransferStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  active: "default",
+  paused: "secondary",
+  completed: "outline",
+  cancelled: "outline",
+  failed: "destructive",
+};
+
+// datetime-local inputs take local time without a zone
+const INPUT_DATE_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface ScheduleForm {
+  paymentId: string;
+  amount: string;
+  description: string;
+  frequency: TransferFrequency;
+  startAt: string;
+  endAt: string;
+}
+
+function emptyForm(): ScheduleForm {
+  return {
+    paymentId: "",
+    amount: "",
+    description: "",
+    frequency: "monthly",
+    startAt: format(new Date(Date.now() + 60 * 60 * 1000), INPUT_DATE_FORMAT),
+    endAt: "",
+  };
+}
+
+export default function ScheduledTransfers() {
+  const navigate = useNavigate();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { isOnline } = useNetworkStatus();
+
+  const [schedules, setSchedules] = useState<ScheduledTransferRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [cancellingSchedule, setCancellingSchedule] = useState<ScheduledTransferRow | null>(null);
+
+  const [editing, setEditing] = useState<ScheduledTransferRow | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, isAuthLoading, navigate]);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!user || !navigator.onLine) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("get_scheduled_transfers");
+      if (error) throw error;
+      setSchedules(
+        (data || []).map((schedule) => ({ ...schedule, amount: fromDecimal(schedule.amount) }))
+      );
+    } catch (error) {
+      console.error("Error fetching scheduled transfers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules, isOnline]);
+
+  const updateForm = (changes: Partial<ScheduleForm>) => {
+    setForm((current) => ({ ...current, ...changes }));
+  };
+
+  const startEditing = (schedule: ScheduledTransferRow) => {
+    setEditing(schedule);
+    setForm({
+      paymentId: schedule.receiver_payment_id,
+      amount: formatMoneyInput(schedule.amount),
+      description: schedule.description || "",
+      frequency: schedule.frequency,
+      startAt: format(new Date(schedule.start_at), INPUT_DATE_FORMAT),
+      endAt: schedule.end_at ? format(new Date(schedule.end_at), "yyyy-MM-dd") : "",
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const stopEditing = () => {
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const startAt = new Date(form.startAt);
+    // The last day is inclusive
+    const endAt =
+      form.frequency !== "once" && form.endAt ? new Date(`${form.endAt}T23:59:59`) : null;
+    const startChanged = !editing || startAt.getTime() !== new Date(editing.start_at).getTime();
+
+    let numAmount: Money;
+    try {
+      numAmount = parsePaymentAmount(form.amount);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
+      return;
+    }
+    if (isNaN(startAt.getTime()) || (startChanged && startAt.getTime() <= Date.now())) {
+      toast({ title: "Choose a start time in the future", variant: "destructive" });
+      return;
+    }
+    if (endAt && endAt < startAt) {
+      toast({ title: "The end date must be after the start", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        amount: toDecimal(numAmount),
+        description: form.description.trim() || null,
+        frequency: form.frequency,
+        start_at: startAt.toISOString(),
+        end_at: endAt ? endAt.toISOString() : null,
+      };
+
+      if (editing) {
+        const { error } = await supabase
+          .from("scheduled_transfers")
+          .update(fields)
+          .eq("id", editing.id);
+        if (error) throw error;
+
+        toast({ title: "Schedule updated" });
+        stopEditing();
+      } else {
+        const normalizedPaymentId = form.paymentId.trim().toUpperCase();
+        if (!normalizedPaymentId) {
+          toast({ title: "Enter a payment ID", variant: "destructive" });
+          return;
+        }
+
+        const { data: profiles, error: lookupError } = await supabase.rpc(
+          "get_profile_by_payment_id",
+          { _payment_id: normalizedPaymentId }
+        );
+        if (lookupError) throw lookupError;
+        if (!profiles || profiles.length === 0) {
+          toast({
+            title: "User not found",
+            description: "Check the payment ID and try again.",
+            variant: "destructive",
+          });
+          return;
+        }
+        if (profiles[0].user_id === user.id) {
+          toast({ title: "You can't schedule a transfer to yourself", variant: "destructive" });
+          return;
+        }
+
+        const { error } = await supabase.from("scheduled_transfers").insert({
+          ...fields,
+          user_id: user.id,
+          receiver_id: profiles[0].user_id,
+        });
+        if (error) throw error;
+
+        toast({
+          title: "Transfer scheduled",
+          description: `${formatMoney(numAmount)} to ${
+            profiles[0].display_name || normalizedPaymentId
+          }, ${FREQUENCY_LABELS[form.frequency].toLowerCase()}`,
+        });
+        setForm(emptyForm());
+      }
+      await fetchSchedules();
+    } catch (error) {
+      console.error("Error saving scheduled transfer:", error);
+      toast({
+        title: "Could not save schedule",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setStatus = async (
+    schedule: ScheduledTransferRow,
+    status: ScheduledTransferStatus,
+    successTitle: string
+  ) => {
+    setBusyId(schedule.id);
+    try {
+      const { error } = await supabase
+        .from("scheduled_transfers")
+        .update({ status })
+        .eq("id", schedule.id);
+      if (error) throw error;
+
+      toast({ title: successTitle });
+      if (editing?.id === schedule.id) stopEditing();
+    } catch (error) {
+      console.error("Error updating scheduled transfer:", error);
+      toast({
+        title: "Action failed",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      await fetchSchedules();
+    }
+  };
+
+  if (isAuthLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderSchedule = (schedule: ScheduledTransferRow) => {
+    const isOpen = schedule.status === "active" || schedule.status === "paused";
+    const isBusy = busyId === schedule.id;
+
+    return (
+      <Card key={schedule.id}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {schedule.receiver_name || schedule.receiver_payment_id}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {FREQUENCY_LABELS[schedule.frequency]}
+                {schedule.status === "active" &&
+                  schedule.next_run_at &&
+                  ` · next ${format(new Date(schedule.next_run_at), "dd MMM, hh:mm a")}`}
+                {schedule.end_at &&
+                  ` · until ${format(new Date(schedule.end_at), "dd MMM yyyy")}`}
+              </p>
+              {schedule.description && <p className="text-sm mt-1">{schedule.description}</p>}
+              {schedule.last_error && schedule.status !== "completed" && (
+                <p className="text-xs text-destructive mt-1">
+                  Last attempt failed: {schedule.last_error}
+                </p>
+              )}
+            </div>
+            <div className="text-right shrink-0">
+              <p className="font-semibold">{formatMoney(schedule.amount)}</p>
+              <Badge variant={STATUS_VARIANTS[schedule.status]} className="capitalize mt-1">
+                {schedule.status}
+              </Badge>
+            </div>
+          </div>
+
+          {isOpen && (
+            <div className="flex gap-2">
+              {schedule.status === "active" ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={!isOnline || isBusy}
+                  onClick={() => setStatus(schedule, "paused", "Schedule paused")}
+                >
+                  <Pause className="h-4 w-4 mr-1" />
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={!isOnline || isBusy}
+                  onClick={() => setStatus(schedule, "active", "Schedule resumed")}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                disabled={!isOnline || isBusy}
+                onClick={() => startEditing(schedule)}
+              >
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                disabled={!isOnline || isBusy}
+                onClick={() => setCancellingSchedule(schedule)}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
+        <div className="flex items-center gap-4 p-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/settings")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-semibold">Scheduled Transfers</h1>
+        </div>
+      </header>
+
+      <main className="p-4 max-w-lg mx-auto space-y-6 pb-8">
+        {!isOnline && (
+          <Card className="border-warning bg-warning/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <WifiOff className="h-5 w-5 text-warning" />
+              <p className="text-sm">Managing schedules needs an internet connection</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">{editing ? "Edit Schedule" : "New Schedule"}</CardTitle>
+            </div>
+            <CardDescription>
+              Payments run automatically from your wallet balance
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedulePaymentId">To (Payment ID)</Label>
+              <Input
+                id="schedulePaymentId"
+                value={form.paymentId}
+                onChange={(e) => updateForm({ paymentId: e.target.value.toUpperCase() })}
+                placeholder="OP12345678"
+                className="font-mono"
+                disabled={!!editing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduleAmount">Amount ({currencySymbol()})</Label>
+              <Input
+                id="scheduleAmount"
+                type="number"
+                value={form.amount}
+                onChange={(e) => updateForm({ amount: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduleDescription">Note (optional)</Label>
+              <Input
+                id="scheduleDescription"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                placeholder="Rent, tuition..."
+                maxLength={255}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select
+                value={form.frequency}
+                onValueChange={(value) => updateForm({ frequency: value as TransferFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FREQUENCY_LABELS) as TransferFrequency[]).map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {FREQUENCY_LABELS[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduleStartAt">
+                {form.frequency === "once" ? "Pay on" : "First payment"}
+              </Label>
+              <Input
+                id="scheduleStartAt"
+                type="datetime-local"
+                value={form.startAt}
+                onChange={(e) => updateForm({ startAt: e.target.value })}
+              />
+            </div>
+            {form.frequency !== "once" && (
+              <div className="space-y-2">
+                <Label htmlFor="scheduleEndAt">Last payment by (optional)</Label>
+                <Input
+                  id="scheduleEndAt"
+                  type="date"
+                  value={form.endAt}
+                  onChange={(e) => updateForm({ endAt: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              {editing && (
+                <Button variant="outline" className="flex-1" onClick={stopEditing}>
+                  Discard
+                </Button>
+              )}
+              <Button className="flex-1" onClick={handleSave} disabled={isSaving || !isOnline}>
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : editing ? (
+                  "Save Changes"
+                ) : (
+                  "Schedule Transfer"
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              <CalendarClock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>No scheduled transfers yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">{schedules.map(renderSchedule)}</div>
+        )}
+      </main>
+
+      <AlertDialog
+        open={!!cancellingSchedule}
+        onOpenChange={(open) => !open && setCancellingSchedule(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancellingSchedule &&
+                `No further payments will be made to ${
+                  cancellingSchedule.receiver_name || cancellingSchedule.receiver_payment_id
+                }. Payments already made are not affected.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (cancellingSchedule) {
+                  setStatus(cancellingSchedule, "cancelled", "Schedule cancelled");
+                }
+                setCancellingSchedule(null);
+              }}
+            >
+              Cancel Schedule
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
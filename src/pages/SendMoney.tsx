@@ -1,27 +1,68 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useLedgerBalance } from "@/hooks/useLedgerBalance";
 import { useNetworkStatus } from "@/hooks/useNetworkStatus";
 import { supabase } from "@/integrations/supabase/client";
-import { addPendingTransaction, cacheRecipient, getCachedRecipientByPaymentId } from "@/lib/offlineDb";
+import {
+  addPendingTransaction,
+  cacheRecipient,
+  getCachedRecipientByPaymentId,
+  getOfflinePurse,
+  PendingTransaction,
+} from "@/lib/offlineDb";
+import { encodeReceipt } from "@/lib/receipts";
+import { Wallet, getWallets } from "@/lib/auth";
+import { FxRate, convertMoney, findFxRate, getFxRates } from "@/lib/currencies";
+import {
+  CurrencyCode,
+  HOME_CURRENCY,
+  Money,
+  MoneyError,
+  ZERO_MONEY,
+  currencySymbol,
+  formatMoney,
+  formatMoneyInput,
+  parsePaymentAmount,
+  subtractMoney,
+  toDecimal,
+  tryParseMoney,
+} from "@/lib/money";
+import {
+  isExpired,
+  parsePaymentRequestUri,
+  PaymentRequest,
+  PaymentRequestError,
+} from "@/lib/paymentRequestUri";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
 import {
   ArrowLeft,
   Send,
   QrCode,
   User,
+  Users,
   Wifi,
   WifiOff,
   Loader2,
   Camera,
   CheckCircle2,
   AlertCircle,
+  Lock,
 } from "lucide-react";
 import { Html5Qrcode } from "html5-qrcode";
+import { QRCodeSVG } from "qrcode.react";
 
 type Step = "input" | "confirm" | "success" | "error";
 
@@ -35,7 +76,8 @@ interface RecipientInfo {
 export default function SendMoney() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { user, profile, wallet } = useAuth();
+  const { user, profile, wallet, refreshWallet } = useAuth();
+  const { ledger, refreshLedger } = useLedgerBalance();
   const { isOnline } = useNetworkStatus();
 
   const [step, setStep] = useState<Step>("input");
@@ -46,9 +88,20 @@ export default function SendMoney() {
   const [isLoading, setIsLoading] = useState(false);
   const [showScanner, setShowScanner] = useState(false);
   const [txId, setTxId] = useState<string | null>(null);
+  const [queuedTx, setQueuedTx] = useState<PendingTransaction | null>(null);
+  // Set when a merchant's payment request QR fixed the amount
+  const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
   const [scannerError, setScannerError] = useState<string | null>(null);
+  const [purseBalance, setPurseBalance] = useState<Money>(ZERO_MONEY);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Other currencies are online only: offline vouchers are always in the home currency
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(HOME_CURRENCY);
+  const [receiveCurrency, setReceiveCurrency] = useState<CurrencyCode>(HOME_CURRENCY);
 
   const html5QrCodeRef = useRef<Html5Qrcode | null>(null);
+  const isHandlingScanRef = useRef(false);
   const scannerContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -57,6 +110,41 @@ export default function SendMoney() {
     };
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      getOfflinePurse(user.id).then((purse) => setPurseBalance(purse.balance));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !isOnline) return;
+    Promise.all([getWallets(user.id), getFxRates()])
+      .then(([walletList, rates]) => {
+        setWallets(walletList);
+        setFxRates(rates);
+      })
+      .catch((error) => console.error("Error loading currencies:", error));
+  }, [user, isOnline]);
+
+  // Payment requests and offline payments are always in the home currency
+  const canChooseCurrency = isOnline && !paymentRequest && wallets.length > 0;
+  const sendCurrency = canChooseCurrency ? currency : HOME_CURRENCY;
+  const fxRate =
+    canChooseCurrency && receiveCurrency !== currency
+      ? findFxRate(fxRates, currency, receiveCurrency)
+      : undefined;
+  const sendWallet = wallets.find((w) => w.currency === sendCurrency);
+  const sendBalance = sendCurrency === HOME_CURRENCY ? wallet?.balance : sendWallet?.balance;
+  const receiveCurrencies = [
+    currency,
+    ...fxRates.filter((rate) => rate.base_currency === currency).map((rate) => rate.quote_currency),
+  ];
+
+  const selectCurrency = (value: CurrencyCode) => {
+    setCurrency(value);
+    setReceiveCurrency(value);
+  };
+
   const startScanner = async () => {
     setScannerError(null);
     setShowScanner(true);
@@ -74,25 +162,7 @@ export default function SendMoney() {
             qrbox: { width: 250, height: 250 },
           },
           (decodedText) => {
-            // Extract payment ID from QR code
-            let extractedPaymentId = decodedText;
-            
-            // Handle different QR code formats
-            if (decodedText.includes("offlinepay://pay/")) {
-              extractedPaymentId = decodedText.replace("offlinepay://pay/", "");
-            } else if (decodedText.startsWith("OP")) {
-              extractedPaymentId = decodedText;
-            }
-            
-            // Clean up and set the payment ID
-            extractedPaymentId = extractedPaymentId.trim().toUpperCase();
-            
-            stopScanner();
-            setPaymentId(extractedPaymentId);
-            toast({
-              title: "QR Code Scanned!",
-              description: `Payment ID: ${extractedPaymentId}`,
-            });
+            handleScan(decodedText);
           },
           () => {
             // Ignore scan errors (these happen continuously while scanning)
@@ -124,13 +194,59 @@ export default function SendMoney() {
     setScannerError(null);
   };
 
+  // Plain payment IDs and payment request URIs share the same scanner
+  const handleScan = async (decodedText: string) => {
+    if (isHandlingScanRef.current) return;
+    isHandlingScanRef.current = true;
+
+    try {
+      const request = await parsePaymentRequestUri(decodedText);
+      stopScanner();
+      setPaymentId(request.paymentId);
+      setRecipient(null);
+
+      const hasDetails =
+        request.amount !== undefined || !!request.note || !!request.reference || !!request.expiresAt;
+      setPaymentRequest(hasDetails ? request : null);
+      if (request.amount !== undefined) {
+        setAmount(formatMoneyInput(request.amount));
+      }
+      if (request.note || request.reference) {
+        const reference = request.reference ? `Ref ${request.reference}` : "";
+        setDescription(
+          request.note && reference ? `${request.note} (${reference})` : request.note || reference
+        );
+      }
+
+      toast({
+        title: "QR Code Scanned!",
+        description:
+          request.amount !== undefined
+            ? `Payment request for ${formatMoney(request.amount)} to ${request.paymentId}`
+            : `Payment ID: ${request.paymentId}`,
+      });
+    } catch (error) {
+      stopScanner();
+      toast({
+        title: "Invalid QR code",
+        description: error instanceof PaymentRequestError ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      isHandlingScanRef.current = false;
+    }
+  };
+
   const handleDemoScan = () => {
     stopScanner();
     setPaymentId("OP04141394");
+    setPaymentRequest(null);
     toast({ title: "Demo QR scanned", description: "Payment ID: OP04141394" });
   };
 
   const lookupRecipient = async () => {
+    if (!user) return;
+
     if (!paymentId.trim()) {
       toast({ title: "Enter a payment ID", variant: "destructive" });
       return;
@@ -169,7 +285,7 @@ export default function SendMoney() {
         setRecipient(recipientData);
         
         // Cache recipient for offline use
-        await cacheRecipient({
+        await cacheRecipient(user.id, {
           id: recipientData.id,
           user_id: recipientData.user_id,
           display_name: recipientData.display_name,
@@ -177,7 +293,7 @@ export default function SendMoney() {
         });
       } else {
         // Offline: use cached recipient data
-        const cachedRecipient = await getCachedRecipientByPaymentId(normalizedPaymentId);
+        const cachedRecipient = await getCachedRecipientByPaymentId(user.id, normalizedPaymentId);
         
         if (!cachedRecipient) {
           toast({
@@ -213,7 +329,7 @@ export default function SendMoney() {
       
       // Fallback to cached data if online lookup fails
       if (isOnline) {
-        const cachedRecipient = await getCachedRecipientByPaymentId(normalizedPaymentId);
+        const cachedRecipient = await getCachedRecipientByPaymentId(user.id, normalizedPaymentId);
         if (cachedRecipient && cachedRecipient.user_id !== user?.id) {
           setRecipient({
             id: cachedRecipient.id,
@@ -240,62 +356,91 @@ export default function SendMoney() {
   };
 
   const validateAmount = (): boolean => {
-    const numAmount = parseFloat(amount);
-
-    if (isNaN(numAmount) || numAmount <= 0) {
-      toast({ title: "Enter a valid amount", variant: "destructive" });
+    let numAmount: Money;
+    try {
+      numAmount = parsePaymentAmount(amount, sendCurrency);
+    } catch (error) {
+      toast({ title: (error as MoneyError).message, variant: "destructive" });
       return false;
     }
 
-    if (numAmount > (wallet?.balance || 0)) {
+    if (isOnline && numAmount > (sendBalance ?? ledger?.confirmedBalance ?? ZERO_MONEY)) {
       toast({ title: "Insufficient balance", variant: "destructive" });
       return false;
     }
 
-    if (!isOnline) {
-      const offlineRemaining =
-        (wallet?.offline_daily_limit || 0) - (wallet?.offline_used_today || 0);
-      if (numAmount > offlineRemaining) {
-        toast({
-          title: "Exceeds offline limit",
-          description: `Remaining offline limit: ₹${offlineRemaining.toLocaleString("en-IN")}`,
-          variant: "destructive",
-        });
-        return false;
-      }
+    // Counts what has settled today plus payments still queued on this device
+    if (!isOnline && ledger && numAmount > ledger.offlineRemainingToday) {
+      toast({
+        title: "Exceeds offline daily limit",
+        description: `Remaining today: ${formatMoney(ledger.offlineRemainingToday)}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!isOnline && numAmount > purseBalance) {
+      // Offline payments can only spend what was escrowed into the purse
+      toast({
+        title: "Exceeds offline purse",
+        description: `Offline purse balance: ${formatMoney(purseBalance)}`,
+        variant: "destructive",
+      });
+      return false;
     }
 
     return true;
   };
 
+  const checkRequestExpiry = (): boolean => {
+    if (paymentRequest && isExpired(paymentRequest)) {
+      toast({
+        title: "Payment request expired",
+        description: "Ask the receiver for a new QR code.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
   const proceedToConfirm = () => {
     if (!recipient) {
       toast({ title: "Select a recipient first", variant: "destructive" });
       return;
     }
+    if (!checkRequestExpiry()) return;
     if (!validateAmount()) return;
     setStep("confirm");
   };
 
   const executeTransaction = async () => {
-    if (!user || !recipient || !wallet) return;
+    if (!user || !recipient) return;
+    if (!checkRequestExpiry()) {
+      setStep("input");
+      return;
+    }
 
     setIsLoading(true);
-    const numAmount = parseFloat(amount);
 
     try {
+      const numAmount = parsePaymentAmount(amount, sendCurrency);
       if (isOnline) {
         // Online transaction via Supabase RPC
         const { data, error } = await supabase.rpc("process_transaction", {
           _sender_id: user.id,
           _receiver_id: recipient.user_id,
-          _amount: numAmount,
+          _amount: toDecimal(numAmount),
           _description: description || null,
           _is_offline: false,
+          _currency: sendCurrency,
+          _receive_currency: fxRate ? receiveCurrency : sendCurrency,
         });
 
         if (error) throw error;
         setTxId(data);
+        await refreshWallet();
+        setWallets(await getWallets(user.id));
       } else {
         // Offline transaction stored in IndexedDB
         const tx = await addPendingTransaction({
@@ -306,19 +451,20 @@ export default function SendMoney() {
           description: description || undefined,
         });
         setTxId(tx.id);
-
-        // Update local wallet balance (optimistic)
-        // This will be reconciled when sync happens
+        setQueuedTx(tx);
+        setPurseBalance((balance) => subtractMoney(balance, numAmount));
+        // The queued debit lowers the local ledger until sync reconciles it
+        await refreshLedger();
       }
 
       setStep("success");
     } catch (error: unknown) {
       console.error("Transaction error:", error);
+      setErrorMessage(getTransactionErrorMessage(error));
       setStep("error");
-      const message = error instanceof Error ? error.message : undefined;
       toast({
         title: "Transaction failed",
-        description: message || "Please try again",
+        description: getTransactionErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -420,6 +566,24 @@ export default function SendMoney() {
               </CardContent>
             </Card>
 
+            {/* Paying for a group */}
+            <Card
+              className="cursor-pointer hover:bg-muted/50 transition-colors"
+              onClick={() => navigate("/split")}
+            >
+              <CardContent className="p-4 flex items-center gap-4">
+                <div className="p-2 rounded-full bg-primary/10">
+                  <Users className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="font-medium">Split a Bill</p>
+                  <p className="text-sm text-muted-foreground">
+                    Paid for a group? Ask everyone for their share at once
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
             <div className="flex items-center gap-4">
               <div className="flex-1 h-px bg-border" />
               <span className="text-sm text-muted-foreground">or</span>
@@ -435,7 +599,10 @@ export default function SendMoney() {
                 <div className="flex gap-2">
                   <Input
                     value={paymentId}
-                    onChange={(e) => setPaymentId(e.target.value.toUpperCase())}
+                    onChange={(e) => {
+                      setPaymentId(e.target.value.toUpperCase());
+                      setPaymentRequest(null);
+                    }}
                     placeholder="OP12345678"
                     className="flex-1 font-mono"
                   />
@@ -470,20 +637,78 @@ export default function SendMoney() {
 
               {recipient && (
                 <>
+                  {canChooseCurrency && (wallets.length > 1 || receiveCurrencies.length > 1) && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">Pay from</label>
+                        <Select value={currency} onValueChange={selectCurrency}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {wallets.map((w) => (
+                              <SelectItem key={w.currency} value={w.currency}>
+                                {w.currency} wallet
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">They receive</label>
+                        <Select value={receiveCurrency} onValueChange={setReceiveCurrency}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {receiveCurrencies.map((code) => (
+                              <SelectItem key={code} value={code}>
+                                {code}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <label className="text-sm font-medium mb-2 block">
-                      Amount (₹)
+                      Amount ({currencySymbol(sendCurrency)})
                     </label>
-                    <Input
-                      type="number"
-                      value={amount}
-                      onChange={(e) => setAmount(e.target.value)}
-                      placeholder="0.00"
-                      className="text-2xl font-bold h-14"
-                    />
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        placeholder="0.00"
+                        className="text-2xl font-bold h-14"
+                        disabled={paymentRequest?.amount !== undefined}
+                      />
+                      {paymentRequest?.amount !== undefined && (
+                        <Lock className="h-4 w-4 text-muted-foreground absolute right-4 top-5" />
+                      )}
+                    </div>
+                    {paymentRequest?.amount !== undefined && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Amount set by the payment request
+                      </p>
+                    )}
                     <p className="text-sm text-muted-foreground mt-1">
-                      Balance: ₹{wallet?.balance?.toLocaleString("en-IN") || "0"}
+                      {isOnline
+                        ? `Balance: ${formatMoney(sendBalance ?? ZERO_MONEY, sendCurrency)}`
+                        : `Offline purse: ${formatMoney(purseBalance)}`}
                     </p>
+                    {fxRate && (
+                      <p className="text-sm text-muted-foreground">
+                        They receive{" "}
+                        {formatMoney(
+                          convertMoney(tryParseMoney(amount) ?? ZERO_MONEY, fxRate),
+                          receiveCurrency
+                        )}{" "}
+                        at 1 {currency} = {fxRate.rate} {receiveCurrency}
+                      </p>
+                    )}
                   </div>
 
                   <div>
@@ -520,8 +745,23 @@ export default function SendMoney() {
               <CardContent className="space-y-4">
                 <div className="text-center">
                   <p className="text-4xl font-bold text-primary">
-                    ₹{parseFloat(amount).toLocaleString("en-IN")}
+                    {formatMoney(tryParseMoney(amount) ?? ZERO_MONEY, sendCurrency)}
                   </p>
+                  {fxRate && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      They receive{" "}
+                      {formatMoney(
+                        convertMoney(tryParseMoney(amount) ?? ZERO_MONEY, fxRate),
+                        receiveCurrency
+                      )}
+                    </p>
+                  )}
+                  {paymentRequest?.amount !== undefined && (
+                    <Badge variant="secondary" className="mt-2 mr-2">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Requested amount
+                    </Badge>
+                  )}
                   {!isOnline && (
                     <Badge variant="outline" className="mt-2">
                       Will sync when online
@@ -546,6 +786,12 @@ export default function SendMoney() {
                       <span>{description}</span>
                     </div>
                   )}
+                  {paymentRequest?.expiresAt && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Request expires</span>
+                      <span>{new Date(paymentRequest.expiresAt).toLocaleString("en-IN")}</span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex gap-3">
@@ -583,13 +829,38 @@ export default function SendMoney() {
               {isOnline ? "Payment Sent!" : "Payment Queued!"}
             </h2>
             <p className="text-muted-foreground mb-2">
-              ₹{parseFloat(amount).toLocaleString("en-IN")} to{" "}
+              {formatMoney(tryParseMoney(amount) ?? ZERO_MONEY, sendCurrency)} to{" "}
               {recipient?.display_name || "User"}
             </p>
-            {!isOnline && (
-              <Badge variant="outline" className="mb-4">
-                Will complete when you're online
-              </Badge>
+            {queuedTx && (
+              <>
+                <Badge variant="outline" className="mb-2">
+                  Will complete when you're online
+                </Badge>
+                <p className="text-xs text-muted-foreground mb-4 max-w-xs">
+                  It is sent in the background once you're online. If your browser closes
+                  OfflinePay before then, it is sent the next time you open the app and enter
+                  your PIN.
+                </p>
+                {profile && (
+                  <div className="flex flex-col items-center mb-4">
+                    <div className="p-3 bg-white rounded-xl shadow-lg">
+                      <QRCodeSVG
+                        value={encodeReceipt(queuedTx, profile)}
+                        size={220}
+                        level="M"
+                        includeMargin
+                        bgColor="#ffffff"
+                        fgColor="#000000"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2 max-w-xs">
+                      Let {recipient?.display_name || "the receiver"} scan this signed receipt
+                      from their Receive screen
+                    </p>
+                  </div>
+                )}
+              </>
             )}
             <p className="text-xs text-muted-foreground font-mono mb-6">
               ID: {txId?.slice(0, 16)}...
@@ -610,7 +881,7 @@ export default function SendMoney() {
             </div>
             <h2 className="text-2xl font-bold mb-2">Payment Failed</h2>
             <p className="text-muted-foreground mb-6">
-              Something went wrong. Please try again.
+              {errorMessage || "Something went wrong. Please try again."}
             </p>
             <Button onClick={() => setStep("input")}>Try Again</Button>
           </div>
@@ -17,12 +17,18 @@ import {
   Lock, 
   Bell, 
   BellRing,
+  CalendarClock,
+  ChevronRight,
   Loader2, 
   Save,
   Shield,
   Smartphone
 } from "lucide-react";
-import { hashPin } from "@/lib/auth";
+import { changePin, setUpOfflineDataRecovery } from "@/lib/auth";
+import { PinAttemptNotice } from "@/components/PinAttemptNotice";
+import { usePinAttempts } from "@/hooks/usePinAttempts";
+import { changeOfflineDataPin } from "@/lib/offlineDb";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
 
 export default function Settings() {
   const navigate = useNavigate();
@@ -38,6 +44,7 @@ export default function Settings() {
   const [newPin, setNewPin] = useState("");
   const [confirmPin, setConfirmPin] = useState("");
   const [isChangingPin, setIsChangingPin] = useState(false);
+  const pinAttempts = usePinAttempts();
   
   // Notification preferences (stored locally for demo)
   const [notifications, setNotifications] = useState(() => {
@@ -98,43 +105,30 @@ export default function Settings() {
       return;
     }
     
-    // Verify current PIN
-    if (hashPin(currentPin) !== profile.pin_hash) {
-      toast({
-        title: "Incorrect current PIN",
-        description: "Please enter your current PIN correctly",
-        variant: "destructive",
-      });
-      return;
-    }
-    
     setIsChangingPin(true);
     try {
-      // Update PIN hash in profile
-      const { error: profileError } = await supabase
-        .from("profiles")
-        .update({ pin_hash: hashPin(newPin) })
-        .eq("user_id", user.id);
-
-      if (profileError) throw profileError;
-
-      // Update auth password
-      const { error: authError } = await supabase.auth.updateUser({
-        password: hashPin(newPin),
-      });
+      // The current PIN is checked on the server, which counts failed attempts
+      await changePin(currentPin, newPin);
+      pinAttempts.reset();
 
-      if (authError) throw authError;
+      // Offline records are sealed with a PIN-derived key, so re-seal them for the new PIN
+      try {
+        await changeOfflineDataPin(user.id, newPin);
+        await setUpOfflineDataRecovery(user.id, newPin);
+      } catch (error) {
+        console.error("Error re-encrypting offline data:", error);
+      }
 
-      await refreshProfile();
       setCurrentPin("");
       setNewPin("");
       setConfirmPin("");
       toast({ title: "PIN changed successfully!" });
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Unable to change PIN";
+      pinAttempts.recordFailure(error);
+      setCurrentPin("");
       toast({
         title: "Failed to change PIN",
-        description: message,
+        description: getTransactionErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -287,9 +281,13 @@ export default function Settings() {
               />
             </div>
             
+            <PinAttemptNotice attempts={pinAttempts} />
+
             <Button 
               onClick={handleChangePin} 
-              disabled={isChangingPin || !currentPin || !newPin || !confirmPin}
+              disabled={
+                isChangingPin || pinAttempts.mustWait || !currentPin || !newPin || !confirmPin
+              }
               variant="secondary"
               className="w-full"
             >
@@ -303,6 +301,27 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Scheduled Transfers Section */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Scheduled Transfers</CardTitle>
+            </div>
+            <CardDescription>Pay rent, fees and contributions automatically</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="outline"
+              className="w-full justify-between"
+              onClick={() => navigate("/settings/scheduled-transfers")}
+            >
+              Manage Schedules
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Push Notifications Section */}
         <Card>
           <CardHeader>
@@ -6,8 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Loader2, Phone, KeyRound, User, ArrowLeft, Wallet } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { generateOTP, storeOTP, verifyOTP, signUp } from "@/lib/auth";
+import { sendOTP, verifyOTP, signUp } from "@/lib/auth";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { ResendOtpButton } from "@/components/ResendOtpButton";
 import { useAuth } from "@/hooks/useAuth";
 
 type Step = "phone" | "otp" | "pin" | "name";
@@ -22,10 +24,10 @@ export default function SignUp() {
   const [confirmPin, setConfirmPin] = useState("");
   const [displayName, setDisplayName] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [generatedOtp, setGeneratedOtp] = useState("");
+  const [resendAt, setResendAt] = useState<Date | null>(null);
 
-  const handlePhoneSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handlePhoneSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
     if (phone.length < 10) {
       toast({
         title: "Invalid Phone",
@@ -36,22 +38,26 @@ export default function SignUp() {
     }
 
     setIsLoading(true);
-    // Generate and store OTP
-    const newOtp = generateOTP();
-    storeOTP(phone, newOtp);
-    setGeneratedOtp(newOtp);
-
-    // In production, send SMS here
-    toast({
-      title: "OTP Sent",
-      description: `Demo OTP: ${newOtp}`,
-    });
-
-    setIsLoading(false);
-    setStep("otp");
+    try {
+      setResendAt(await sendOTP(phone, "signup"));
+      setOtp("");
+      toast({
+        title: "OTP Sent",
+        description: `Enter the code sent to +91 ${phone}`,
+      });
+      setStep("otp");
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't send OTP",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleOtpVerify = () => {
+  const handleOtpVerify = async () => {
     if (otp.length !== 6) {
       toast({
         title: "Invalid OTP",
@@ -61,16 +67,20 @@ export default function SignUp() {
       return;
     }
 
-    if (!verifyOTP(phone, otp)) {
+    setIsLoading(true);
+    try {
+      await verifyOTP(phone, otp);
+      setStep("pin");
+    } catch (error: unknown) {
+      setOtp("");
       toast({
         title: "Invalid OTP",
-        description: "The OTP you entered is incorrect or expired",
+        description: getTransactionErrorMessage(error),
         variant: "destructive",
       });
-      return;
+    } finally {
+      setIsLoading(false);
     }
-
-    setStep("pin");
   };
 
   const handlePinSubmit = () => {
@@ -250,13 +260,14 @@ export default function SignUp() {
                     </InputOTPGroup>
                   </InputOTP>
                 </div>
-                {/* Demo OTP display */}
-                <p className="text-center text-sm text-muted-foreground">
-                  Demo OTP: <span className="font-mono font-bold text-primary">{generatedOtp}</span>
-                </p>
-                <Button onClick={handleOtpVerify} className="w-full h-12 text-lg">
-                  Verify OTP
+                <Button onClick={handleOtpVerify} className="w-full h-12 text-lg" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : "Verify OTP"}
                 </Button>
+                <ResendOtpButton
+                  resendAt={resendAt}
+                  onResend={() => handlePhoneSubmit()}
+                  disabled={isLoading}
+                />
               </div>
             )}
 
@@ -0,0 +1,722 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { getTransactionErrorMessage } from "@/lib/transactionErrors";
+import {
+  BillDraft,
+  BillDraftParticipant,
+  CachedRecipient,
+  deleteBillDraft,
+  getAllCachedRecipients,
+  getBillDrafts,
+  saveBillDraft,
+} from "@/lib/offlineDb";
+import { isOfflineVaultUnlocked, onOfflineVaultChange } from "@/lib/offlineVault";
+import {
+  MoneyError,
+  ZERO_MONEY,
+  currencySymbol,
+  formatMoney,
+  formatMoneyInput,
+  parseMoney,
+  sumMoney,
+  tryParseMoney,
+} from "@/lib/money";
+import {
+  BillParticipantStatus,
+  BillShares,
+  BillSplit,
+  BillSplitError,
+  calculateShares,
+  sendBillSplit,
+  toBillSplit,
+  MAX_BILL_PARTICIPANTS,
+} from "@/lib/billSplit";
+import {
+  ArrowLeft,
+  FileText,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Save,
+  Send,
+  Trash2,
+  Users,
+  WifiOff,
+  X,
+} from "lucide-react";
+import { format } from "date-fns";
+
+const PARTICIPANT_STATUS_VARIANTS: Record<
+  BillParticipantStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  paid: "default",
+  declined: "destructive",
+  cancelled: "outline",
+  expired: "outline",
+};
+
+const PAYMENT_ID_PATTERN = /^OP[A-Z0-9]{4,20}$/;
+
+function participantLabel(participant: { displayName?: string | null; paymentId: string }) {
+  return participant.displayName || participant.paymentId;
+}
+
+export default function SplitBill() {
+  const navigate = useNavigate();
+  const { user, profile, isLoading: isAuthLoading } = useAuth();
+  const { isOnline } = useNetworkStatus();
+
+  // The bill being drafted
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [total, setTotal] = useState("");
+  const [mode, setMode] = useState<BillDraft["mode"]>("equal");
+  const [includeSelf, setIncludeSelf] = useState(true);
+  const [participants, setParticipants] = useState<BillDraftParticipant[]>([]);
+  // Custom amounts as typed, keyed by payment ID
+  const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({});
+  const [newPaymentId, setNewPaymentId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  // Readable only while the offline vault is unlocked
+  const [vaultUnlocked, setVaultUnlocked] = useState(false);
+  const [recipients, setRecipients] = useState<CachedRecipient[]>([]);
+  const [drafts, setDrafts] = useState<BillDraft[]>([]);
+
+  const [bills, setBills] = useState<BillSplit[]>([]);
+  const [isLoadingBills, setIsLoadingBills] = useState(true);
+  const [closingBill, setClosingBill] = useState<BillSplit | null>(null);
+  const [busyBillId, setBusyBillId] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, isAuthLoading, navigate]);
+
+  const loadLocalData = useCallback(async () => {
+    if (!userId || !isOfflineVaultUnlocked(userId)) {
+      setVaultUnlocked(false);
+      setRecipients([]);
+      setDrafts([]);
+      return;
+    }
+    setVaultUnlocked(true);
+    try {
+      const [cached, savedDrafts] = await Promise.all([
+        getAllCachedRecipients(userId),
+        getBillDrafts(userId),
+      ]);
+      setRecipients(cached.filter((recipient) => recipient.user_id !== userId));
+      setDrafts(savedDrafts);
+    } catch (error) {
+      console.error("Error loading bill drafts:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadLocalData();
+    return onOfflineVaultChange(loadLocalData);
+  }, [loadLocalData]);
+
+  const fetchBills = useCallback(async () => {
+    if (!userId || !navigator.onLine) {
+      setIsLoadingBills(false);
+      return;
+    }
+
+    setIsLoadingBills(true);
+    try {
+      const { error: expireError } = await supabase.rpc("expire_payment_requests");
+      if (expireError) console.error("Error expiring payment requests:", expireError);
+
+      const { data, error } = await supabase.rpc("get_bill_splits");
+      if (error) throw error;
+      setBills((data || []).map(toBillSplit));
+    } catch (error) {
+      console.error("Error fetching bills:", error);
+    } finally {
+      setIsLoadingBills(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchBills();
+  }, [fetchBills, isOnline]);
+
+  const currentDraft = (): BillDraft | null => {
+    if (!userId) return null;
+    return {
+      ownerId: userId,
+      id: draftId ?? crypto.randomUUID(),
+      title: title.trim(),
+      totalAmount: tryParseMoney(total) ?? ZERO_MONEY,
+      mode,
+      includeSelf,
+      participants: participants.map((participant) => ({
+        ...participant,
+        amount:
+          mode === "custom"
+            ? tryParseMoney(customAmounts[participant.paymentId] ?? "") ?? undefined
+            : undefined,
+      })),
+      updatedAt: Date.now(),
+    };
+  };
+
+  // Live preview of everyone's share; null until the bill can be split
+  const preview = useMemo((): BillShares | null => {
+    try {
+      return calculateShares({
+        totalAmount: tryParseMoney(total) ?? ZERO_MONEY,
+        mode,
+        includeSelf,
+        participants: participants.map((participant) => ({
+          ...participant,
+          amount: tryParseMoney(customAmounts[participant.paymentId] ?? "") ?? undefined,
+        })),
+      });
+    } catch {
+      return null;
+    }
+  }, [total, mode, includeSelf, participants, customAmounts]);
+
+  const resetForm = () => {
+    setDraftId(null);
+    setTitle("");
+    setTotal("");
+    setMode("equal");
+    setIncludeSelf(true);
+    setParticipants([]);
+    setCustomAmounts({});
+    setNewPaymentId("");
+  };
+
+  const loadDraft = (draft: BillDraft) => {
+    setDraftId(draft.id);
+    setTitle(draft.title);
+    setTotal(draft.totalAmount ? formatMoneyInput(draft.totalAmount) : "");
+    setMode(draft.mode);
+    setIncludeSelf(draft.includeSelf);
+    setParticipants(draft.participants);
+    setCustomAmounts(
+      Object.fromEntries(
+        draft.participants
+          .filter((participant) => participant.amount !== undefined)
+          .map((participant) => [participant.paymentId, formatMoneyInput(participant.amount!)])
+      )
+    );
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const addParticipant = (participant: BillDraftParticipant) => {
+    if (participants.some((existing) => existing.paymentId === participant.paymentId)) {
+      toast({ title: "Already on this bill", variant: "destructive" });
+      return;
+    }
+    if (participants.length >= MAX_BILL_PARTICIPANTS) {
+      toast({
+        title: `You can split with at most ${MAX_BILL_PARTICIPANTS} people`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setParticipants((current) => [...current, participant]);
+  };
+
+  const handleAddPaymentId = () => {
+    const paymentId = newPaymentId.trim().toUpperCase();
+    if (!PAYMENT_ID_PATTERN.test(paymentId)) {
+      toast({ title: "Enter a valid payment ID", variant: "destructive" });
+      return;
+    }
+    if (paymentId === profile?.payment_id) {
+      toast({ title: "Your own share is worked out for you", variant: "destructive" });
+      return;
+    }
+
+    const cached = recipients.find((recipient) => recipient.payment_id === paymentId);
+    addParticipant(
+      cached
+        ? { paymentId, userId: cached.user_id, displayName: cached.display_name }
+        : { paymentId }
+    );
+    setNewPaymentId("");
+  };
+
+  const handlePickRecipient = (recipientId: string) => {
+    const recipient = recipients.find((cached) => cached.id === recipientId);
+    if (!recipient) return;
+    addParticipant({
+      paymentId: recipient.payment_id,
+      userId: recipient.user_id,
+      displayName: recipient.display_name,
+    });
+  };
+
+  const removeParticipant = (paymentId: string) => {
+    setParticipants((current) =>
+      current.filter((participant) => participant.paymentId !== paymentId)
+    );
+  };
+
+  const handleSaveDraft = async () => {
+    const draft = currentDraft();
+    if (!draft) return;
+    if (!draft.title && participants.length === 0) {
+      toast({ title: "Nothing to save yet", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveBillDraft(draft);
+      setDraftId(saved.id);
+      toast({ title: "Draft saved", description: "Send it when you're back online" });
+      await loadLocalData();
+    } catch (error) {
+      console.error("Error saving bill draft:", error);
+      toast({ title: "Could not save draft", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const draft = currentDraft();
+    if (!draft) return;
+
+    setIsSending(true);
+    try {
+      // Surfaces input the draft quietly drops, such as a third decimal place
+      parseMoney(total);
+      if (mode === "custom") {
+        participants.forEach((participant) =>
+          parseMoney(customAmounts[participant.paymentId] ?? "")
+        );
+      }
+      await sendBillSplit(draft);
+      toast({
+        title: "Bill sent",
+        description: `Asked ${draft.participants.length} ${
+          draft.participants.length === 1 ? "person" : "people"
+        } for their share`,
+      });
+      resetForm();
+      await Promise.all([loadLocalData(), fetchBills()]);
+    } catch (error) {
+      console.error("Error sending bill:", error);
+      toast({
+        title: "Could not send bill",
+        description:
+          error instanceof BillSplitError || error instanceof MoneyError
+            ? error.message
+            : getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDeleteDraft = async (draft: BillDraft) => {
+    try {
+      await deleteBillDraft(draft.ownerId, draft.id);
+      if (draftId === draft.id) resetForm();
+      await loadLocalData();
+    } catch (error) {
+      console.error("Error deleting bill draft:", error);
+    }
+  };
+
+  const handleCloseBill = async (bill: BillSplit) => {
+    setBusyBillId(bill.id);
+    try {
+      const { error } = await supabase.rpc("close_bill_split", { _split_id: bill.id });
+      if (error) throw error;
+      toast({ title: "Bill closed", description: "Unpaid requests were cancelled" });
+    } catch (error) {
+      console.error("Error closing bill:", error);
+      toast({
+        title: "Could not close bill",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyBillId(null);
+      await fetchBills();
+    }
+  };
+
+  if (isAuthLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const availableRecipients = recipients.filter(
+    (recipient) =>
+      !participants.some((participant) => participant.paymentId === recipient.payment_id)
+  );
+
+  const renderBill = (bill: BillSplit) => {
+    const requested = sumMoney(bill.participants.map((participant) => participant.amount));
+    const collected = sumMoney(
+      bill.participants
+        .filter((participant) => participant.status === "paid")
+        .map((participant) => participant.amount)
+    );
+    const hasPending = bill.participants.some((participant) => participant.status === "pending");
+    const isSettled = bill.participants.every((participant) => participant.status === "paid");
+
+    return (
+      <Card key={bill.id}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{bill.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(bill.created_at), "dd MMM, hh:mm a")} ·{" "}
+                {formatMoney(bill.total_amount)} total
+                {bill.creator_share > 0 && ` · your share ${formatMoney(bill.creator_share)}`}
+              </p>
+            </div>
+            <Badge
+              variant={isSettled ? "default" : bill.closed_at ? "outline" : "secondary"}
+              className="shrink-0"
+            >
+              {isSettled ? "Settled" : bill.closed_at ? "Closed" : "Collecting"}
+            </Badge>
+          </div>
+
+          <div className="space-y-1">
+            <Progress value={requested > 0 ? (collected / requested) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">
+              {formatMoney(collected)} of {formatMoney(requested)} collected
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {bill.participants.map((participant) => (
+              <div key={participant.request_id} className="flex items-center justify-between gap-3">
+                <span className="text-sm truncate">
+                  {participant.display_name || participant.payment_id}
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm">{formatMoney(participant.amount)}</span>
+                  <Badge
+                    variant={PARTICIPANT_STATUS_VARIANTS[participant.status]}
+                    className="capitalize"
+                  >
+                    {participant.status}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {hasPending && !bill.closed_at && (
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={!isOnline || busyBillId === bill.id}
+              onClick={() => setClosingBill(bill)}
+            >
+              {busyBillId === bill.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Close Bill"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center gap-3 p-4 border-b safe-area-top">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="font-semibold text-lg">Split a Bill</h1>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto"
+          onClick={fetchBills}
+          disabled={isLoadingBills || !isOnline}
+        >
+          <RefreshCw className={`h-5 w-5 ${isLoadingBills ? "animate-spin" : ""}`} />
+        </Button>
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        {!isOnline && (
+          <Card className="border-warning bg-warning/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <WifiOff className="h-5 w-5 text-warning" />
+              <p className="text-sm">
+                You're offline. Save the bill as a draft and send it once you're connected.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{draftId ? "Edit Draft" : "New Bill"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="billTitle">What's it for?</Label>
+              <Input
+                id="billTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Dinner, trip, groceries..."
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billTotal">Bill total ({currencySymbol()})</Label>
+              <Input
+                id="billTotal"
+                type="number"
+                value={total}
+                onChange={(e) => setTotal(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+
+            <Tabs value={mode} onValueChange={(value) => setMode(value as BillDraft["mode"])}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="equal">Split equally</TabsTrigger>
+                <TabsTrigger value="custom">Custom amounts</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {mode === "equal" && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="includeSelf">Include my share</Label>
+                <Switch id="includeSelf" checked={includeSelf} onCheckedChange={setIncludeSelf} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Split with</Label>
+              {vaultUnlocked && availableRecipients.length > 0 && (
+                <Select value="" onValueChange={handlePickRecipient}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick someone you've paid before" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableRecipients.map((recipient) => (
+                      <SelectItem key={recipient.id} value={recipient.id}>
+                        {recipient.display_name || recipient.payment_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  value={newPaymentId}
+                  onChange={(e) => setNewPaymentId(e.target.value.toUpperCase())}
+                  placeholder="OP12345678"
+                  className="flex-1 font-mono"
+                />
+                <Button variant="outline" onClick={handleAddPaymentId}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {participants.length > 0 && (
+              <div className="space-y-2">
+                {participants.map((participant, i) => (
+                  <div key={participant.paymentId} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{participantLabel(participant)}</p>
+                      {participant.displayName && (
+                        <p className="text-xs text-muted-foreground font-mono">
+                          {participant.paymentId}
+                        </p>
+                      )}
+                    </div>
+                    {mode === "custom" ? (
+                      <Input
+                        type="number"
+                        value={customAmounts[participant.paymentId] ?? ""}
+                        onChange={(e) =>
+                          setCustomAmounts((current) => ({
+                            ...current,
+                            [participant.paymentId]: e.target.value,
+                          }))
+                        }
+                        placeholder="0.00"
+                        className="w-28"
+                      />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        {preview ? formatMoney(preview.participantShares[i]) : "—"}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeParticipant(participant.paymentId)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {preview && (
+                  <p className="text-xs text-muted-foreground">
+                    Your share: {formatMoney(preview.ownShare)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={handleSaveDraft}
+                disabled={isSaving || !vaultUnlocked}
+              >
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Draft
+                  </>
+                )}
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleSend}
+                disabled={isSending || !isOnline || !preview}
+              >
+                {isSending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Send className="h-4 w-4 mr-2" />
+                    Send Requests
+                  </>
+                )}
+              </Button>
+            </div>
+            {!vaultUnlocked && (
+              <p className="text-xs text-muted-foreground text-center">
+                Unlock offline payments to save drafts and pick from people you've paid before
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {drafts.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-medium text-muted-foreground">Drafts</h2>
+            {drafts.map((draft) => (
+              <Card key={draft.id}>
+                <CardContent className="p-4 flex items-center gap-3">
+                  <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                  <button className="flex-1 min-w-0 text-left" onClick={() => loadDraft(draft)}>
+                    <p className="text-sm font-medium truncate">{draft.title || "Untitled bill"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatMoney(draft.totalAmount)} · {draft.participants.length}{" "}
+                      {draft.participants.length === 1 ? "person" : "people"} · saved{" "}
+                      {format(new Date(draft.updatedAt), "dd MMM, hh:mm a")}
+                    </p>
+                  </button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteDraft(draft)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium text-muted-foreground">Your Bills</h2>
+          {isLoadingBills ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : bills.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>{isOnline ? "You haven't split a bill yet" : "Connect to see your bills"}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">{bills.map(renderBill)}</div>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={!!closingBill} onOpenChange={(open) => !open && setClosingBill(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close this bill?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone who hasn't paid yet will have their request cancelled. Payments already
+              made are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Collecting</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (closingBill) handleCloseBill(closingBill);
+                setClosingBill(null);
+              }}
+            >
+              Close Bill
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
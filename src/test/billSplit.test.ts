@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { BillSplitError, calculateShares } from "@/lib/billSplit";
+import { paise } from "@/lib/money";
+
+const participants = [{ paymentId: "OPAAAA1111" }, { paymentId: "OPBBBB2222" }];
+
+describe("calculateShares", () => {
+  it("asks the others for the extra paisa of an equal split", () => {
+    expect(
+      calculateShares({ totalAmount: paise(1000), mode: "equal", includeSelf: true, participants })
+    ).toEqual({ participantShares: [334, 333], ownShare: 333 });
+  });
+
+  it("splits the whole bill between the others when the creator is left out", () => {
+    expect(
+      calculateShares({ totalAmount: paise(1001), mode: "equal", includeSelf: false, participants })
+    ).toEqual({ participantShares: [501, 500], ownShare: 0 });
+  });
+
+  it("leaves the creator whatever a custom split does not cover", () => {
+    expect(
+      calculateShares({
+        totalAmount: paise(10000),
+        mode: "custom",
+        includeSelf: false,
+        participants: [
+          { ...participants[0], amount: paise(2500) },
+          { ...participants[1], amount: paise(4000) },
+        ],
+      })
+    ).toEqual({ participantShares: [2500, 4000], ownShare: 3500 });
+  });
+
+  it("rejects custom shares that add up to more than the bill", () => {
+    expect(() =>
+      calculateShares({
+        totalAmount: paise(5000),
+        mode: "custom",
+        includeSelf: false,
+        participants: [
+          { ...participants[0], amount: paise(3000) },
+          { ...participants[1], amount: paise(3000) },
+        ],
+      })
+    ).toThrow(BillSplitError);
+  });
+
+  it("rejects a custom split with a share missing", () => {
+    expect(() =>
+      calculateShares({
+        totalAmount: paise(5000),
+        mode: "custom",
+        includeSelf: false,
+        participants: [{ ...participants[0], amount: paise(3000) }, participants[1]],
+      })
+    ).toThrow("Enter an amount for everyone");
+  });
+});
@@ -0,0 +1,109 @@
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+
+// Runs supabase/migrations against an in-process Postgres so the SQL functions can be
+// tested directly. Only the parts of Supabase the migrations rely on are stubbed: the
+// API roles, auth.users, and auth.uid()/auth.role() read from the request's JWT claims.
+
+const migrations = import.meta.glob<string>("/supabase/migrations/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const SUPABASE_STUB = `
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+CREATE SCHEMA auth;
+CREATE SCHEMA extensions;
+
+CREATE TABLE auth.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT,
+  encrypted_password TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+$$;
+
+CREATE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.role', true), '')
+$$;
+
+GRANT USAGE ON SCHEMA public, auth, extensions TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+`;
+
+export const TEST_PIN = "4821";
+
+// The caller a query runs as: a signed-in user, or the service role edge functions use
+type Caller = { userId: string } | "service_role";
+
+export interface TestDatabase {
+  // Runs as the database owner, bypassing grants and row level security
+  query<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  // Runs as the given caller, the way a request through the Supabase API would
+  queryAs<T>(caller: Caller, sql: string, params?: unknown[]): Promise<T[]>;
+  // A user with a verified phone, a PIN and an INR wallet holding the demo ₹1,000
+  createUser(phone: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+async function setCaller(tx: Transaction, caller: Caller) {
+  const role = caller === "service_role" ? "service_role" : "authenticated";
+  const userId = caller === "service_role" ? "" : caller.userId;
+  await tx.query(`SET LOCAL ROLE ${role}`);
+  await tx.query(
+    "SELECT set_config('request.jwt.claim.role', $1, true), set_config('request.jwt.claim.sub', $2, true)",
+    [role, userId]
+  );
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite({ extensions: { pgcrypto } });
+  await db.exec(SUPABASE_STUB);
+
+  for (const name of Object.keys(migrations).sort()) {
+    await db.exec(migrations[name]);
+  }
+
+  const query = async <T>(sql: string, params: unknown[] = []) =>
+    (await db.query<T>(sql, params)).rows;
+
+  const queryAs = <T>(caller: Caller, sql: string, params: unknown[] = []) =>
+    db.transaction(async (tx) => {
+      await setCaller(tx, caller);
+      return (await tx.query<T>(sql, params)).rows;
+    });
+
+  const createUser = async (phone: string) => {
+    const [{ id }] = await query<{ id: string }>(
+      "INSERT INTO auth.users (phone) VALUES ($1) RETURNING id",
+      [phone]
+    );
+
+    // Stands in for the otp edge function having verified the number
+    await query(
+      `INSERT INTO public.otp_codes (phone, purpose, code_hash, expires_at, verified_at)
+       VALUES ($1, 'signup', 'test', now() + INTERVAL '5 minutes', now())`,
+      [phone]
+    );
+    await query(
+      `INSERT INTO public.profiles (user_id, phone, payment_id)
+       VALUES ($1, $2, public.generate_payment_id())`,
+      [id, phone]
+    );
+
+    const user = { userId: id };
+    await queryAs(user, "SELECT public.open_wallet('INR')");
+    await queryAs(user, "SELECT public.create_pin($1)", [TEST_PIN]);
+    return id;
+  };
+
+  return { query, queryAs, createUser, close: () => db.close() };
+}
@@ -0,0 +1,84 @@
+// @vitest-environment node
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, TestDatabase } from "./database";
+
+interface LedgerEntry {
+  journal_id: string;
+  user_id: string | null;
+  account: string;
+  entry_type: string;
+  kind: string;
+  amount: string;
+}
+
+describe("ledger postings", () => {
+  let db: TestDatabase;
+  let sender: string;
+  let receiver: string;
+
+  const entriesFor = (transactionId: string) =>
+    db.query<LedgerEntry>(
+      `SELECT journal_id, user_id, account, entry_type, kind, amount
+       FROM public.ledger_entries WHERE transaction_id = $1 ORDER BY entry_type`,
+      [transactionId]
+    );
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    sender = await db.createUser("9000000021");
+    receiver = await db.createUser("9000000022");
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("journals each opening balance against the external account", async () => {
+    const entries = await db.query<LedgerEntry>(
+      `SELECT journal_id, user_id, account, entry_type, kind, amount
+       FROM public.ledger_entries WHERE kind = 'opening_balance' AND journal_id IN (
+         SELECT journal_id FROM public.ledger_entries WHERE user_id = $1
+       ) ORDER BY entry_type`,
+      [sender]
+    );
+
+    expect(entries).toMatchObject([
+      { user_id: null, account: "external", entry_type: "debit", amount: "1000.00" },
+      { user_id: sender, account: "wallet_balance", entry_type: "credit", amount: "1000.00" },
+    ]);
+  });
+
+  it("posts a transfer as one debit and one credit of the same amount", async () => {
+    const [{ id }] = await db.queryAs<{ id: string }>(
+      { userId: sender },
+      "SELECT public.process_transaction($1, $2, 250.50) AS id",
+      [sender, receiver]
+    );
+
+    const [debit, credit] = await entriesFor(id);
+    expect(debit).toMatchObject({ user_id: sender, account: "wallet_balance", amount: "250.50" });
+    expect(credit).toMatchObject({ user_id: receiver, account: "wallet_balance", amount: "250.50" });
+    expect(credit.journal_id).toBe(debit.journal_id);
+  });
+
+  it("keeps wallet balances equal to the sum of their entries", async () => {
+    await db.queryAs({ userId: sender }, "SELECT public.load_offline_purse(100)");
+    await db.queryAs({ userId: receiver }, "SELECT public.process_transaction($1, $2, 40)", [
+      receiver,
+      sender,
+    ]);
+
+    const drift = await db.queryAs<{ drift: string }>(
+      "service_role",
+      "SELECT drift FROM public.reconcile_wallet_balances() WHERE drift <> 0"
+    );
+    expect(drift).toEqual([]);
+  });
+
+  it("rejects balance changes that bypass the ledger", async () => {
+    await expect(
+      db.query("UPDATE public.wallets SET balance = balance + 1 WHERE user_id = $1", [sender])
+    ).rejects.toMatchObject({ hint: "ledger_bypass" });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  Money,
+  MoneyError,
+  formatMoney,
+  paise,
+  parseMoney,
+  splitMoney,
+  sumMoney,
+} from "@/lib/money";
+
+describe("parseMoney", () => {
+  it("reads whole and fractional rupees as paise", () => {
+    expect(parseMoney("1250")).toBe(125000);
+    expect(parseMoney("99.5")).toBe(9950);
+    expect(parseMoney("0.01")).toBe(1);
+  });
+
+  it("ignores thousands separators", () => {
+    expect(parseMoney("1,250")).toBe(125000);
+    expect(parseMoney("1,00,000.75")).toBe(10000075);
+  });
+
+  it("accepts an amount with no whole part", () => {
+    expect(parseMoney(".5")).toBe(50);
+  });
+
+  it("rejects more than two decimal places", () => {
+    expect(() => parseMoney("1.234")).toThrow(MoneyError);
+  });
+
+  it("rejects amounts too large to count exactly", () => {
+    expect(() => parseMoney("900719925474099.99")).toThrow("That amount is too large");
+  });
+
+  it("rejects text that is not a plain amount", () => {
+    expect(() => parseMoney("")).toThrow(MoneyError);
+    expect(() => parseMoney(".")).toThrow(MoneyError);
+    expect(() => parseMoney("-5")).toThrow(MoneyError);
+    expect(() => parseMoney("1e3")).toThrow(MoneyError);
+  });
+});
+
+describe("splitMoney", () => {
+  it("gives the leftover paise to the first parts", () => {
+    expect(splitMoney(paise(1000), 3)).toEqual([334, 333, 333]);
+    expect(splitMoney(paise(1001), 4)).toEqual([251, 250, 250, 250]);
+  });
+
+  it("always adds back up to the total", () => {
+    const total = paise(123457);
+    expect(sumMoney(splitMoney(total, 7))).toBe(total);
+  });
+});
+
+describe("formatMoney", () => {
+  it("shows minor units only when there are some", () => {
+    expect(formatMoney(paise(125000))).toBe("₹1,250");
+    expect(formatMoney(paise(9950))).toBe("₹99.50");
+  });
+
+  it("uses the symbol of another currency", () => {
+    expect(formatMoney(1275 as Money, "USD")).toBe("$12.75");
+  });
+});
@@ -0,0 +1,94 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addOfflineDataRecovery,
+  addPendingTransaction,
+  adjustOfflinePurse,
+  getAllOfflineTransactions,
+  getOfflinePurse,
+  lockOfflineData,
+  recoverOfflineData,
+  resetOfflineData,
+  setOfflineSetting,
+  unlockOfflineData,
+} from "@/lib/offlineDb";
+import {
+  deriveVaultKey,
+  generateRecoveryKey,
+  generateVaultSalt,
+  sealWithKey,
+} from "@/lib/offlineVault";
+import { fromDecimal } from "@/lib/money";
+
+const OLD_PIN = "1111";
+const NEW_PIN = "2222";
+
+describe("offline vault after a PIN reset", () => {
+  let userId: string;
+
+  // Queues a voucher with the old PIN and locks the vault, as at sign-out
+  const queueVoucherAndLock = async () => {
+    expect(await unlockOfflineData(userId, OLD_PIN)).toBe(true);
+    await adjustOfflinePurse(userId, fromDecimal(500));
+    const tx = await addPendingTransaction({
+      senderId: userId,
+      receiverId: crypto.randomUUID(),
+      amount: fromDecimal(200),
+    });
+    lockOfflineData();
+    return tx;
+  };
+
+  beforeEach(() => {
+    userId = crypto.randomUUID();
+  });
+
+  it("re-keys the vault with the recovery key so the new PIN unlocks the queue", async () => {
+    const recoveryKey = generateRecoveryKey();
+    const tx = await queueVoucherAndLock();
+    expect(await addOfflineDataRecovery(userId, OLD_PIN, recoveryKey)).toBe(true);
+
+    expect(await recoverOfflineData(userId, recoveryKey, NEW_PIN)).toBe(true);
+
+    expect(await unlockOfflineData(userId, OLD_PIN)).toBe(false);
+    expect(await unlockOfflineData(userId, NEW_PIN)).toBe(true);
+    expect(await getAllOfflineTransactions(userId)).toEqual([tx]);
+  });
+
+  it("does not recover with the wrong recovery key", async () => {
+    await queueVoucherAndLock();
+    await addOfflineDataRecovery(userId, OLD_PIN, generateRecoveryKey());
+
+    expect(await recoverOfflineData(userId, generateRecoveryKey(), NEW_PIN)).toBe(false);
+    expect(await unlockOfflineData(userId, NEW_PIN)).toBe(false);
+  });
+
+  it("writes off a vault without a recovery key and starts a new one for the new PIN", async () => {
+    await queueVoucherAndLock();
+    expect(await recoverOfflineData(userId, generateRecoveryKey(), NEW_PIN)).toBe(false);
+    expect(await unlockOfflineData(userId, NEW_PIN)).toBe(false);
+
+    expect(await resetOfflineData(userId, NEW_PIN)).toBe(1);
+
+    expect(await getAllOfflineTransactions(userId)).toEqual([]);
+    expect((await getOfflinePurse(userId)).balance).toBe(fromDecimal(300));
+    lockOfflineData();
+    expect(await unlockOfflineData(userId, NEW_PIN)).toBe(true);
+  });
+
+  it("moves a vault keyed by the PIN itself onto a data key that can be recovered", async () => {
+    const salt = generateVaultSalt();
+    const key = await deriveVaultKey(OLD_PIN, salt);
+    await setOfflineSetting(`vault:${userId}`, {
+      salt,
+      check: await sealWithKey(key, "offlinepay-vault"),
+    });
+    const tx = await queueVoucherAndLock();
+
+    const recoveryKey = generateRecoveryKey();
+    expect(await addOfflineDataRecovery(userId, OLD_PIN, recoveryKey)).toBe(true);
+    expect(await recoverOfflineData(userId, recoveryKey, NEW_PIN)).toBe(true);
+    expect(await unlockOfflineData(userId, NEW_PIN)).toBe(true);
+    expect(await getAllOfflineTransactions(userId)).toEqual([tx]);
+  });
+});
@@ -0,0 +1,129 @@
+// @vitest-environment node
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, TestDatabase } from "./database";
+
+interface OtpIssue {
+  issued: boolean;
+  error_code: string | null;
+  retry_at: Date | null;
+}
+
+interface OtpCheck {
+  verified: boolean;
+  error_code: string | null;
+  remaining_attempts: number;
+}
+
+describe("one-time codes", () => {
+  let db: TestDatabase;
+
+  const issue = async (phone: string, clientIp = "203.0.113.1", codeHash = "right") => {
+    const [result] = await db.queryAs<OtpIssue>(
+      "service_role",
+      "SELECT * FROM public.issue_otp($1, 'signup', $2, $3)",
+      [phone, codeHash, clientIp]
+    );
+    return result;
+  };
+
+  const check = async (phone: string, codeHash: string) => {
+    const [result] = await db.queryAs<OtpCheck>(
+      "service_role",
+      "SELECT * FROM public.check_otp($1, 'signup', $2)",
+      [phone, codeHash]
+    );
+    return result;
+  };
+
+  // Backdates every code sent so far, as if that much time had passed
+  const advance = (interval: string) =>
+    db.query(`UPDATE public.otp_codes SET created_at = created_at - $1::INTERVAL`, [interval]);
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("sends a phone at most one code a minute", async () => {
+    expect(await issue("9000000041")).toMatchObject({ issued: true });
+    const again = await issue("9000000041");
+    expect(again).toMatchObject({ issued: false, error_code: "otp_rate_limited" });
+    expect(again.retry_at).not.toBeNull();
+
+    await advance("61 seconds");
+    expect(await issue("9000000041")).toMatchObject({ issued: true });
+  });
+
+  it("sends a phone at most five codes an hour", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await issue("9000000042", "203.0.113.2")).toMatchObject({ issued: true });
+      await advance("2 minutes");
+    }
+
+    expect(await issue("9000000042", "203.0.113.2")).toMatchObject({
+      issued: false,
+      error_code: "otp_rate_limited",
+    });
+  });
+
+  it("sends one address at most twenty codes an hour", async () => {
+    for (let i = 0; i < 20; i++) {
+      expect(await issue(`91000000${String(i).padStart(2, "0")}`, "198.51.100.7")).toMatchObject({
+        issued: true,
+      });
+    }
+
+    expect(await issue("9100000099", "198.51.100.7")).toMatchObject({
+      issued: false,
+      error_code: "otp_rate_limited",
+    });
+    expect(await issue("9100000099", "198.51.100.8")).toMatchObject({ issued: true });
+  });
+
+  it("burns a code after five wrong guesses", async () => {
+    await issue("9000000043", "203.0.113.3");
+
+    for (let remaining = 4; remaining > 0; remaining--) {
+      expect(await check("9000000043", "wrong")).toMatchObject({
+        error_code: "otp_invalid",
+        remaining_attempts: remaining,
+      });
+    }
+    expect(await check("9000000043", "wrong")).toMatchObject({
+      error_code: "otp_attempts_exceeded",
+    });
+    expect(await check("9000000043", "right")).toMatchObject({
+      verified: false,
+      error_code: "otp_expired",
+    });
+  });
+
+  it("accepts the right code once", async () => {
+    await issue("9000000044", "203.0.113.4");
+
+    expect(await check("9000000044", "right")).toMatchObject({ verified: true });
+    expect(await check("9000000044", "right")).toMatchObject({
+      verified: false,
+      error_code: "otp_expired",
+    });
+  });
+
+  it("lets a user save a vault recovery key but not read one back", async () => {
+    const userId = await db.createUser("9000000045");
+    await db.queryAs({ userId }, "SELECT public.save_vault_recovery_key('device-1', 'key-1')");
+    await db.queryAs({ userId }, "SELECT public.save_vault_recovery_key('device-1', 'key-2')");
+
+    expect(
+      await db.queryAs({ userId }, "SELECT recovery_key FROM public.vault_recovery_keys")
+    ).toEqual([]);
+    expect(
+      await db.query("SELECT recovery_key FROM public.vault_recovery_keys WHERE user_id = $1", [
+        userId,
+      ])
+    ).toEqual([{ recovery_key: "key-2" }]);
+  });
+});
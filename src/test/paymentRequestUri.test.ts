@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { paise } from "@/lib/money";
+import {
+  PaymentRequest,
+  PaymentRequestError,
+  buildPaymentRequestUri,
+  parsePaymentRequestUri,
+} from "@/lib/paymentRequestUri";
+
+const request: PaymentRequest = {
+  paymentId: "OP12345678",
+  amount: paise(25050),
+  note: "Lunch & coffee",
+  reference: "INV-42",
+  expiresAt: Date.UTC(2099, 0, 1),
+};
+
+describe("payment request URIs", () => {
+  it("round-trips a request through its checksummed URI", async () => {
+    const uri = await buildPaymentRequestUri(request);
+    expect(uri).toMatch(/&cs=[0-9a-f]{8}$/);
+    await expect(parsePaymentRequestUri(uri)).resolves.toEqual(request);
+  });
+
+  it("rejects a URI whose fields no longer match the checksum", async () => {
+    const uri = await buildPaymentRequestUri(request);
+    await expect(parsePaymentRequestUri(uri.replace("am=250.50", "am=950.50"))).rejects.toThrow(
+      PaymentRequestError
+    );
+  });
+
+  it("accepts a URI built without a checksum", async () => {
+    const uri = await buildPaymentRequestUri(request, { withChecksum: false });
+    await expect(parsePaymentRequestUri(uri)).resolves.toEqual(request);
+  });
+});
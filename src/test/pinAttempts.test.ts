@@ -0,0 +1,102 @@
+// @vitest-environment node
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, TestDatabase, TEST_PIN } from "./database";
+
+interface PinAttempt {
+  verified: boolean;
+  error_code: string | null;
+  remaining_attempts: number;
+  retry_at: Date | null;
+  locked_now: boolean;
+}
+
+describe("attempt_pin", () => {
+  let db: TestDatabase;
+  const users = new Map<string, string>();
+
+  const attempt = async (phone: string, deviceId: string, pin: string) => {
+    const [result] = await db.queryAs<PinAttempt>(
+      "service_role",
+      "SELECT * FROM public.attempt_pin($1, $2, $3, $4)",
+      [users.get(phone) ?? null, phone, deviceId, pin]
+    );
+    return result;
+  };
+
+  // Moves past the wait between attempts without waiting for real
+  const skipDelay = () =>
+    db.query("UPDATE public.pin_attempts SET last_failed_at = last_failed_at - INTERVAL '1 hour'");
+
+  const failTimes = async (phone: string, deviceId: string, count: number) => {
+    let result: PinAttempt | undefined;
+    for (let i = 0; i < count; i++) {
+      await skipDelay();
+      result = await attempt(phone, deviceId, "0000");
+    }
+    return result;
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    for (const phone of ["9000000031", "9000000032", "9000000033", "9000000034"]) {
+      users.set(phone, await db.createUser(phone));
+    }
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("verifies the right PIN", async () => {
+    expect(await attempt("9000000031", "device-a", TEST_PIN)).toMatchObject({
+      verified: true,
+      error_code: null,
+    });
+  });
+
+  it("makes the caller wait after the third failure", async () => {
+    const third = await failTimes("9000000032", "device-b", 3);
+    expect(third).toMatchObject({ error_code: "incorrect_pin", remaining_attempts: 2 });
+    expect(third?.retry_at).not.toBeNull();
+
+    // Not counted: the right PIN is refused until the wait is over
+    expect(await attempt("9000000032", "device-b", TEST_PIN)).toMatchObject({
+      verified: false,
+      error_code: "pin_throttled",
+      remaining_attempts: 2,
+    });
+  });
+
+  it("locks the phone and device after five failures, even for the right PIN", async () => {
+    const fifth = await failTimes("9000000033", "device-c", 5);
+    expect(fifth).toMatchObject({ error_code: "pin_locked", remaining_attempts: 0, locked_now: true });
+
+    await skipDelay();
+    expect(await attempt("9000000033", "device-c", TEST_PIN)).toMatchObject({
+      verified: false,
+      error_code: "pin_locked",
+    });
+
+    // Another account on the locked device is refused too
+    expect(await attempt("9000000034", "device-c", TEST_PIN)).toMatchObject({
+      verified: false,
+      error_code: "pin_locked",
+    });
+  });
+
+  it("counts guesses against unknown phone numbers", async () => {
+    const result = await attempt("9000000099", "device-d", TEST_PIN);
+    expect(result).toMatchObject({ verified: false, error_code: "incorrect_pin", remaining_attempts: 4 });
+  });
+
+  it("cannot be called by signed-in users", async () => {
+    const userId = users.get("9000000031");
+    await expect(
+      db.queryAs({ userId }, "SELECT * FROM public.attempt_pin($1, '9000000031', 'device-a', $2)", [
+        userId,
+        TEST_PIN,
+      ])
+    ).rejects.toThrow(/permission denied/);
+  });
+});
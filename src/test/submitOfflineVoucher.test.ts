@@ -0,0 +1,115 @@
+// @vitest-environment node
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, TestDatabase } from "./database";
+
+interface Submission {
+  transaction_id: string;
+  replayed: boolean;
+}
+
+interface VoucherOptions {
+  amount?: number;
+  deviceId?: string;
+  timestamp?: Date;
+  signedAt?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+describe("submit_offline_voucher", () => {
+  let db: TestDatabase;
+  let sender: string;
+  let receiver: string;
+
+  const submit = (
+    hash: string,
+    { amount = 100, deviceId = "device-1", timestamp = new Date(), signedAt }: VoucherOptions = {}
+  ) =>
+    db.queryAs<Submission>(
+      "service_role",
+      `SELECT * FROM public.submit_offline_voucher($1, $2, $3, $4, $5, 'signature', $6, NULL, $7)`,
+      [sender, receiver, amount, hash, deviceId, timestamp, signedAt ?? null]
+    );
+
+  const balanceOf = async (userId: string) => {
+    const [wallet] = await db.query<{ balance: string }>(
+      "SELECT balance FROM public.wallets WHERE user_id = $1 AND currency = 'INR'",
+      [userId]
+    );
+    return Number(wallet.balance);
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    sender = await db.createUser("9000000001");
+    receiver = await db.createUser("9000000002");
+    for (const deviceId of ["device-1", "device-2"]) {
+      await db.queryAs({ userId: sender }, "SELECT public.register_device_key($1, $2)", [
+        deviceId,
+        { kty: "EC", crv: "P-256", x: deviceId, y: deviceId },
+      ]);
+    }
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("returns the first settlement when a voucher is replayed", async () => {
+    const [first] = await submit("hash-replay");
+    const [replay] = await submit("hash-replay");
+
+    expect(first.replayed).toBe(false);
+    expect(replay).toEqual({ transaction_id: first.transaction_id, replayed: true });
+    expect(await balanceOf(sender)).toBe(900);
+    expect(await balanceOf(receiver)).toBe(1100);
+
+    const settled = await db.query(
+      "SELECT id FROM public.transactions WHERE transaction_hash = 'hash-replay' AND status = 'completed'"
+    );
+    expect(settled).toHaveLength(1);
+  });
+
+  it("settles the same hash from another device as a separate payment", async () => {
+    const [first] = await submit("hash-shared", { amount: 50, deviceId: "device-1" });
+    const [second] = await submit("hash-shared", { amount: 50, deviceId: "device-2" });
+
+    expect(second.replayed).toBe(false);
+    expect(second.transaction_id).not.toBe(first.transaction_id);
+  });
+
+  it("rejects a voucher dated before its device key was registered", async () => {
+    const timestamp = new Date(Date.now() - 10 * MINUTE_MS);
+
+    await expect(submit("hash-backdated", { timestamp })).rejects.toMatchObject({
+      hint: "malformed_voucher",
+    });
+  });
+
+  it("settles a voucher queued before signing existed by when it was signed", async () => {
+    const timestamp = new Date(Date.now() - 10 * MINUTE_MS);
+
+    const [result] = await submit("hash-legacy", { timestamp, signedAt: new Date() });
+
+    expect(result.replayed).toBe(false);
+  });
+
+  it("rejects a voucher older than 72 hours even if it was signed recently", async () => {
+    const timestamp = new Date(Date.now() - 73 * 60 * MINUTE_MS);
+
+    await expect(
+      submit("hash-expired", { timestamp, signedAt: new Date() })
+    ).rejects.toMatchObject({ hint: "voucher_expired" });
+  });
+
+  it("cannot be called by signed-in users", async () => {
+    await expect(
+      db.queryAs(
+        { userId: sender },
+        `SELECT * FROM public.submit_offline_voucher($1, $2, 10, 'hash-client', 'device-1', 'signature', now())`,
+        [sender, receiver]
+      )
+    ).rejects.toThrow(/permission denied/);
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { getRetryDelay } from "@/lib/syncEngine";
+
+describe("getRetryDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("doubles with each retry", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(getRetryDelay(0)).toBe(5000);
+    expect(getRetryDelay(1)).toBe(10000);
+    expect(getRetryDelay(3)).toBe(40000);
+  });
+
+  it("never waits longer than 30 minutes", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(getRetryDelay(20)).toBe(30 * 60 * 1000);
+    expect(getRetryDelay(1000)).toBe(30 * 60 * 1000);
+  });
+
+  it("jitters down to half the delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getRetryDelay(20)).toBe(15 * 60 * 1000);
+  });
+});
@@ -0,0 +1,94 @@
+// @vitest-environment node
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, TestDatabase } from "./database";
+
+interface BatchResult {
+  voucher_id: string;
+  status: string;
+  transaction_id: string | null;
+  error_code: string | null;
+}
+
+describe("sync_offline_batch", () => {
+  let db: TestDatabase;
+  let sender: string;
+  let receiver: string;
+
+  const voucher = (id: string, amount: number, timestamp: number, receiverId = receiver) => ({
+    id,
+    sender_id: sender,
+    receiver_id: receiverId,
+    amount,
+    description: null,
+    hash: `hash-${id}`,
+    device_id: "device-1",
+    signature: "signature",
+    timestamp,
+  });
+
+  const syncBatch = async (vouchers: ReturnType<typeof voucher>[]) => {
+    const rows = await db.queryAs<BatchResult>(
+      "service_role",
+      "SELECT * FROM public.sync_offline_batch($1)",
+      [JSON.stringify(vouchers)]
+    );
+    return new Map(rows.map((row) => [row.voucher_id, row]));
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+    sender = await db.createUser("9000000011");
+    receiver = await db.createUser("9000000012");
+    await db.queryAs({ userId: sender }, "SELECT public.register_device_key('device-1', $1)", [
+      { kty: "EC", crv: "P-256", x: "x", y: "y" },
+    ]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("settles vouchers oldest first whatever order they arrive in", async () => {
+    const now = Date.now();
+    const results = await syncBatch([
+      voucher("later", 500, now - 1000),
+      voucher("earlier", 700, now - 2000),
+    ]);
+
+    expect(results.get("earlier")?.status).toBe("settled");
+    expect(results.get("later")).toMatchObject({
+      status: "insufficient_funds",
+      transaction_id: null,
+      error_code: "insufficient_balance",
+    });
+  });
+
+  it("keeps earlier settlements when a later voucher is rejected", async () => {
+    const now = Date.now();
+    const results = await syncBatch([
+      voucher("good", 10, now - 2000),
+      voucher("self", 10, now - 1000, sender),
+    ]);
+
+    expect(results.get("good")?.status).toBe("settled");
+    expect(results.get("self")).toMatchObject({ status: "rejected", error_code: "self_transfer" });
+
+    const settled = await db.query(
+      "SELECT id FROM public.transactions WHERE transaction_hash = 'hash-good'"
+    );
+    expect(settled).toHaveLength(1);
+  });
+
+  it("reports a voucher settled by an earlier batch as a duplicate", async () => {
+    const [settled] = await db.query<{ id: string }>(
+      "SELECT id FROM public.transactions WHERE transaction_hash = 'hash-earlier'"
+    );
+    const results = await syncBatch([voucher("earlier", 700, Date.now() - 2000)]);
+
+    expect(results.get("earlier")).toMatchObject({
+      status: "duplicate",
+      transaction_id: settled.id,
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// The Supabase Auth password of an account is keyed by a server-only secret, so it cannot
+// be worked out from a guessed PIN and signing in has to go through pin-auth, where
+// attempts are counted. Passwords set before this were scrambled by the pin_attempts
+// migration and are re-keyed by pin-auth on the next login. Set PIN_PASSWORD_SECRET in the
+// function secrets.
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function accountPassword(userId: string, pin: string): Promise<string> {
+  const secret = Deno.env.get("PIN_PASSWORD_SECRET");
+  if (!secret) {
+    throw new Error("PIN_PASSWORD_SECRET is not set");
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${userId}:${pin}`));
+  return toHex(mac);
+}
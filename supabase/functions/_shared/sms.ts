@@ -0,0 +1,61 @@
+// Outgoing SMS behind a small interface so the gateway can be swapped. SMS_PROVIDER must
+// name one: "console" only logs the message, for development; "twilio" needs
+// TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER. There is no default, so a
+// deployment without it refuses to issue codes rather than logging them.
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+const consoleProvider: SmsProvider = {
+  name: "console",
+  send(to, message) {
+    console.log(`[sms:console] to ${to}: ${message}`);
+    return Promise.resolve();
+  },
+};
+
+function twilioProvider(): SmsProvider {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM_NUMBER");
+  if (!accountSid || !authToken || !from) {
+    throw new Error("Twilio SMS provider is not configured");
+  }
+
+  return {
+    name: "twilio",
+    async send(to, message) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: to, From: from, Body: message }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`Twilio rejected the message: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function getSmsProvider(): SmsProvider {
+  const provider = Deno.env.get("SMS_PROVIDER");
+  switch (provider) {
+    case "console":
+      return consoleProvider;
+    case "twilio":
+      return twilioProvider();
+    case undefined:
+    case "":
+      throw new Error("SMS_PROVIDER is not set");
+    default:
+      throw new Error(`Unknown SMS provider: ${provider}`);
+  }
+}
@@ -0,0 +1,92 @@
+// Server-side counterpart of src/lib/voucherCrypto.ts - keep the payload layout identical
+
+const SIGNING_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const;
+
+export const VOUCHER_VERSION = 1;
+
+export interface SignedVoucher {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  amount: number;
+  timestamp: number;
+  deviceId: string;
+  description?: string;
+  // Only on vouchers queued before signing existed and signed when they were synced
+  signedAt?: number;
+  hash: string;
+  signature: string;
+}
+
+export function serializeVoucher(voucher: SignedVoucher): string {
+  return JSON.stringify([
+    VOUCHER_VERSION,
+    voucher.id,
+    voucher.senderId,
+    voucher.receiverId,
+    voucher.amount,
+    voucher.timestamp,
+    voucher.deviceId,
+    voucher.description ?? null,
+    ...(voucher.signedAt === undefined ? [] : [voucher.signedAt]),
+  ]);
+}
+
+export function isSignedVoucher(value: unknown): value is SignedVoucher {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.id === "string" &&
+    typeof v.senderId === "string" &&
+    typeof v.receiverId === "string" &&
+    typeof v.amount === "number" &&
+    typeof v.timestamp === "number" &&
+    typeof v.deviceId === "string" &&
+    typeof v.hash === "string" &&
+    typeof v.signature === "string" &&
+    (v.signedAt === undefined || typeof v.signedAt === "number") &&
+    (v.description === undefined || v.description === null || typeof v.description === "string")
+  );
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function sha256Hex(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Checks both the content hash and the ECDSA signature against the registered device key
+export async function verifyVoucher(voucher: SignedVoucher, publicKeyJwk: JsonWebKey): Promise<boolean> {
+  const payload = serializeVoucher(voucher);
+
+  if ((await sha256Hex(payload)) !== voucher.hash) {
+    return false;
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey("jwk", publicKeyJwk, SIGNING_ALGORITHM, false, [
+      "verify",
+    ]);
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64Url(voucher.signature),
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
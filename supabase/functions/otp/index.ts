@@ -0,0 +1,255 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { accountPassword } from "../_shared/pinPassword.ts";
+import { getSmsProvider } from "../_shared/sms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PHONE_PATTERN = /^\d{10}$/;
+const CODE_PATTERN = /^\d{6}$/;
+const PIN_PATTERN = /^\d{4}$/;
+const PURPOSES = ["signup", "reset_pin"];
+const RESEND_AFTER_MS = 60 * 1000;
+
+interface IssueResult {
+  issued: boolean;
+  error_code: string | null;
+  retry_at: string | null;
+  expires_at: string | null;
+}
+
+interface CheckResult {
+  verified: boolean;
+  error_code: "otp_expired" | "otp_invalid" | "otp_attempts_exceeded" | null;
+  remaining_attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// The first address in X-Forwarded-For is the caller as seen by the Supabase gateway
+function clientIp(req: Request): string | null {
+  return req.headers.get("x-forwarded-for")?.split(",")[0].trim() || null;
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (value % 1000000).toString().padStart(6, "0");
+}
+
+// Codes are stored as an HMAC keyed by OTP_SECRET, so a leaked table reveals nothing
+async function hashCode(phone: string, purpose: string, code: string): Promise<string> {
+  const secret = Deno.env.get("OTP_SECRET");
+  if (!secret) {
+    throw new Error("OTP_SECRET is not set");
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${phone}:${purpose}:${code}`)
+  );
+  return Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function otpRejection(result: CheckResult) {
+  const messages = {
+    otp_expired: "This code has expired. Request a new one.",
+    otp_invalid: "Incorrect code",
+    otp_attempts_exceeded: "Too many incorrect codes. Request a new one.",
+  };
+  const code = result.error_code ?? "otp_invalid";
+  return jsonResponse(
+    { error: messages[code], code, remaining_attempts: result.remaining_attempts },
+    401
+  );
+}
+
+// Phone verification codes. Actions:
+//   send      - { phone, purpose } texts a 6-digit code valid for 5 minutes
+//   verify    - { phone, code } confirms a signup code; the profile insert checks for it
+//   reset_pin - { phone, code, new_pin, device_id } sets a new PIN for a forgotten one and
+//               returns the key that re-opens that device's offline vault, if it saved one
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const { action, phone, purpose, code, new_pin, device_id } = await req.json();
+
+    if (typeof phone !== "string" || !PHONE_PATTERN.test(phone)) {
+      return jsonResponse({ error: "Enter a valid 10-digit phone number" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("phone", phone)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error("Error fetching profile:", profileError);
+      return jsonResponse({ error: "Failed to look up phone number" }, 500);
+    }
+
+    if (action === "send") {
+      if (!PURPOSES.includes(purpose)) {
+        return jsonResponse({ error: "Unknown purpose" }, 400);
+      }
+      if (purpose === "signup" && profile) {
+        return jsonResponse(
+          { error: "This phone number is already registered", code: "phone_taken" },
+          409
+        );
+      }
+
+      // Checked before a code is recorded, so a missing provider does not use up the limits
+      const sms = getSmsProvider();
+      const otp = generateCode();
+      const { data: issued, error: issueError } = await supabase.rpc("issue_otp", {
+        _phone: phone,
+        _purpose: purpose,
+        _code_hash: await hashCode(phone, purpose, otp),
+        _client_ip: clientIp(req),
+      });
+
+      if (issueError) {
+        console.error("Error issuing code:", issueError);
+        return jsonResponse({ error: "Failed to issue code" }, 500);
+      }
+
+      const result = (issued as IssueResult[])[0];
+      if (!result.issued) {
+        return jsonResponse(
+          { error: "Too many codes requested", code: result.error_code, retry_at: result.retry_at },
+          429
+        );
+      }
+
+      // Resetting an unknown number looks the same to the caller, but nothing is sent
+      if (purpose === "signup" || profile) {
+        try {
+          await sms.send(
+            `+91${phone}`,
+            `${otp} is your OfflinePay verification code. It expires in 5 minutes. Do not share it.`
+          );
+        } catch (smsError) {
+          console.error(`Failed to send code via ${sms.name}:`, smsError);
+          return jsonResponse({ error: "Failed to send the code. Try again shortly." }, 502);
+        }
+      }
+
+      return jsonResponse({
+        sent: true,
+        expires_at: result.expires_at,
+        resend_at: new Date(Date.now() + RESEND_AFTER_MS).toISOString(),
+      });
+    }
+
+    if (action !== "verify" && action !== "reset_pin") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+    if (typeof code !== "string" || !CODE_PATTERN.test(code)) {
+      return jsonResponse({ error: "Enter the 6-digit code", code: "otp_invalid" }, 400);
+    }
+    if (action === "reset_pin" && (typeof new_pin !== "string" || !PIN_PATTERN.test(new_pin))) {
+      return jsonResponse({ error: "PIN must be 4 digits", code: "invalid_pin" }, 400);
+    }
+
+    const codePurpose = action === "verify" ? "signup" : "reset_pin";
+    const { data: checked, error: checkError } = await supabase.rpc("check_otp", {
+      _phone: phone,
+      _purpose: codePurpose,
+      _code_hash: await hashCode(phone, codePurpose, code),
+    });
+
+    if (checkError) {
+      console.error("Error checking code:", checkError);
+      return jsonResponse({ error: "Failed to check code" }, 500);
+    }
+
+    const result = (checked as CheckResult[])[0];
+    if (!result.verified) {
+      return otpRejection(result);
+    }
+
+    if (action === "verify") {
+      return jsonResponse({ verified: true });
+    }
+
+    if (!profile) {
+      return otpRejection({ verified: false, error_code: "otp_invalid", remaining_attempts: 0 });
+    }
+
+    const { error: pinError } = await supabase.rpc("set_pin", {
+      _user_id: profile.user_id,
+      _pin: new_pin,
+    });
+    if (pinError) {
+      console.error("Error setting PIN:", pinError);
+      return jsonResponse({ error: "Failed to reset PIN" }, 500);
+    }
+
+    const { error: passwordError } = await supabase.auth.admin.updateUserById(profile.user_id, {
+      password: await accountPassword(profile.user_id, new_pin),
+    });
+    if (passwordError) {
+      // The next login re-keys the password, so the new PIN still works
+      console.error("Error updating password:", passwordError);
+    }
+
+    // Owning the phone is enough to lift a PIN lockout on it
+    const { error: unlockError } = await supabase
+      .from("pin_attempts")
+      .delete()
+      .eq("scope", "phone")
+      .eq("subject", phone);
+    if (unlockError) {
+      console.error("Error clearing PIN lockout:", unlockError);
+    }
+
+    // Lets the device re-seal its offline vault for the new PIN instead of writing it off
+    let vaultRecoveryKey: string | null = null;
+    if (typeof device_id === "string") {
+      const { data: recovery, error: recoveryError } = await supabase
+        .from("vault_recovery_keys")
+        .select("recovery_key")
+        .eq("user_id", profile.user_id)
+        .eq("device_id", device_id)
+        .maybeSingle();
+      if (recoveryError) {
+        console.error("Error loading vault recovery key:", recoveryError);
+      }
+      vaultRecoveryKey = recovery?.recovery_key ?? null;
+    }
+
+    return jsonResponse({
+      reset: true,
+      user_id: profile.user_id,
+      vault_recovery_key: vaultRecoveryKey,
+    });
+  } catch (err) {
+    console.error("Error handling OTP request:", err);
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
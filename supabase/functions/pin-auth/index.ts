@@ -0,0 +1,225 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { accountPassword } from "../_shared/pinPassword.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PIN_PATTERN = /^\d{4}$/;
+const PHONE_PATTERN = /^\d{10}$/;
+
+type PinAction = "login" | "verify" | "change";
+
+interface PinAttemptResult {
+  verified: boolean;
+  error_code: "incorrect_pin" | "pin_locked" | "pin_throttled" | null;
+  remaining_attempts: number;
+  retry_at: string | null;
+  locked_now: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function phoneEmail(phone: string): string {
+  return `${phone}@offlinepay.app`;
+}
+
+function rejection(result: PinAttemptResult, action: PinAction) {
+  const body = {
+    code: result.error_code,
+    remaining_attempts: result.remaining_attempts,
+    retry_at: result.retry_at,
+  };
+  if (result.error_code === "pin_locked") {
+    return jsonResponse({ ...body, error: "Too many incorrect PIN attempts" }, 429);
+  }
+  if (result.error_code === "pin_throttled") {
+    return jsonResponse({ ...body, error: "Wait before trying your PIN again" }, 429);
+  }
+  const error = action === "login" ? "Incorrect phone number or PIN" : "Incorrect PIN";
+  return jsonResponse({ ...body, error }, 401);
+}
+
+// Every PIN check goes through here so failed attempts are counted per phone and per
+// device (see attempt_pin). Actions:
+//   login  - { phone, pin, device_id } -> { session }; no user session needed
+//   verify - { pin, device_id } for the signed-in user
+//   change - { pin, new_pin, device_id } for the signed-in user
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const { action, phone, pin, new_pin, device_id } = await req.json();
+
+    if (!["login", "verify", "change"].includes(action)) {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+    if (typeof pin !== "string" || !PIN_PATTERN.test(pin)) {
+      return jsonResponse({ error: "PIN must be 4 digits", code: "invalid_pin" }, 400);
+    }
+    if (action === "change" && (typeof new_pin !== "string" || !PIN_PATTERN.test(new_pin))) {
+      return jsonResponse({ error: "PIN must be 4 digits", code: "invalid_pin" }, 400);
+    }
+    const deviceId = typeof device_id === "string" && device_id ? device_id : null;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let userId: string | null = null;
+    let accountPhone: string;
+
+    if (action === "login") {
+      if (typeof phone !== "string" || !PHONE_PATTERN.test(phone)) {
+        return jsonResponse({ error: "Enter a valid 10-digit phone number" }, 400);
+      }
+      accountPhone = phone;
+
+      // An unknown number is still counted, so it looks the same as a wrong PIN
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("user_id")
+        .eq("phone", phone)
+        .maybeSingle();
+      userId = profile?.user_id ?? null;
+    } else {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        return jsonResponse({ error: "Missing authorization header" }, 401);
+      }
+
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const {
+        data: { user },
+      } = await userClient.auth.getUser();
+
+      if (!user) {
+        return jsonResponse({ error: "Not authenticated", code: "not_authenticated" }, 401);
+      }
+
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("phone")
+        .eq("user_id", user.id)
+        .single();
+
+      if (profileError) {
+        console.error("Error fetching profile:", profileError);
+        return jsonResponse({ error: "Failed to load profile" }, 500);
+      }
+
+      userId = user.id;
+      accountPhone = profile.phone;
+    }
+
+    const { data: attempts, error: attemptError } = await supabase.rpc("attempt_pin", {
+      _user_id: userId,
+      _phone: accountPhone,
+      _device_id: deviceId,
+      _pin: pin,
+    });
+
+    if (attemptError) {
+      console.error("Error checking PIN:", attemptError);
+      return jsonResponse({ error: "Failed to check PIN" }, 500);
+    }
+
+    const result = (attempts as PinAttemptResult[])[0];
+
+    // A failed alert must not hide the lockout, so errors are only logged
+    if (result.locked_now && userId) {
+      const { error: notifyError } = await supabase.functions.invoke("send-notification", {
+        body: {
+          user_id: userId,
+          title: "Account temporarily locked",
+          body:
+            "Your PIN was entered incorrectly too many times. If this wasn't you, change your PIN once the lock ends.",
+          url: "/settings",
+          type: "security_alert",
+          tag: "pin-lockout",
+        },
+      });
+      if (notifyError) {
+        console.error(`Failed to send lockout alert to ${userId}:`, notifyError);
+      }
+    }
+
+    if (!result.verified || !userId) {
+      return rejection(result, action);
+    }
+
+    if (action === "verify") {
+      return jsonResponse({ verified: true });
+    }
+
+    if (action === "change") {
+      const { error: pinError } = await supabase.rpc("set_pin", { _user_id: userId, _pin: new_pin });
+      if (pinError) {
+        console.error("Error setting PIN:", pinError);
+        return jsonResponse({ error: "Failed to change PIN" }, 500);
+      }
+
+      const { error: passwordError } = await supabase.auth.admin.updateUserById(userId, {
+        password: await accountPassword(userId, new_pin),
+      });
+      if (passwordError) {
+        // Put the old PIN back so it still matches the password
+        await supabase.rpc("set_pin", { _user_id: userId, _pin: pin });
+        console.error("Error updating password:", passwordError);
+        return jsonResponse({ error: "Failed to change PIN" }, 500);
+      }
+
+      return jsonResponse({ changed: true });
+    }
+
+    // The PIN is verified, so the password can be brought in line with it if it differs,
+    // e.g. for accounts created before passwords were keyed server-side
+    const password = await accountPassword(userId, pin);
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false },
+    });
+
+    let { data: signIn, error: signInError } = await authClient.auth.signInWithPassword({
+      email: phoneEmail(accountPhone),
+      password,
+    });
+
+    if (signInError?.code === "invalid_credentials") {
+      const { error: passwordError } = await supabase.auth.admin.updateUserById(userId, {
+        password,
+      });
+      if (passwordError) {
+        console.error("Error updating password:", passwordError);
+        return jsonResponse({ error: "Login failed" }, 500);
+      }
+
+      ({ data: signIn, error: signInError } = await authClient.auth.signInWithPassword({
+        email: phoneEmail(accountPhone),
+        password,
+      }));
+    }
+
+    if (signInError || !signIn.session) {
+      console.error("Error signing in:", signInError);
+      return jsonResponse({ error: signInError?.message ?? "Login failed" }, 500);
+    }
+
+    return jsonResponse({ session: signIn.session });
+  } catch (err) {
+    console.error("Error handling PIN request:", err);
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,96 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Transfers run per invocation; anything left over is picked up by the next one
+const BATCH_SIZE = 100;
+
+interface ScheduledRunResult {
+  scheduled_transfer_id: string;
+  user_id: string;
+  succeeded: boolean;
+  transaction_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  status: "active" | "paused" | "completed" | "cancelled" | "failed";
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function failureMessage(result: ScheduledRunResult): string {
+  const reason = result.error_code === "insufficient_balance"
+    ? "You didn't have enough balance."
+    : result.error_message ?? "The payment could not be completed.";
+  if (result.status === "paused") {
+    return `${reason} The schedule has been paused after repeated failures.`;
+  }
+  return reason;
+}
+
+// Runs due scheduled transfers. Called every few minutes by a cron job with the service
+// role key; SUPABASE_SETUP.md has the schedule.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: "Not authorized" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase.rpc("execute_scheduled_transfers", {
+      _limit: BATCH_SIZE,
+    });
+    if (error) {
+      console.error("Error executing scheduled transfers:", error);
+      return jsonResponse({ error: "Failed to execute scheduled transfers" }, 500);
+    }
+
+    const results = (data ?? []) as ScheduledRunResult[];
+    const failures = results.filter((result) => !result.succeeded);
+
+    // A failed notification must not hide the run results, so errors are only logged
+    await Promise.all(
+      failures.map(async (result) => {
+        const { error: notifyError } = await supabase.functions.invoke("send-notification", {
+          body: {
+            user_id: result.user_id,
+            title: "Scheduled payment failed",
+            body: failureMessage(result),
+            url: "/settings/scheduled-transfers",
+            type: "scheduled_transfer_failed",
+            tag: `scheduled-${result.scheduled_transfer_id}`,
+          },
+        });
+        if (notifyError) {
+          console.error(`Failed to notify user ${result.user_id}:`, notifyError);
+        }
+      })
+    );
+
+    return jsonResponse({
+      processed: results.length,
+      succeeded: results.length - failures.length,
+      failed: failures.length,
+      results,
+    });
+  } catch (err) {
+    console.error("Error running scheduled transfers:", err);
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
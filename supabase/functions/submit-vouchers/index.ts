@@ -0,0 +1,254 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isSignedVoucher, verifyVoucher, SignedVoucher } from "../_shared/voucher.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Vouchers dated further than this into the future are treated as tampered
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Older vouchers could be counted against a past day's unused offline limit
+const MAX_OFFLINE_AGE_MS = 72 * 60 * 60 * 1000;
+const MAX_BATCH_SIZE = 100;
+
+type VoucherStatus = "settled" | "duplicate" | "insufficient_funds" | "rejected";
+
+interface DeviceKey {
+  publicKey: JsonWebKey;
+  createdAt: number;
+}
+
+interface VoucherResult {
+  voucher_id: string;
+  status: VoucherStatus;
+  transaction_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  // Set on duplicates that another user already delivered as a relay
+  relayed?: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function rejected(voucherId: string, code: string, message: string): VoucherResult {
+  return {
+    voucher_id: voucherId,
+    status: "rejected",
+    transaction_id: null,
+    error_code: code,
+    error_message: message,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization header" }, 401);
+    }
+
+    // Resolve the caller from their own JWT
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const {
+      data: { user },
+    } = await userClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated", code: "not_authenticated" }, 401);
+    }
+
+    // Relayed vouchers belong to someone else and are only checked against their signer
+    const { vouchers, relay } = await req.json();
+    const isRelay = relay === true;
+
+    if (!Array.isArray(vouchers) || vouchers.length === 0 || vouchers.length > MAX_BATCH_SIZE) {
+      return jsonResponse(
+        { error: `Expected between 1 and ${MAX_BATCH_SIZE} vouchers`, code: "malformed_voucher" },
+        400
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const results = new Map<string, VoucherResult>();
+    const verified: SignedVoucher[] = [];
+    const deviceKeys = new Map<string, DeviceKey | null>();
+
+    for (const voucher of vouchers) {
+      if (!isSignedVoucher(voucher)) {
+        const voucherId = typeof voucher?.id === "string" ? voucher.id : "";
+        results.set(voucherId, rejected(voucherId, "malformed_voucher", "Malformed voucher"));
+        continue;
+      }
+
+      if (!isRelay && voucher.senderId !== user.id) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "unauthorized_sender", "Voucher does not belong to the signed-in user")
+        );
+        continue;
+      }
+
+      if (voucher.timestamp > Date.now() + MAX_CLOCK_SKEW_MS) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "malformed_voucher", "Voucher timestamp is in the future")
+        );
+        continue;
+      }
+
+      // Vouchers queued before signing existed are signed later, when first synced
+      const signedAt = voucher.signedAt ?? voucher.timestamp;
+      if (signedAt < voucher.timestamp || signedAt > Date.now() + MAX_CLOCK_SKEW_MS) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "malformed_voucher", "Voucher signing time is out of range")
+        );
+        continue;
+      }
+
+      if (voucher.timestamp < Date.now() - MAX_OFFLINE_AGE_MS) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "voucher_expired", "Voucher is too old to settle")
+        );
+        continue;
+      }
+
+      // A relayed batch can carry vouchers from several users of one shared device
+      const deviceKeyId = `${voucher.senderId}:${voucher.deviceId}`;
+      if (!deviceKeys.has(deviceKeyId)) {
+        const { data: deviceKey, error: keyError } = await supabase
+          .from("device_keys")
+          .select("public_key, revoked_at, created_at")
+          .eq("user_id", voucher.senderId)
+          .eq("device_id", voucher.deviceId)
+          .maybeSingle();
+
+        if (keyError) {
+          console.error("Error fetching device key:", keyError);
+          return jsonResponse({ error: "Failed to load device key" }, 500);
+        }
+
+        deviceKeys.set(
+          deviceKeyId,
+          deviceKey && !deviceKey.revoked_at
+            ? {
+                publicKey: deviceKey.public_key as JsonWebKey,
+                createdAt: new Date(deviceKey.created_at).getTime(),
+              }
+            : null
+        );
+      }
+
+      const deviceKey = deviceKeys.get(deviceKeyId);
+      if (!deviceKey) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "unknown_device", "Unknown or revoked signing device")
+        );
+        continue;
+      }
+
+      // A voucher queued before signing existed predates the key, but its signature does not
+      if (signedAt < deviceKey.createdAt - MAX_CLOCK_SKEW_MS) {
+        results.set(
+          voucher.id,
+          rejected(voucher.id, "malformed_voucher", "Voucher predates its signing device")
+        );
+        continue;
+      }
+
+      if (!(await verifyVoucher(voucher, deviceKey.publicKey))) {
+        console.warn(`Rejected voucher ${voucher.id}: invalid signature`);
+        results.set(voucher.id, rejected(voucher.id, "invalid_signature", "Invalid voucher signature"));
+        continue;
+      }
+
+      verified.push(voucher);
+    }
+
+    if (verified.length > 0) {
+      // Settled oldest first in a single database transaction; replays come back as duplicates
+      const { data, error } = await supabase.rpc("sync_offline_batch", {
+        _vouchers: verified.map((voucher) => ({
+          id: voucher.id,
+          sender_id: voucher.senderId,
+          receiver_id: voucher.receiverId,
+          amount: voucher.amount,
+          description: voucher.description || null,
+          hash: voucher.hash,
+          device_id: voucher.deviceId,
+          signature: voucher.signature,
+          timestamp: voucher.timestamp,
+          signed_at: voucher.signedAt ?? null,
+        })),
+      });
+
+      if (error) {
+        console.error("Failed to settle voucher batch:", error);
+        return jsonResponse({ error: error.message }, 500);
+      }
+
+      for (const result of data as VoucherResult[]) {
+        results.set(result.voucher_id, result);
+      }
+    }
+
+    const settledIds = (status: VoucherStatus) =>
+      Array.from(results.values())
+        .filter((result) => result.status === status && result.transaction_id)
+        .map((result) => result.transaction_id as string);
+
+    if (isRelay) {
+      const relayedIds = settledIds("settled");
+      if (relayedIds.length > 0) {
+        const { error } = await supabase
+          .from("transactions")
+          .update({ relayed_by: user.id })
+          .in("id", relayedIds)
+          .neq("sender_id", user.id);
+        if (error) {
+          console.error("Failed to record relay:", error);
+        }
+      }
+    } else {
+      // Let the sender know which of their vouchers a relay delivered first
+      const duplicateIds = settledIds("duplicate");
+      if (duplicateIds.length > 0) {
+        const { data: relayed } = await supabase
+          .from("transactions")
+          .select("id")
+          .in("id", duplicateIds)
+          .not("relayed_by", "is", null);
+        const relayedIds = new Set((relayed ?? []).map((tx) => tx.id));
+        for (const result of results.values()) {
+          if (result.transaction_id && relayedIds.has(result.transaction_id)) {
+            result.relayed = true;
+          }
+        }
+      }
+    }
+
+    return jsonResponse({ results: Array.from(results.values()) });
+  } catch (err) {
+    console.error("Error submitting vouchers:", err);
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
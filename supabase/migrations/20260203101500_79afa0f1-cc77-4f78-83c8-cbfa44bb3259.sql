@@ -0,0 +1,144 @@
+-- Device signing keys for offline payment vouchers
+CREATE TABLE public.device_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  device_id VARCHAR(255) NOT NULL,
+  public_key JSONB NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, device_id)
+);
+
+CREATE INDEX idx_device_keys_user ON public.device_keys(user_id);
+
+ALTER TABLE public.device_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own device keys"
+ON public.device_keys FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all device keys"
+ON public.device_keys FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_device_keys_updated_at
+BEFORE UPDATE ON public.device_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clients register and revoke keys only through these, so they cannot un-revoke a device
+-- or backdate when its key was created
+CREATE OR REPLACE FUNCTION public.register_device_key(_device_id VARCHAR, _public_key JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  -- A device that lost its key publishes a new one; a revoked device stays revoked
+  INSERT INTO public.device_keys (user_id, device_id, public_key)
+  VALUES (auth.uid(), _device_id, _public_key)
+  ON CONFLICT (user_id, device_id) DO UPDATE
+  SET public_key = EXCLUDED.public_key,
+      created_at = now()
+  WHERE device_keys.revoked_at IS NULL
+    AND device_keys.public_key IS DISTINCT FROM EXCLUDED.public_key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_device_key(_device_id VARCHAR)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  UPDATE public.device_keys
+  SET revoked_at = now()
+  WHERE user_id = auth.uid() AND device_id = _device_id AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_device_key(VARCHAR, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_device_key(VARCHAR, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_device_key(VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_device_key(VARCHAR) TO authenticated;
+
+-- Keep the verified voucher signature alongside the settled transaction
+ALTER TABLE public.transactions ADD COLUMN voucher_signature TEXT;
+
+-- Offline vouchers are only accepted from the submit-voucher edge function,
+-- which verifies the device signature before calling this with the service role
+DROP FUNCTION public.process_transaction(UUID, UUID, DECIMAL, VARCHAR, BOOLEAN, VARCHAR, VARCHAR);
+
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _sender_balance DECIMAL;
+BEGIN
+  IF _is_offline AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed';
+  END IF;
+
+  -- Check sender balance
+  SELECT balance INTO _sender_balance FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found';
+  END IF;
+
+  IF _sender_balance < _amount THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  -- Deduct from sender
+  UPDATE public.wallets SET balance = balance - _amount WHERE user_id = _sender_id;
+
+  -- Add to receiver
+  UPDATE public.wallets SET balance = balance + _amount WHERE user_id = _receiver_id;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description,
+    is_offline, transaction_hash, device_id, synced_at, voucher_signature
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, 'completed', _description,
+    _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature
+  )
+  RETURNING id INTO _transaction_id;
+
+  RETURN _transaction_id;
+END;
+$$;
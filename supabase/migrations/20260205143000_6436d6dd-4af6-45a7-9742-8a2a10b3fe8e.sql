@@ -0,0 +1,150 @@
+-- Offline purse: funds escrowed while online so offline vouchers are guaranteed to settle
+ALTER TABLE public.wallets
+  ADD COLUMN offline_reserve DECIMAL(12, 2) DEFAULT 0.00 NOT NULL CHECK (offline_reserve >= 0);
+
+-- Move funds from the spendable balance into the offline reserve
+CREATE OR REPLACE FUNCTION public.load_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF _wallet.balance < _amount THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  IF _wallet.offline_reserve + _amount > _wallet.offline_daily_limit THEN
+    RAISE EXCEPTION 'Offline purse cannot exceed the offline daily limit';
+  END IF;
+
+  UPDATE public.wallets
+  SET balance = balance - _amount,
+      offline_reserve = offline_reserve + _amount
+  WHERE id = _wallet.id
+  RETURNING offline_reserve INTO _wallet.offline_reserve;
+
+  RETURN _wallet.offline_reserve;
+END;
+$$;
+
+-- Return unspent offline funds to the spendable balance
+CREATE OR REPLACE FUNCTION public.unload_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+  _returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  _returned := LEAST(_amount, _wallet.offline_reserve);
+
+  UPDATE public.wallets
+  SET balance = balance + _returned,
+      offline_reserve = offline_reserve - _returned
+  WHERE id = _wallet.id;
+
+  RETURN _returned;
+END;
+$$;
+
+-- Offline vouchers settle against the reserve first, falling back to the balance
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _sender_balance DECIMAL;
+  _sender_reserve DECIMAL;
+BEGIN
+  IF _is_offline AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed';
+  END IF;
+
+  -- Check sender balance
+  SELECT balance, offline_reserve INTO _sender_balance, _sender_reserve
+  FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found';
+  END IF;
+
+  IF _is_offline AND _sender_reserve >= _amount THEN
+    -- Deduct from the escrowed offline purse
+    UPDATE public.wallets SET offline_reserve = offline_reserve - _amount WHERE user_id = _sender_id;
+  ELSE
+    IF _sender_balance < _amount THEN
+      RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    -- Deduct from sender
+    UPDATE public.wallets SET balance = balance - _amount WHERE user_id = _sender_id;
+  END IF;
+
+  -- Add to receiver
+  UPDATE public.wallets SET balance = balance + _amount WHERE user_id = _receiver_id;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description,
+    is_offline, transaction_hash, device_id, synced_at, voucher_signature
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, 'completed', _description,
+    _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature
+  )
+  RETURNING id INTO _transaction_id;
+
+  RETURN _transaction_id;
+END;
+$$;
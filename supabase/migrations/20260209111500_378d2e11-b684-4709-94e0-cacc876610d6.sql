@@ -0,0 +1,143 @@
+-- Per-day offline spending, keyed by the day the voucher was created offline
+CREATE TABLE public.offline_daily_usage (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  usage_date DATE NOT NULL,
+  amount_used DECIMAL(12, 2) DEFAULT 0.00 NOT NULL CHECK (amount_used >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, usage_date)
+);
+
+ALTER TABLE public.offline_daily_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own offline usage"
+ON public.offline_daily_usage FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all offline usage"
+ON public.offline_daily_usage FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_offline_daily_usage_updated_at
+BEFORE UPDATE ON public.offline_daily_usage
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- When the voucher was actually created, as opposed to synced_at
+ALTER TABLE public.transactions ADD COLUMN offline_created_at TIMESTAMP WITH TIME ZONE;
+
+DROP FUNCTION public.process_transaction(UUID, UUID, DECIMAL, VARCHAR, BOOLEAN, VARCHAR, VARCHAR, TEXT);
+
+-- Offline vouchers are counted against offline_daily_limit for the day they were created.
+-- Rejections carry a machine-readable reason in the exception HINT.
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL,
+  _offline_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _sender_balance DECIMAL;
+  _sender_reserve DECIMAL;
+  _offline_limit DECIMAL;
+  _offline_date DATE;
+  _offline_used DECIMAL;
+BEGIN
+  IF _is_offline AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed';
+  END IF;
+
+  -- Check sender balance
+  SELECT balance, offline_reserve, offline_daily_limit
+  INTO _sender_balance, _sender_reserve, _offline_limit
+  FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found';
+  END IF;
+
+  IF _is_offline THEN
+    -- A backdated voucher would land on a day with unused limit, so it must be recent
+    IF _offline_timestamp < now() - INTERVAL '72 hours' THEN
+      RAISE EXCEPTION 'Offline voucher is too old to settle'
+        USING HINT = 'voucher_expired';
+    END IF;
+
+    _offline_date := COALESCE(_offline_timestamp, now())::date;
+
+    INSERT INTO public.offline_daily_usage (user_id, usage_date)
+    VALUES (_sender_id, _offline_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT amount_used INTO _offline_used
+    FROM public.offline_daily_usage
+    WHERE user_id = _sender_id AND usage_date = _offline_date
+    FOR UPDATE;
+
+    IF _offline_used + _amount > _offline_limit THEN
+      RAISE EXCEPTION 'Offline daily limit exceeded'
+        USING HINT = 'offline_limit_exceeded';
+    END IF;
+
+    UPDATE public.offline_daily_usage
+    SET amount_used = amount_used + _amount
+    WHERE user_id = _sender_id AND usage_date = _offline_date;
+
+    -- Mirror today's usage onto the wallet counter the app displays
+    IF _offline_date = CURRENT_DATE THEN
+      UPDATE public.wallets
+      SET offline_used_today = _offline_used + _amount,
+          last_offline_reset = CURRENT_DATE
+      WHERE user_id = _sender_id;
+    END IF;
+  END IF;
+
+  IF _is_offline AND _sender_reserve >= _amount THEN
+    -- Deduct from the escrowed offline purse
+    UPDATE public.wallets SET offline_reserve = offline_reserve - _amount WHERE user_id = _sender_id;
+  ELSE
+    IF _sender_balance < _amount THEN
+      RAISE EXCEPTION 'Insufficient balance'
+        USING HINT = 'insufficient_balance';
+    END IF;
+
+    -- Deduct from sender
+    UPDATE public.wallets SET balance = balance - _amount WHERE user_id = _sender_id;
+  END IF;
+
+  -- Add to receiver
+  UPDATE public.wallets SET balance = balance + _amount WHERE user_id = _receiver_id;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description,
+    is_offline, transaction_hash, device_id, synced_at, voucher_signature,
+    offline_created_at
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, 'completed', _description,
+    _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature,
+    CASE WHEN _is_offline THEN COALESCE(_offline_timestamp, now()) ELSE NULL END
+  )
+  RETURNING id INTO _transaction_id;
+
+  RETURN _transaction_id;
+END;
+$$;
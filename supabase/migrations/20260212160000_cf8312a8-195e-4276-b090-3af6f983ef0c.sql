@@ -0,0 +1,163 @@
+-- Harden process_transaction: the sender must be the caller unless an admin or the
+-- voucher verifier (service role) is acting on their behalf. Every rejection carries
+-- a machine-readable reason in the exception HINT for the client to map.
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL,
+  _offline_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _is_service BOOLEAN := auth.role() IS NOT DISTINCT FROM 'service_role';
+  _sender_balance DECIMAL;
+  _sender_reserve DECIMAL;
+  _offline_limit DECIMAL;
+  _offline_date DATE;
+  _offline_used DECIMAL;
+  _receiver_active BOOLEAN;
+BEGIN
+  IF NOT _is_service THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Not authenticated'
+        USING HINT = 'not_authenticated';
+    END IF;
+
+    -- Admin override: admins may move funds on behalf of another user
+    IF _sender_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Cannot send money from another user''s wallet'
+        USING HINT = 'unauthorized_sender';
+    END IF;
+  END IF;
+
+  IF _is_offline AND NOT _is_service THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification'
+      USING HINT = 'offline_not_allowed';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed'
+      USING HINT = 'unsigned_voucher';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+
+  IF _sender_id = _receiver_id THEN
+    RAISE EXCEPTION 'Cannot send money to yourself'
+      USING HINT = 'self_transfer';
+  END IF;
+
+  SELECT p.is_active INTO _receiver_active
+  FROM public.profiles p
+  JOIN public.wallets w ON w.user_id = p.user_id
+  WHERE p.user_id = _receiver_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receiver not found'
+      USING HINT = 'receiver_not_found';
+  END IF;
+
+  IF _receiver_active IS NOT TRUE THEN
+    RAISE EXCEPTION 'Receiver account is not active'
+      USING HINT = 'receiver_inactive';
+  END IF;
+
+  -- Check sender balance
+  SELECT balance, offline_reserve, offline_daily_limit
+  INTO _sender_balance, _sender_reserve, _offline_limit
+  FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found'
+      USING HINT = 'sender_wallet_not_found';
+  END IF;
+
+  IF _is_offline THEN
+    -- A backdated voucher would land on a day with unused limit, so it must be recent
+    IF _offline_timestamp < now() - INTERVAL '72 hours' THEN
+      RAISE EXCEPTION 'Offline voucher is too old to settle'
+        USING HINT = 'voucher_expired';
+    END IF;
+
+    _offline_date := COALESCE(_offline_timestamp, now())::date;
+
+    INSERT INTO public.offline_daily_usage (user_id, usage_date)
+    VALUES (_sender_id, _offline_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT amount_used INTO _offline_used
+    FROM public.offline_daily_usage
+    WHERE user_id = _sender_id AND usage_date = _offline_date
+    FOR UPDATE;
+
+    IF _offline_used + _amount > _offline_limit THEN
+      RAISE EXCEPTION 'Offline daily limit exceeded'
+        USING HINT = 'offline_limit_exceeded';
+    END IF;
+
+    UPDATE public.offline_daily_usage
+    SET amount_used = amount_used + _amount
+    WHERE user_id = _sender_id AND usage_date = _offline_date;
+
+    -- Mirror today's usage onto the wallet counter the app displays
+    IF _offline_date = CURRENT_DATE THEN
+      UPDATE public.wallets
+      SET offline_used_today = _offline_used + _amount,
+          last_offline_reset = CURRENT_DATE
+      WHERE user_id = _sender_id;
+    END IF;
+  END IF;
+
+  IF _is_offline AND _sender_reserve >= _amount THEN
+    -- Deduct from the escrowed offline purse
+    UPDATE public.wallets SET offline_reserve = offline_reserve - _amount WHERE user_id = _sender_id;
+  ELSE
+    IF _sender_balance < _amount THEN
+      RAISE EXCEPTION 'Insufficient balance'
+        USING HINT = 'insufficient_balance';
+    END IF;
+
+    -- Deduct from sender
+    UPDATE public.wallets SET balance = balance - _amount WHERE user_id = _sender_id;
+  END IF;
+
+  -- Add to receiver
+  UPDATE public.wallets SET balance = balance + _amount WHERE user_id = _receiver_id;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description,
+    is_offline, transaction_hash, device_id, synced_at, voucher_signature,
+    offline_created_at
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, 'completed', _description,
+    _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature,
+    CASE WHEN _is_offline THEN COALESCE(_offline_timestamp, now()) ELSE NULL END
+  )
+  RETURNING id INTO _transaction_id;
+
+  RETURN _transaction_id;
+END;
+$$;
+
+-- Direct inserts would bypass every check above; transactions are only created by RPCs
+DROP POLICY "Users can insert transactions as sender" ON public.transactions;
+
+-- Likewise balances only change through SECURITY DEFINER functions
+DROP POLICY "Users can update their own wallet" ON public.wallets;
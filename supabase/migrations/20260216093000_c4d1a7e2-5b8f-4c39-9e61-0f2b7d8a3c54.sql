@@ -0,0 +1,114 @@
+-- Vouchers replayed before this migration were settled more than once. Keep the first
+-- settlement of each and reverse the copies: the receiver gives the amount back, the
+-- sender gets it back along with that much of the day's offline limit.
+DO $$
+DECLARE
+  _copy RECORD;
+BEGIN
+  FOR _copy IN
+    SELECT t.id, t.sender_id, t.receiver_id, t.amount, t.offline_created_at
+    FROM (
+      SELECT tx.*, row_number() OVER (
+        PARTITION BY tx.device_id, tx.transaction_hash
+        ORDER BY tx.created_at, tx.id
+      ) AS settlement
+      FROM public.transactions tx
+      WHERE tx.device_id IS NOT NULL
+        AND tx.transaction_hash IS NOT NULL
+        AND tx.status = 'completed'
+    ) t
+    WHERE t.settlement > 1
+    ORDER BY t.created_at, t.id
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.wallets
+      WHERE user_id = _copy.receiver_id AND balance >= _copy.amount
+    ) THEN
+      RAISE EXCEPTION 'Cannot reverse duplicate voucher transaction %: the receiver no longer has %',
+        _copy.id, _copy.amount;
+    END IF;
+
+    UPDATE public.wallets SET balance = balance - _copy.amount WHERE user_id = _copy.receiver_id;
+    UPDATE public.wallets SET balance = balance + _copy.amount WHERE user_id = _copy.sender_id;
+
+    UPDATE public.offline_daily_usage
+    SET amount_used = GREATEST(amount_used - _copy.amount, 0)
+    WHERE user_id = _copy.sender_id AND usage_date = _copy.offline_created_at::date;
+
+    UPDATE public.transactions SET status = 'cancelled' WHERE id = _copy.id;
+  END LOOP;
+END;
+$$;
+
+-- A voucher is identified by the device that signed it and its content hash. The
+-- reversed copies above stay on record as cancelled, so only settlements are unique.
+CREATE UNIQUE INDEX transactions_device_hash_key
+  ON public.transactions(device_id, transaction_hash)
+  WHERE status = 'completed';
+
+-- Idempotent settlement of a verified offline voucher. Replays return the
+-- transaction created by the first submission instead of moving money again.
+-- _signed_at is only set for vouchers queued before signing existed, which were
+-- signed when first synced and so are older than their device key.
+CREATE OR REPLACE FUNCTION public.submit_offline_voucher(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _transaction_hash VARCHAR,
+  _device_id VARCHAR,
+  _voucher_signature TEXT,
+  _offline_timestamp TIMESTAMP WITH TIME ZONE,
+  _description VARCHAR DEFAULT NULL,
+  _signed_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (transaction_id UUID, replayed BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _existing_id UUID;
+BEGIN
+  -- Serialize submissions for this sender so concurrent replays see each other
+  PERFORM 1 FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  SELECT t.id INTO _existing_id
+  FROM public.transactions t
+  WHERE t.device_id = _device_id AND t.transaction_hash = _transaction_hash
+    AND t.status = 'completed';
+
+  IF _existing_id IS NOT NULL THEN
+    RETURN QUERY SELECT _existing_id, true;
+    RETURN;
+  END IF;
+
+  -- A voucher cannot be signed before its device key was registered (less five
+  -- minutes of clock skew)
+  IF COALESCE(_signed_at, _offline_timestamp) < (
+    SELECT k.created_at - INTERVAL '5 minutes'
+    FROM public.device_keys k
+    WHERE k.user_id = _sender_id AND k.device_id = _device_id
+  ) THEN
+    RAISE EXCEPTION 'Offline voucher is dated before its signing device was registered'
+      USING HINT = 'malformed_voucher';
+  END IF;
+
+  BEGIN
+    RETURN QUERY SELECT public.process_transaction(
+      _sender_id, _receiver_id, _amount, _description, true,
+      _transaction_hash, _device_id, _voucher_signature, _offline_timestamp
+    ), false;
+  EXCEPTION WHEN unique_violation THEN
+    SELECT t.id INTO _existing_id
+    FROM public.transactions t
+    WHERE t.device_id = _device_id AND t.transaction_hash = _transaction_hash
+      AND t.status = 'completed';
+
+    RETURN QUERY SELECT _existing_id, true;
+  END;
+END;
+$$;
+
+-- Only the submit-voucher edge function (service role) may settle vouchers
+REVOKE EXECUTE ON FUNCTION public.submit_offline_voucher(UUID, UUID, DECIMAL, VARCHAR, VARCHAR, TEXT, TIMESTAMP WITH TIME ZONE, VARCHAR, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_offline_voucher(UUID, UUID, DECIMAL, VARCHAR, VARCHAR, TEXT, TIMESTAMP WITH TIME ZONE, VARCHAR, TIMESTAMP WITH TIME ZONE) TO service_role;
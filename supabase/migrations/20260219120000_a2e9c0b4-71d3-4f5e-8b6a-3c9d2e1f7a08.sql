@@ -0,0 +1,59 @@
+-- Settle many verified offline vouchers in one round trip. Vouchers are applied
+-- oldest first inside the caller's transaction; each one runs in its own
+-- subtransaction so a rejection does not undo the vouchers settled before it.
+CREATE OR REPLACE FUNCTION public.sync_offline_batch(_vouchers JSONB)
+RETURNS TABLE (
+  voucher_id TEXT,
+  status TEXT,
+  transaction_id UUID,
+  error_code TEXT,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _voucher JSONB;
+  _transaction_id UUID;
+  _replayed BOOLEAN;
+  _status TEXT;
+  _error_code TEXT;
+  _error_message TEXT;
+BEGIN
+  FOR _voucher IN
+    SELECT value FROM jsonb_array_elements(_vouchers)
+    ORDER BY (value->>'timestamp')::BIGINT, value->>'id'
+  LOOP
+    _transaction_id := NULL;
+    _error_code := NULL;
+    _error_message := NULL;
+
+    BEGIN
+      SELECT s.transaction_id, s.replayed INTO _transaction_id, _replayed
+      FROM public.submit_offline_voucher(
+        (_voucher->>'sender_id')::UUID,
+        (_voucher->>'receiver_id')::UUID,
+        (_voucher->>'amount')::DECIMAL,
+        _voucher->>'hash',
+        _voucher->>'device_id',
+        _voucher->>'signature',
+        to_timestamp((_voucher->>'timestamp')::BIGINT / 1000.0),
+        _voucher->>'description',
+        to_timestamp((_voucher->>'signed_at')::BIGINT / 1000.0)
+      ) s;
+
+      _status := CASE WHEN _replayed THEN 'duplicate' ELSE 'settled' END;
+    EXCEPTION WHEN OTHERS THEN
+      GET STACKED DIAGNOSTICS _error_code = PG_EXCEPTION_HINT, _error_message = MESSAGE_TEXT;
+      _error_code := NULLIF(_error_code, '');
+      _status := CASE WHEN _error_code = 'insufficient_balance' THEN 'insufficient_funds' ELSE 'rejected' END;
+    END;
+
+    RETURN QUERY SELECT _voucher->>'id', _status, _transaction_id, _error_code, _error_message;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_offline_batch(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_offline_batch(JSONB) TO service_role;
@@ -0,0 +1,21 @@
+-- Public halves of active device keys, so a receiver can cache a sender's key and
+-- verify their signed payment receipts while offline
+CREATE OR REPLACE FUNCTION public.get_device_public_keys(_user_ids UUID[])
+RETURNS TABLE (
+  user_id UUID,
+  device_id VARCHAR,
+  public_key JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT k.user_id, k.device_id, k.public_key
+  FROM public.device_keys k
+  WHERE k.user_id = ANY(_user_ids)
+  AND k.revoked_at IS NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_device_public_keys(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_device_public_keys(UUID[]) TO authenticated;
@@ -0,0 +1,5 @@
+-- Offline vouchers can be carried to the server by another online user. The voucher
+-- is still verified against the original sender's device key; relayed_by records who
+-- delivered it so the sender can be told when they next sync.
+ALTER TABLE public.transactions
+  ADD COLUMN relayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,262 @@
+-- Requests for money: the requester asks a payer for an amount, and the payer
+-- pays (through process_transaction) or declines it
+CREATE TYPE public.payment_request_status AS ENUM ('pending', 'paid', 'declined', 'cancelled', 'expired');
+
+CREATE TABLE public.payment_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  payer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  note VARCHAR(255),
+  status payment_request_status NOT NULL DEFAULT 'pending',
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (requester_id <> payer_id)
+);
+
+CREATE INDEX idx_payment_requests_requester ON public.payment_requests(requester_id, created_at DESC);
+CREATE INDEX idx_payment_requests_payer ON public.payment_requests(payer_id, created_at DESC);
+
+ALTER TABLE public.payment_requests ENABLE ROW LEVEL SECURITY;
+
+-- Rows only change through the functions below
+CREATE POLICY "Users can view their own payment requests"
+ON public.payment_requests FOR SELECT
+USING (auth.uid() = requester_id OR auth.uid() = payer_id);
+
+CREATE POLICY "Admins can view all payment requests"
+ON public.payment_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_payment_requests_updated_at
+BEFORE UPDATE ON public.payment_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The request a transaction paid, if any; a request is paid at most once
+ALTER TABLE public.transactions
+  ADD COLUMN payment_request_id UUID REFERENCES public.payment_requests(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_transactions_payment_request
+  ON public.transactions(payment_request_id)
+  WHERE payment_request_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.create_payment_request(
+  _payer_id UUID,
+  _amount DECIMAL,
+  _note VARCHAR DEFAULT NULL,
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+
+  IF _payer_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot request money from yourself'
+      USING HINT = 'self_transfer';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _payer_id AND is_active IS TRUE) THEN
+    RAISE EXCEPTION 'Payer not found'
+      USING HINT = 'receiver_not_found';
+  END IF;
+
+  IF _expires_at IS NOT NULL AND _expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future'
+      USING HINT = 'request_expired';
+  END IF;
+
+  INSERT INTO public.payment_requests (requester_id, payer_id, amount, note, expires_at)
+  VALUES (auth.uid(), _payer_id, _amount, _note, COALESCE(_expires_at, now() + INTERVAL '7 days'))
+  RETURNING id INTO _request_id;
+
+  RETURN _request_id;
+END;
+$$;
+
+-- Locks a pending, unexpired request the caller may act on as payer or requester
+CREATE OR REPLACE FUNCTION public.lock_pending_payment_request(_request_id UUID, _as_payer BOOLEAN)
+RETURNS public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.payment_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _request FROM public.payment_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (_request.requester_id, _request.payer_id) THEN
+    RAISE EXCEPTION 'Payment request not found'
+      USING HINT = 'request_not_found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM (CASE WHEN _as_payer THEN _request.payer_id ELSE _request.requester_id END) THEN
+    RAISE EXCEPTION 'Not allowed to act on this payment request'
+      USING HINT = 'unauthorized_request';
+  END IF;
+
+  -- The status itself is updated by expire_payment_requests; raising here would undo it
+  IF _request.status = 'pending' AND _request.expires_at <= now() THEN
+    RAISE EXCEPTION 'Payment request has expired'
+      USING HINT = 'request_expired';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Payment request is already %', _request.status
+      USING HINT = 'request_not_pending';
+  END IF;
+
+  RETURN _request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pay_payment_request(_request_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.payment_requests;
+  _transaction_id UUID;
+BEGIN
+  _request := public.lock_pending_payment_request(_request_id, true);
+
+  _transaction_id := public.process_transaction(
+    _request.payer_id, _request.requester_id, _request.amount, _request.note
+  );
+
+  UPDATE public.transactions SET payment_request_id = _request_id WHERE id = _transaction_id;
+
+  UPDATE public.payment_requests
+  SET status = 'paid', transaction_id = _transaction_id, responded_at = now()
+  WHERE id = _request_id;
+
+  RETURN _transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_payment_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_pending_payment_request(_request_id, true);
+
+  UPDATE public.payment_requests
+  SET status = 'declined', responded_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_payment_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_pending_payment_request(_request_id, false);
+
+  UPDATE public.payment_requests
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+-- Marks overdue requests as expired: all of them for the service role (scheduled
+-- job), otherwise only the caller's own
+CREATE OR REPLACE FUNCTION public.expire_payment_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_service BOOLEAN := auth.role() IS NOT DISTINCT FROM 'service_role';
+  _expired INTEGER;
+BEGIN
+  IF NOT _is_service AND auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  UPDATE public.payment_requests
+  SET status = 'expired'
+  WHERE status = 'pending'
+  AND expires_at <= now()
+  AND (_is_service OR auth.uid() IN (requester_id, payer_id));
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+-- The caller's requests in both directions, with the other party's public details
+CREATE OR REPLACE FUNCTION public.get_payment_requests()
+RETURNS TABLE (
+  id UUID,
+  direction TEXT,
+  counterparty_id UUID,
+  counterparty_name VARCHAR,
+  counterparty_payment_id VARCHAR,
+  amount DECIMAL,
+  note VARCHAR,
+  status payment_request_status,
+  transaction_id UUID,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    CASE WHEN r.payer_id = auth.uid() THEN 'incoming' ELSE 'outgoing' END,
+    p.user_id,
+    p.display_name,
+    p.payment_id,
+    r.amount,
+    r.note,
+    CASE WHEN r.status = 'pending' AND r.expires_at <= now() THEN 'expired' ELSE r.status END,
+    r.transaction_id,
+    r.expires_at,
+    r.responded_at,
+    r.created_at
+  FROM public.payment_requests r
+  JOIN public.profiles p
+    ON p.user_id = CASE WHEN r.payer_id = auth.uid() THEN r.requester_id ELSE r.payer_id END
+  WHERE auth.uid() IN (r.requester_id, r.payer_id)
+  ORDER BY r.created_at DESC
+  LIMIT 100
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_pending_payment_request(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,264 @@
+-- Transfers that run later, once or on a schedule. The run-scheduled-transfers edge
+-- function calls execute_scheduled_transfers periodically with the service role.
+CREATE TYPE public.transfer_frequency AS ENUM ('once', 'daily', 'weekly', 'monthly');
+CREATE TYPE public.scheduled_transfer_status AS ENUM ('active', 'paused', 'completed', 'cancelled', 'failed');
+
+CREATE TABLE public.scheduled_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  receiver_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  description VARCHAR(255),
+  frequency transfer_frequency NOT NULL DEFAULT 'once',
+  -- Occurrences are counted from start_at so monthly runs keep their day of month
+  start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_at TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  status scheduled_transfer_status NOT NULL DEFAULT 'active',
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_error VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (user_id <> receiver_id),
+  CHECK (end_at IS NULL OR end_at >= start_at)
+);
+
+CREATE INDEX idx_scheduled_transfers_user ON public.scheduled_transfers(user_id);
+CREATE INDEX idx_scheduled_transfers_due ON public.scheduled_transfers(next_run_at)
+  WHERE status = 'active';
+
+-- One row per execution attempt
+CREATE TABLE public.scheduled_transfer_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scheduled_transfer_id UUID REFERENCES public.scheduled_transfers(id) ON DELETE CASCADE NOT NULL,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  succeeded BOOLEAN NOT NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  error_code TEXT,
+  error_message TEXT
+);
+
+CREATE INDEX idx_scheduled_transfer_runs_transfer
+  ON public.scheduled_transfer_runs(scheduled_transfer_id, run_at DESC);
+
+ALTER TABLE public.scheduled_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_transfer_runs ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own schedules; money only moves when the executor runs them
+-- through process_transaction, which re-checks everything
+CREATE POLICY "Users can view their own scheduled transfers"
+ON public.scheduled_transfers FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scheduled transfers"
+ON public.scheduled_transfers FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scheduled transfers"
+ON public.scheduled_transfers FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all scheduled transfers"
+ON public.scheduled_transfers FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view runs of their scheduled transfers"
+ON public.scheduled_transfer_runs FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.scheduled_transfers s
+  WHERE s.id = scheduled_transfer_id AND s.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_scheduled_transfers_updated_at
+BEFORE UPDATE ON public.scheduled_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The n-th occurrence of a schedule (0 is start_at)
+CREATE OR REPLACE FUNCTION public.scheduled_transfer_occurrence(
+  _start_at TIMESTAMP WITH TIME ZONE,
+  _frequency transfer_frequency,
+  _n INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT _start_at + _n * CASE _frequency
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '7 days'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    ELSE INTERVAL '0'
+  END
+$$;
+
+-- New and edited schedules start over from their start date, skipping occurrences
+-- already in the past
+CREATE OR REPLACE FUNCTION public.reset_scheduled_transfer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.start_at IS DISTINCT FROM OLD.start_at
+    OR NEW.frequency IS DISTINCT FROM OLD.frequency
+    OR (NEW.status = 'active' AND OLD.status <> 'active')
+  THEN
+    NEW.run_count := 0;
+    NEW.consecutive_failures := 0;
+    NEW.next_run_at := NEW.start_at;
+    IF NEW.frequency <> 'once' THEN
+      WHILE NEW.next_run_at < now() LOOP
+        NEW.run_count := NEW.run_count + 1;
+        NEW.next_run_at := public.scheduled_transfer_occurrence(NEW.start_at, NEW.frequency, NEW.run_count);
+      END LOOP;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_scheduled_transfer_schedule
+BEFORE INSERT OR UPDATE ON public.scheduled_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_scheduled_transfer();
+
+-- Run every due transfer once. Each one runs in its own subtransaction, so a failed
+-- payment is recorded without undoing the others. Missed occurrences (e.g. while the
+-- executor was down) are skipped rather than paid in a burst.
+CREATE OR REPLACE FUNCTION public.execute_scheduled_transfers(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  scheduled_transfer_id UUID,
+  user_id UUID,
+  succeeded BOOLEAN,
+  transaction_id UUID,
+  error_code TEXT,
+  error_message TEXT,
+  status scheduled_transfer_status
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_failures CONSTANT INTEGER := 3;
+  _transfer public.scheduled_transfers;
+  _transaction_id UUID;
+  _error_code TEXT;
+  _error_message TEXT;
+  _next_run_at TIMESTAMP WITH TIME ZONE;
+  _run_count INTEGER;
+  _status scheduled_transfer_status;
+BEGIN
+  FOR _transfer IN
+    SELECT * FROM public.scheduled_transfers s
+    WHERE s.status = 'active' AND s.next_run_at <= now()
+    ORDER BY s.next_run_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    _transaction_id := NULL;
+    _error_code := NULL;
+    _error_message := NULL;
+
+    BEGIN
+      _transaction_id := public.process_transaction(
+        _transfer.user_id, _transfer.receiver_id, _transfer.amount, _transfer.description
+      );
+    EXCEPTION WHEN OTHERS THEN
+      GET STACKED DIAGNOSTICS _error_code = PG_EXCEPTION_HINT, _error_message = MESSAGE_TEXT;
+      _error_code := NULLIF(_error_code, '');
+    END;
+
+    INSERT INTO public.scheduled_transfer_runs (
+      scheduled_transfer_id, succeeded, transaction_id, error_code, error_message
+    )
+    VALUES (_transfer.id, _transaction_id IS NOT NULL, _transaction_id, _error_code, _error_message);
+
+    _run_count := _transfer.run_count;
+    _next_run_at := NULL;
+    IF _transfer.frequency <> 'once' THEN
+      LOOP
+        _run_count := _run_count + 1;
+        _next_run_at := public.scheduled_transfer_occurrence(_transfer.start_at, _transfer.frequency, _run_count);
+        EXIT WHEN _next_run_at > now();
+      END LOOP;
+    END IF;
+
+    _status := CASE
+      WHEN _transaction_id IS NULL AND _transfer.frequency = 'once' THEN 'failed'
+      WHEN _transaction_id IS NULL AND _transfer.consecutive_failures + 1 >= _max_failures THEN 'paused'
+      WHEN _next_run_at IS NULL OR (_transfer.end_at IS NOT NULL AND _next_run_at > _transfer.end_at) THEN 'completed'
+      ELSE 'active'
+    END;
+
+    -- Set the columns directly: the reset trigger only fires on schedule edits
+    UPDATE public.scheduled_transfers s
+    SET run_count = _run_count,
+        next_run_at = CASE WHEN _status = 'active' THEN _next_run_at ELSE NULL END,
+        consecutive_failures = CASE WHEN _transaction_id IS NULL THEN s.consecutive_failures + 1 ELSE 0 END,
+        status = _status,
+        last_run_at = now(),
+        last_error = LEFT(_error_message, 255)
+    WHERE s.id = _transfer.id;
+
+    RETURN QUERY SELECT _transfer.id, _transfer.user_id, _transaction_id IS NOT NULL,
+      _transaction_id, _error_code, _error_message, _status;
+  END LOOP;
+END;
+$$;
+
+-- The caller's schedules with the recipient's public details
+CREATE OR REPLACE FUNCTION public.get_scheduled_transfers()
+RETURNS TABLE (
+  id UUID,
+  receiver_id UUID,
+  receiver_name VARCHAR,
+  receiver_payment_id VARCHAR,
+  amount DECIMAL,
+  description VARCHAR,
+  frequency transfer_frequency,
+  start_at TIMESTAMP WITH TIME ZONE,
+  end_at TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  run_count INTEGER,
+  consecutive_failures INTEGER,
+  status scheduled_transfer_status,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_error VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.receiver_id,
+    p.display_name,
+    p.payment_id,
+    s.amount,
+    s.description,
+    s.frequency,
+    s.start_at,
+    s.end_at,
+    s.next_run_at,
+    s.run_count,
+    s.consecutive_failures,
+    s.status,
+    s.last_run_at,
+    s.last_error,
+    s.created_at
+  FROM public.scheduled_transfers s
+  JOIN public.profiles p ON p.user_id = s.receiver_id
+  WHERE s.user_id = auth.uid()
+  ORDER BY (s.status IN ('active', 'paused')) DESC, s.next_run_at NULLS LAST, s.created_at DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.execute_scheduled_transfers(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.execute_scheduled_transfers(INTEGER) TO service_role;
@@ -0,0 +1,202 @@
+-- Bills split among several people. The creator paid the bill and asks every other
+-- participant for their share with one payment request each.
+CREATE TABLE public.bill_splits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  creator_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title VARCHAR(100) NOT NULL,
+  total_amount DECIMAL(12, 2) NOT NULL CHECK (total_amount > 0),
+  -- The part of the total the creator covers themselves
+  creator_share DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (creator_share >= 0),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bill_splits_creator ON public.bill_splits(creator_id, created_at DESC);
+
+ALTER TABLE public.payment_requests
+  ADD COLUMN bill_split_id UUID REFERENCES public.bill_splits(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payment_requests_bill_split
+  ON public.payment_requests(bill_split_id)
+  WHERE bill_split_id IS NOT NULL;
+
+ALTER TABLE public.bill_splits ENABLE ROW LEVEL SECURITY;
+
+-- Rows only change through the functions below
+CREATE POLICY "Creators can view their bill splits"
+ON public.bill_splits FOR SELECT
+USING (auth.uid() = creator_id);
+
+CREATE POLICY "Participants can view bill splits they are in"
+ON public.bill_splits FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.payment_requests r
+  WHERE r.bill_split_id = bill_splits.id AND r.payer_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all bill splits"
+ON public.bill_splits FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_bill_splits_updated_at
+BEFORE UPDATE ON public.bill_splits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- _shares is a JSON array of {"payer_id": UUID, "amount": number}. Whatever the shares
+-- leave of the total is the creator's own share.
+CREATE OR REPLACE FUNCTION public.create_bill_split(
+  _title VARCHAR,
+  _total_amount DECIMAL,
+  _shares JSONB,
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_participants CONSTANT INTEGER := 20;
+  _split_id UUID;
+  _share JSONB;
+  _shares_total DECIMAL;
+  _request_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  IF _total_amount IS NULL OR _total_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+
+  IF COALESCE(btrim(_title), '') = '' THEN
+    RAISE EXCEPTION 'A bill needs a title'
+      USING HINT = 'invalid_bill_split';
+  END IF;
+
+  IF jsonb_typeof(_shares) IS DISTINCT FROM 'array'
+    OR jsonb_array_length(_shares) = 0
+    OR jsonb_array_length(_shares) > _max_participants
+  THEN
+    RAISE EXCEPTION 'A bill needs between 1 and % other participants', _max_participants
+      USING HINT = 'invalid_bill_split';
+  END IF;
+
+  IF (SELECT count(DISTINCT s->>'payer_id') FROM jsonb_array_elements(_shares) s)
+    <> jsonb_array_length(_shares)
+  THEN
+    RAISE EXCEPTION 'Each participant can only appear once'
+      USING HINT = 'invalid_bill_split';
+  END IF;
+
+  SELECT sum((s->>'amount')::DECIMAL) INTO _shares_total FROM jsonb_array_elements(_shares) s;
+  IF _shares_total > _total_amount THEN
+    RAISE EXCEPTION 'Shares add up to more than the bill'
+      USING HINT = 'invalid_bill_split';
+  END IF;
+
+  INSERT INTO public.bill_splits (creator_id, title, total_amount, creator_share)
+  VALUES (auth.uid(), btrim(_title), _total_amount, _total_amount - _shares_total)
+  RETURNING id INTO _split_id;
+
+  -- create_payment_request checks each payer and amount; any failure undoes the whole bill
+  FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+    _request_id := public.create_payment_request(
+      (_share->>'payer_id')::UUID,
+      (_share->>'amount')::DECIMAL,
+      btrim(_title),
+      _expires_at
+    );
+    UPDATE public.payment_requests SET bill_split_id = _split_id WHERE id = _request_id;
+  END LOOP;
+
+  RETURN _split_id;
+END;
+$$;
+
+-- Stop collecting: cancels the requests nobody has answered yet
+CREATE OR REPLACE FUNCTION public.close_bill_split(_split_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _split public.bill_splits;
+  _cancelled INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _split FROM public.bill_splits WHERE id = _split_id FOR UPDATE;
+
+  IF NOT FOUND OR _split.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Bill not found'
+      USING HINT = 'bill_split_not_found';
+  END IF;
+
+  IF _split.closed_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.payment_requests
+  SET status = 'cancelled', responded_at = now()
+  WHERE bill_split_id = _split_id AND status = 'pending';
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  UPDATE public.bill_splits SET closed_at = now() WHERE id = _split_id;
+
+  RETURN _cancelled;
+END;
+$$;
+
+-- The caller's bills with every participant's share and where it stands
+CREATE OR REPLACE FUNCTION public.get_bill_splits()
+RETURNS TABLE (
+  id UUID,
+  title VARCHAR,
+  total_amount DECIMAL,
+  creator_share DECIMAL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  participants JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    b.title,
+    b.total_amount,
+    b.creator_share,
+    b.closed_at,
+    b.created_at,
+    jsonb_agg(
+      jsonb_build_object(
+        'request_id', r.id,
+        'payer_id', r.payer_id,
+        'display_name', p.display_name,
+        'payment_id', p.payment_id,
+        'amount', r.amount,
+        'status', CASE WHEN r.status = 'pending' AND r.expires_at <= now() THEN 'expired' ELSE r.status END,
+        'responded_at', r.responded_at
+      )
+      ORDER BY r.created_at
+    )
+  FROM public.bill_splits b
+  JOIN public.payment_requests r ON r.bill_split_id = b.id
+  JOIN public.profiles p ON p.user_id = r.payer_id
+  WHERE b.creator_id = auth.uid()
+  GROUP BY b.id
+  ORDER BY b.created_at DESC
+  LIMIT 50
+$$;
@@ -0,0 +1,124 @@
+-- Refunds and reversals. A reversal is a new transaction that moves money back from
+-- the original receiver to the original sender and points at the original through
+-- original_transaction_id; the original row is never edited apart from its running
+-- refunded_amount.
+ALTER TABLE public.transactions
+  ADD COLUMN original_transaction_id UUID REFERENCES public.transactions(id) ON DELETE RESTRICT,
+  -- Who started the reversal: the original receiver (a refund) or an admin
+  ADD COLUMN reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_refunded_amount_check
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+CREATE INDEX idx_transactions_original
+  ON public.transactions(original_transaction_id)
+  WHERE original_transaction_id IS NOT NULL;
+
+-- Reverses all or part of a completed transaction. The receiver may refund any part of
+-- what they received; admins may reverse any transaction (the whole remainder by
+-- default) and doing so closes its fraud review. The total reversed can never exceed
+-- the original amount, so a transaction cannot be reversed twice.
+CREATE OR REPLACE FUNCTION public.reverse_transaction(
+  _transaction_id UUID,
+  _amount DECIMAL DEFAULT NULL,
+  _reason VARCHAR DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.transactions;
+  _is_admin BOOLEAN;
+  _remaining DECIMAL;
+  _refund DECIMAL;
+  _receiver_balance DECIMAL;
+  _description VARCHAR;
+  _reversal_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  _is_admin := public.has_role(auth.uid(), 'admin');
+  SELECT * INTO _original FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (_is_admin OR auth.uid() IN (_original.sender_id, _original.receiver_id)) THEN
+    RAISE EXCEPTION 'Transaction not found'
+      USING HINT = 'transaction_not_found';
+  END IF;
+
+  IF NOT _is_admin AND auth.uid() IS DISTINCT FROM _original.receiver_id THEN
+    RAISE EXCEPTION 'Only the receiver can refund a payment'
+      USING HINT = 'unauthorized_reversal';
+  END IF;
+
+  IF _original.status <> 'completed'
+    OR _original.original_transaction_id IS NOT NULL
+    OR _original.sender_id IS NULL
+    OR _original.receiver_id IS NULL
+  THEN
+    RAISE EXCEPTION 'This transaction cannot be reversed'
+      USING HINT = 'transaction_not_reversible';
+  END IF;
+
+  _remaining := _original.amount - _original.refunded_amount;
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Transaction has already been reversed'
+      USING HINT = 'already_reversed';
+  END IF;
+
+  _refund := COALESCE(_amount, _remaining);
+  IF _refund <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+  IF _refund > _remaining THEN
+    RAISE EXCEPTION 'Refund exceeds the amount left to refund (%)', _remaining
+      USING HINT = 'refund_exceeds_remaining';
+  END IF;
+
+  -- Lock both wallets in a fixed order so concurrent reversals cannot deadlock
+  PERFORM 1 FROM public.wallets
+  WHERE user_id IN (_original.sender_id, _original.receiver_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO _receiver_balance FROM public.wallets WHERE user_id = _original.receiver_id;
+  IF _receiver_balance IS NULL OR _receiver_balance < _refund THEN
+    RAISE EXCEPTION 'Insufficient balance'
+      USING HINT = 'insufficient_balance';
+  END IF;
+
+  -- Money returns to the sender's online balance even if it left their offline purse,
+  -- and offline daily usage is not given back
+  UPDATE public.wallets SET balance = balance - _refund WHERE user_id = _original.receiver_id;
+  UPDATE public.wallets SET balance = balance + _refund WHERE user_id = _original.sender_id;
+
+  _description := LEFT(COALESCE(
+    NULLIF(btrim(_reason), ''),
+    CASE WHEN auth.uid() = _original.receiver_id THEN 'Refund' ELSE 'Reversed by admin' END
+  ), 255);
+
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description, original_transaction_id, reversed_by
+  )
+  VALUES (
+    _original.receiver_id, _original.sender_id, _refund, 'completed', _description,
+    _original.id, auth.uid()
+  )
+  RETURNING id INTO _reversal_id;
+
+  UPDATE public.transactions
+  SET refunded_amount = refunded_amount + _refund,
+      fraud_flagged = CASE WHEN _is_admin THEN false ELSE fraud_flagged END,
+      fraud_reason = CASE WHEN _is_admin AND fraud_flagged THEN _description ELSE fraud_reason END
+  WHERE id = _original.id;
+
+  RETURN _reversal_id;
+END;
+$$;
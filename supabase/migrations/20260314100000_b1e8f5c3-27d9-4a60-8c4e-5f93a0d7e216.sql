@@ -0,0 +1,635 @@
+-- Double-entry ledger under wallet balances. Every change to wallets.balance or
+-- wallets.offline_reserve is posted as a journal of one debit and one credit of the same
+-- amount, so balances can be audited and rebuilt from ledger_entries.
+--
+-- Wallet accounts are what the platform owes its users: a credit increases them and a
+-- debit decreases them. The external account stands for money entering or leaving the
+-- system, such as opening balances.
+CREATE TYPE public.ledger_account AS ENUM ('wallet_balance', 'offline_reserve', 'external');
+CREATE TYPE public.ledger_entry_type AS ENUM ('debit', 'credit');
+CREATE TYPE public.ledger_entry_kind AS ENUM (
+  'opening_balance',
+  'transfer',
+  'reversal',
+  'offline_purse_load',
+  'offline_purse_unload'
+);
+
+CREATE TABLE public.ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The debit and credit of one posting share a journal id
+  journal_id UUID NOT NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE RESTRICT,
+  -- NULL for the external account
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  account ledger_account NOT NULL,
+  entry_type ledger_entry_type NOT NULL,
+  kind ledger_entry_kind NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((account = 'external') = (user_id IS NULL))
+);
+
+CREATE INDEX idx_ledger_entries_user_account ON public.ledger_entries(user_id, account);
+CREATE INDEX idx_ledger_entries_journal ON public.ledger_entries(journal_id);
+CREATE INDEX idx_ledger_entries_transaction
+  ON public.ledger_entries(transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Entries are append-only and written by the functions below
+CREATE POLICY "Users can view their own ledger entries"
+ON public.ledger_entries FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ledger entries"
+ON public.ledger_entries FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Writes the two entries of a journal without touching wallets
+CREATE OR REPLACE FUNCTION public.insert_ledger_journal(
+  _debit_user_id UUID,
+  _debit_account ledger_account,
+  _credit_user_id UUID,
+  _credit_account ledger_account,
+  _amount DECIMAL,
+  _kind ledger_entry_kind,
+  _transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.ledger_entries (journal_id, transaction_id, user_id, account, entry_type, kind, amount)
+  VALUES
+    (_journal_id, _transaction_id, _debit_user_id, _debit_account, 'debit', _kind, _amount),
+    (_journal_id, _transaction_id, _credit_user_id, _credit_account, 'credit', _kind, _amount);
+
+  RETURN _journal_id;
+END;
+$$;
+
+-- Moves one wallet account's balance by a signed amount. Only post_ledger_transfer sets
+-- the flag the guard trigger below checks.
+CREATE OR REPLACE FUNCTION public.apply_ledger_entry(
+  _user_id UUID,
+  _account ledger_account,
+  _delta DECIMAL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _account = 'wallet_balance' THEN
+    UPDATE public.wallets SET balance = balance + _delta WHERE user_id = _user_id;
+  ELSIF _account = 'offline_reserve' THEN
+    UPDATE public.wallets SET offline_reserve = offline_reserve + _delta WHERE user_id = _user_id;
+  END IF;
+END;
+$$;
+
+-- The only way balances change: records the journal and applies it to both wallets.
+-- Callers check balances first; the wallets' CHECK constraints are the backstop.
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  _debit_user_id UUID,
+  _debit_account ledger_account,
+  _credit_user_id UUID,
+  _credit_account ledger_account,
+  _amount DECIMAL,
+  _kind ledger_entry_kind,
+  _transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id UUID;
+BEGIN
+  _journal_id := public.insert_ledger_journal(
+    _debit_user_id, _debit_account, _credit_user_id, _credit_account,
+    _amount, _kind, _transaction_id
+  );
+
+  PERFORM set_config('offlinepay.ledger_posting', 'on', true);
+  PERFORM public.apply_ledger_entry(_debit_user_id, _debit_account, -_amount);
+  PERFORM public.apply_ledger_entry(_credit_user_id, _credit_account, _amount);
+  PERFORM set_config('offlinepay.ledger_posting', 'off', true);
+
+  RETURN _journal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_ledger_journal(UUID, ledger_account, UUID, ledger_account, DECIMAL, ledger_entry_kind, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_ledger_entry(UUID, ledger_account, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transfer(UUID, ledger_account, UUID, ledger_account, DECIMAL, ledger_entry_kind, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Rejects balance changes that did not come through post_ledger_transfer, and new
+-- wallets that start with money other than through create_wallet
+CREATE OR REPLACE FUNCTION public.guard_wallet_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('offlinepay.ledger_posting', true) IS DISTINCT FROM 'on' AND (
+    (TG_OP = 'INSERT' AND (NEW.balance <> 0 OR NEW.offline_reserve <> 0))
+    OR (TG_OP = 'UPDATE' AND (NEW.balance IS DISTINCT FROM OLD.balance
+      OR NEW.offline_reserve IS DISTINCT FROM OLD.offline_reserve))
+  ) THEN
+    RAISE EXCEPTION 'Wallet balances can only change through ledger postings'
+      USING HINT = 'ledger_bypass';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_wallet_balances
+BEFORE INSERT OR UPDATE ON public.wallets
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_wallet_balances();
+
+-- Wallets are only created by the server, so clients cannot pick their own balance
+DROP POLICY "Users can insert their own wallet" ON public.wallets;
+
+-- Wallets are created with their starting balance already set, so it is journaled
+-- against the external account after the fact
+CREATE OR REPLACE FUNCTION public.record_opening_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.balance > 0 THEN
+    PERFORM public.insert_ledger_journal(
+      NULL, 'external', NEW.user_id, 'wallet_balance', NEW.balance, 'opening_balance'
+    );
+  END IF;
+  IF NEW.offline_reserve > 0 THEN
+    PERFORM public.insert_ledger_journal(
+      NULL, 'external', NEW.user_id, 'offline_reserve', NEW.offline_reserve, 'opening_balance'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_opening_balance
+AFTER INSERT ON public.wallets
+FOR EACH ROW
+EXECUTE FUNCTION public.record_opening_balance();
+
+-- Creates the signed-in user's wallet with the demo starting balance, journaled as its
+-- opening balance by record_opening_balance
+CREATE OR REPLACE FUNCTION public.create_wallet()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  PERFORM set_config('offlinepay.ledger_posting', 'on', true);
+  INSERT INTO public.wallets (user_id, balance)
+  VALUES (auth.uid(), 1000.00)
+  ON CONFLICT (user_id) DO NOTHING;
+  PERFORM set_config('offlinepay.ledger_posting', 'off', true);
+
+  SELECT id INTO _wallet_id FROM public.wallets WHERE user_id = auth.uid();
+  RETURN _wallet_id;
+END;
+$$;
+
+-- History before the ledger cannot be reconstructed, so current balances are brought
+-- forward as opening entries
+DO $$
+DECLARE
+  _wallet public.wallets;
+BEGIN
+  FOR _wallet IN SELECT * FROM public.wallets LOOP
+    IF _wallet.balance > 0 THEN
+      PERFORM public.insert_ledger_journal(
+        NULL, 'external', _wallet.user_id, 'wallet_balance', _wallet.balance, 'opening_balance'
+      );
+    END IF;
+    IF _wallet.offline_reserve > 0 THEN
+      PERFORM public.insert_ledger_journal(
+        NULL, 'external', _wallet.user_id, 'offline_reserve', _wallet.offline_reserve, 'opening_balance'
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- The functions that move money, now posting through the ledger
+
+CREATE OR REPLACE FUNCTION public.load_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF _wallet.balance < _amount THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  IF _wallet.offline_reserve + _amount > _wallet.offline_daily_limit THEN
+    RAISE EXCEPTION 'Offline purse cannot exceed the offline daily limit';
+  END IF;
+
+  PERFORM public.post_ledger_transfer(
+    _wallet.user_id, 'wallet_balance', _wallet.user_id, 'offline_reserve',
+    _amount, 'offline_purse_load'
+  );
+
+  RETURN _wallet.offline_reserve + _amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unload_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+  _returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  _returned := LEAST(_amount, _wallet.offline_reserve);
+
+  IF _returned > 0 THEN
+    PERFORM public.post_ledger_transfer(
+      _wallet.user_id, 'offline_reserve', _wallet.user_id, 'wallet_balance',
+      _returned, 'offline_purse_unload'
+    );
+  END IF;
+
+  RETURN _returned;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL,
+  _offline_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _is_service BOOLEAN := auth.role() IS NOT DISTINCT FROM 'service_role';
+  _sender_balance DECIMAL;
+  _sender_reserve DECIMAL;
+  _offline_limit DECIMAL;
+  _offline_date DATE;
+  _offline_used DECIMAL;
+  _receiver_active BOOLEAN;
+  _source_account ledger_account;
+BEGIN
+  IF NOT _is_service THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Not authenticated'
+        USING HINT = 'not_authenticated';
+    END IF;
+
+    -- Admin override: admins may move funds on behalf of another user
+    IF _sender_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Cannot send money from another user''s wallet'
+        USING HINT = 'unauthorized_sender';
+    END IF;
+  END IF;
+
+  IF _is_offline AND NOT _is_service THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification'
+      USING HINT = 'offline_not_allowed';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed'
+      USING HINT = 'unsigned_voucher';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+
+  IF _sender_id = _receiver_id THEN
+    RAISE EXCEPTION 'Cannot send money to yourself'
+      USING HINT = 'self_transfer';
+  END IF;
+
+  SELECT p.is_active INTO _receiver_active
+  FROM public.profiles p
+  JOIN public.wallets w ON w.user_id = p.user_id
+  WHERE p.user_id = _receiver_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receiver not found'
+      USING HINT = 'receiver_not_found';
+  END IF;
+
+  IF _receiver_active IS NOT TRUE THEN
+    RAISE EXCEPTION 'Receiver account is not active'
+      USING HINT = 'receiver_inactive';
+  END IF;
+
+  -- Check sender balance
+  SELECT balance, offline_reserve, offline_daily_limit
+  INTO _sender_balance, _sender_reserve, _offline_limit
+  FROM public.wallets WHERE user_id = _sender_id FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found'
+      USING HINT = 'sender_wallet_not_found';
+  END IF;
+
+  IF _is_offline THEN
+    -- A backdated voucher would land on a day with unused limit, so it must be recent.
+    -- submit_offline_voucher checks it is no older than the device key that signed it.
+    IF _offline_timestamp < now() - INTERVAL '72 hours' THEN
+      RAISE EXCEPTION 'Offline voucher is too old to settle'
+        USING HINT = 'voucher_expired';
+    END IF;
+
+    _offline_date := COALESCE(_offline_timestamp, now())::date;
+
+    INSERT INTO public.offline_daily_usage (user_id, usage_date)
+    VALUES (_sender_id, _offline_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT amount_used INTO _offline_used
+    FROM public.offline_daily_usage
+    WHERE user_id = _sender_id AND usage_date = _offline_date
+    FOR UPDATE;
+
+    IF _offline_used + _amount > _offline_limit THEN
+      RAISE EXCEPTION 'Offline daily limit exceeded'
+        USING HINT = 'offline_limit_exceeded';
+    END IF;
+
+    UPDATE public.offline_daily_usage
+    SET amount_used = amount_used + _amount
+    WHERE user_id = _sender_id AND usage_date = _offline_date;
+
+    -- Mirror today's usage onto the wallet counter the app displays
+    IF _offline_date = CURRENT_DATE THEN
+      UPDATE public.wallets
+      SET offline_used_today = _offline_used + _amount,
+          last_offline_reset = CURRENT_DATE
+      WHERE user_id = _sender_id;
+    END IF;
+  END IF;
+
+  IF _is_offline AND _sender_reserve >= _amount THEN
+    -- Paid from the escrowed offline purse
+    _source_account := 'offline_reserve';
+  ELSE
+    IF _sender_balance < _amount THEN
+      RAISE EXCEPTION 'Insufficient balance'
+        USING HINT = 'insufficient_balance';
+    END IF;
+    _source_account := 'wallet_balance';
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description,
+    is_offline, transaction_hash, device_id, synced_at, voucher_signature,
+    offline_created_at
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, 'completed', _description,
+    _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature,
+    CASE WHEN _is_offline THEN COALESCE(_offline_timestamp, now()) ELSE NULL END
+  )
+  RETURNING id INTO _transaction_id;
+
+  PERFORM public.post_ledger_transfer(
+    _sender_id, _source_account, _receiver_id, 'wallet_balance',
+    _amount, 'transfer', _transaction_id
+  );
+
+  RETURN _transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reverse_transaction(
+  _transaction_id UUID,
+  _amount DECIMAL DEFAULT NULL,
+  _reason VARCHAR DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.transactions;
+  _is_admin BOOLEAN;
+  _remaining DECIMAL;
+  _refund DECIMAL;
+  _receiver_balance DECIMAL;
+  _description VARCHAR;
+  _reversal_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  _is_admin := public.has_role(auth.uid(), 'admin');
+  SELECT * INTO _original FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (_is_admin OR auth.uid() IN (_original.sender_id, _original.receiver_id)) THEN
+    RAISE EXCEPTION 'Transaction not found'
+      USING HINT = 'transaction_not_found';
+  END IF;
+
+  IF NOT _is_admin AND auth.uid() IS DISTINCT FROM _original.receiver_id THEN
+    RAISE EXCEPTION 'Only the receiver can refund a payment'
+      USING HINT = 'unauthorized_reversal';
+  END IF;
+
+  IF _original.status <> 'completed'
+    OR _original.original_transaction_id IS NOT NULL
+    OR _original.sender_id IS NULL
+    OR _original.receiver_id IS NULL
+  THEN
+    RAISE EXCEPTION 'This transaction cannot be reversed'
+      USING HINT = 'transaction_not_reversible';
+  END IF;
+
+  _remaining := _original.amount - _original.refunded_amount;
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Transaction has already been reversed'
+      USING HINT = 'already_reversed';
+  END IF;
+
+  _refund := COALESCE(_amount, _remaining);
+  IF _refund <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+  IF _refund > _remaining THEN
+    RAISE EXCEPTION 'Refund exceeds the amount left to refund (%)', _remaining
+      USING HINT = 'refund_exceeds_remaining';
+  END IF;
+
+  -- Lock both wallets in a fixed order so concurrent reversals cannot deadlock
+  PERFORM 1 FROM public.wallets
+  WHERE user_id IN (_original.sender_id, _original.receiver_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO _receiver_balance FROM public.wallets WHERE user_id = _original.receiver_id;
+  IF _receiver_balance IS NULL OR _receiver_balance < _refund THEN
+    RAISE EXCEPTION 'Insufficient balance'
+      USING HINT = 'insufficient_balance';
+  END IF;
+
+  _description := LEFT(COALESCE(
+    NULLIF(btrim(_reason), ''),
+    CASE WHEN auth.uid() = _original.receiver_id THEN 'Refund' ELSE 'Reversed by admin' END
+  ), 255);
+
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, status, description, original_transaction_id, reversed_by
+  )
+  VALUES (
+    _original.receiver_id, _original.sender_id, _refund, 'completed', _description,
+    _original.id, auth.uid()
+  )
+  RETURNING id INTO _reversal_id;
+
+  -- Money returns to the sender's online balance even if it left their offline purse,
+  -- and offline daily usage is not given back
+  PERFORM public.post_ledger_transfer(
+    _original.receiver_id, 'wallet_balance', _original.sender_id, 'wallet_balance',
+    _refund, 'reversal', _reversal_id
+  );
+
+  UPDATE public.transactions
+  SET refunded_amount = refunded_amount + _refund,
+      fraud_flagged = CASE WHEN _is_admin THEN false ELSE fraud_flagged END,
+      fraud_reason = CASE WHEN _is_admin AND fraud_flagged THEN _description ELSE fraud_reason END
+  WHERE id = _original.id;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- Recomputes every wallet account from its ledger entries and returns the ones whose
+-- stored balance has drifted from the ledger. An empty result means the books agree.
+CREATE OR REPLACE FUNCTION public.reconcile_wallet_balances()
+RETURNS TABLE (
+  user_id UUID,
+  display_name VARCHAR,
+  payment_id VARCHAR,
+  account ledger_account,
+  wallet_amount DECIMAL,
+  ledger_amount DECIMAL,
+  drift DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reconcile balances'
+      USING HINT = 'admin_only';
+  END IF;
+
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT
+      e.user_id,
+      e.account,
+      sum(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE -e.amount END) AS amount
+    FROM public.ledger_entries e
+    WHERE e.user_id IS NOT NULL
+    GROUP BY e.user_id, e.account
+  ),
+  stored AS (
+    SELECT w.user_id, 'wallet_balance'::ledger_account AS account, w.balance AS amount
+    FROM public.wallets w
+    UNION ALL
+    SELECT w.user_id, 'offline_reserve'::ledger_account, w.offline_reserve
+    FROM public.wallets w
+  )
+  SELECT
+    COALESCE(s.user_id, l.user_id),
+    p.display_name,
+    p.payment_id,
+    COALESCE(s.account, l.account),
+    COALESCE(s.amount, 0),
+    COALESCE(l.amount, 0),
+    COALESCE(s.amount, 0) - COALESCE(l.amount, 0)
+  FROM stored s
+  FULL JOIN ledger l ON l.user_id = s.user_id AND l.account = s.account
+  LEFT JOIN public.profiles p ON p.user_id = COALESCE(s.user_id, l.user_id)
+  WHERE COALESCE(s.amount, 0) <> COALESCE(l.amount, 0)
+  ORDER BY abs(COALESCE(s.amount, 0) - COALESCE(l.amount, 0)) DESC;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Amounts are DECIMAL(12,2), which silently rounds a third decimal place: a transfer of
+-- 10.005 would be recorded as 10.01 while the unrounded value moved through the
+-- functions. Every posting now rejects amounts that are not a whole number of paise or
+-- exceed the largest single payment (MAX_PAYMENT_AMOUNT in src/lib/money.ts).
+-- This only validates: amount columns and function arguments stay DECIMAL(12,2) rupees,
+-- and the client converts them to integer paise (Money) as they come in.
+CREATE OR REPLACE FUNCTION public.assert_valid_amount(_amount DECIMAL)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 OR _amount <> round(_amount, 2) OR _amount > 10000000 THEN
+    RAISE EXCEPTION 'Invalid amount: %', _amount
+      USING HINT = 'invalid_amount';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  _debit_user_id UUID,
+  _debit_account ledger_account,
+  _credit_user_id UUID,
+  _credit_account ledger_account,
+  _amount DECIMAL,
+  _kind ledger_entry_kind,
+  _transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id UUID;
+BEGIN
+  PERFORM public.assert_valid_amount(_amount);
+
+  _journal_id := public.insert_ledger_journal(
+    _debit_user_id, _debit_account, _credit_user_id, _credit_account,
+    _amount, _kind, _transaction_id
+  );
+
+  PERFORM set_config('offlinepay.ledger_posting', 'on', true);
+  PERFORM public.apply_ledger_entry(_debit_user_id, _debit_account, -_amount);
+  PERFORM public.apply_ledger_entry(_credit_user_id, _credit_account, _amount);
+  PERFORM set_config('offlinepay.ledger_posting', 'off', true);
+
+  RETURN _journal_id;
+END;
+$$;
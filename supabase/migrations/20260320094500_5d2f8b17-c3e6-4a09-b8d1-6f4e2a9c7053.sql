@@ -0,0 +1,737 @@
+-- Wallets per currency for the cross-border pilot. Every user keeps their INR wallet,
+-- which is the only one offline payments, payment requests, scheduled transfers and
+-- bill splits use, and may open wallets in other supported currencies. Transfers stay
+-- within one currency unless the sender explicitly asks for a conversion at a rate from
+-- fx_rates.
+--
+-- Amounts are still DECIMAL(12, 2) and Money on the client is a count of minor units,
+-- so only currencies with two decimal places can be supported.
+CREATE TABLE public.currencies (
+  code CHAR(3) NOT NULL PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  name VARCHAR(50) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.currencies (code, name) VALUES
+  ('INR', 'Indian Rupee'),
+  ('USD', 'US Dollar'),
+  ('EUR', 'Euro'),
+  ('GBP', 'Pound Sterling'),
+  ('AED', 'UAE Dirham'),
+  ('SGD', 'Singapore Dollar');
+
+ALTER TABLE public.currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view currencies"
+ON public.currencies FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage currencies"
+ON public.currencies FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- One unit of base_currency buys rate units of quote_currency. Rates are maintained by
+-- admins and are only applied to transfers that request a conversion.
+CREATE TABLE public.fx_rates (
+  base_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+  quote_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view FX rates"
+ON public.fx_rates FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage FX rates"
+ON public.fx_rates FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_fx_rates_updated_at
+BEFORE UPDATE ON public.fx_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing wallets are all INR
+ALTER TABLE public.wallets
+  ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'INR' REFERENCES public.currencies(code);
+ALTER TABLE public.wallets DROP CONSTRAINT wallets_user_id_key;
+ALTER TABLE public.wallets ADD CONSTRAINT wallets_user_id_currency_key UNIQUE (user_id, currency);
+
+-- A user may now hold several wallets, so open_wallet is the only way to create one
+DROP FUNCTION public.create_wallet();
+
+-- amount and currency are what the sender paid. A conversion also records what the
+-- receiver got and the rate applied: received_amount = round(amount * fx_rate, 2).
+ALTER TABLE public.transactions
+  ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'INR' REFERENCES public.currencies(code),
+  ADD COLUMN received_amount DECIMAL(12, 2) CHECK (received_amount > 0),
+  ADD COLUMN received_currency CHAR(3) REFERENCES public.currencies(code),
+  ADD COLUMN fx_rate DECIMAL(18, 8) CHECK (fx_rate > 0),
+  ADD CONSTRAINT transactions_conversion_check CHECK (
+    (received_currency IS NULL AND received_amount IS NULL AND fx_rate IS NULL)
+    OR (received_currency IS NOT NULL AND received_amount IS NOT NULL AND fx_rate IS NOT NULL
+      AND received_currency <> currency)
+  );
+
+-- Entries only balance within a currency; the external account nets per currency too
+ALTER TABLE public.ledger_entries
+  ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'INR' REFERENCES public.currencies(code);
+ALTER TABLE public.ledger_entries ALTER COLUMN currency DROP DEFAULT;
+
+DROP INDEX public.idx_ledger_entries_user_account;
+CREATE INDEX idx_ledger_entries_user_account ON public.ledger_entries(user_id, currency, account);
+
+-- The ledger functions now take the currency of the posting
+
+DROP FUNCTION public.post_ledger_transfer(UUID, ledger_account, UUID, ledger_account, DECIMAL, ledger_entry_kind, UUID);
+DROP FUNCTION public.apply_ledger_entry(UUID, ledger_account, DECIMAL);
+DROP FUNCTION public.insert_ledger_journal(UUID, ledger_account, UUID, ledger_account, DECIMAL, ledger_entry_kind, UUID);
+
+CREATE OR REPLACE FUNCTION public.insert_ledger_journal(
+  _debit_user_id UUID,
+  _debit_account ledger_account,
+  _credit_user_id UUID,
+  _credit_account ledger_account,
+  _amount DECIMAL,
+  _currency CHAR(3),
+  _kind ledger_entry_kind,
+  _transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.ledger_entries (
+    journal_id, transaction_id, user_id, account, entry_type, kind, amount, currency
+  )
+  VALUES
+    (_journal_id, _transaction_id, _debit_user_id, _debit_account, 'debit', _kind, _amount, _currency),
+    (_journal_id, _transaction_id, _credit_user_id, _credit_account, 'credit', _kind, _amount, _currency);
+
+  RETURN _journal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_ledger_entry(
+  _user_id UUID,
+  _account ledger_account,
+  _currency CHAR(3),
+  _delta DECIMAL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _account = 'wallet_balance' THEN
+    UPDATE public.wallets SET balance = balance + _delta
+    WHERE user_id = _user_id AND currency = _currency;
+  ELSIF _account = 'offline_reserve' THEN
+    UPDATE public.wallets SET offline_reserve = offline_reserve + _delta
+    WHERE user_id = _user_id AND currency = _currency;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  _debit_user_id UUID,
+  _debit_account ledger_account,
+  _credit_user_id UUID,
+  _credit_account ledger_account,
+  _amount DECIMAL,
+  _currency CHAR(3),
+  _kind ledger_entry_kind,
+  _transaction_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id UUID;
+BEGIN
+  PERFORM public.assert_valid_amount(_amount);
+
+  _journal_id := public.insert_ledger_journal(
+    _debit_user_id, _debit_account, _credit_user_id, _credit_account,
+    _amount, _currency, _kind, _transaction_id
+  );
+
+  PERFORM set_config('offlinepay.ledger_posting', 'on', true);
+  PERFORM public.apply_ledger_entry(_debit_user_id, _debit_account, _currency, -_amount);
+  PERFORM public.apply_ledger_entry(_credit_user_id, _credit_account, _currency, _amount);
+  PERFORM set_config('offlinepay.ledger_posting', 'off', true);
+
+  RETURN _journal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_ledger_journal(UUID, ledger_account, UUID, ledger_account, DECIMAL, CHAR, ledger_entry_kind, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_ledger_entry(UUID, ledger_account, CHAR, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transfer(UUID, ledger_account, UUID, ledger_account, DECIMAL, CHAR, ledger_entry_kind, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_opening_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.balance > 0 THEN
+    PERFORM public.insert_ledger_journal(
+      NULL, 'external', NEW.user_id, 'wallet_balance', NEW.balance, NEW.currency, 'opening_balance'
+    );
+  END IF;
+  IF NEW.offline_reserve > 0 THEN
+    PERFORM public.insert_ledger_journal(
+      NULL, 'external', NEW.user_id, 'offline_reserve', NEW.offline_reserve, NEW.currency, 'opening_balance'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Opens a wallet, or returns the one already open. The INR wallet opened at signup gets
+-- the demo starting balance; wallets in other currencies start empty.
+CREATE OR REPLACE FUNCTION public.open_wallet(_currency CHAR(3))
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.currencies WHERE code = _currency AND is_active) THEN
+    RAISE EXCEPTION 'Currency % is not supported', _currency
+      USING HINT = 'unsupported_currency';
+  END IF;
+
+  -- Offline payments are rupee-only, so other wallets get no offline allowance
+  PERFORM set_config('offlinepay.ledger_posting', 'on', true);
+  INSERT INTO public.wallets (user_id, currency, balance, offline_daily_limit)
+  VALUES (
+    auth.uid(),
+    _currency,
+    CASE WHEN _currency = 'INR' THEN 1000.00 ELSE 0 END,
+    CASE WHEN _currency = 'INR' THEN 5000.00 ELSE 0 END
+  )
+  ON CONFLICT (user_id, currency) DO NOTHING;
+  PERFORM set_config('offlinepay.ledger_posting', 'off', true);
+
+  SELECT id INTO _wallet_id FROM public.wallets WHERE user_id = auth.uid() AND currency = _currency;
+  RETURN _wallet_id;
+END;
+$$;
+
+-- The offline purse belongs to the INR wallet
+
+CREATE OR REPLACE FUNCTION public.load_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets
+  WHERE user_id = auth.uid() AND currency = 'INR'
+  FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF _wallet.balance < _amount THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  IF _wallet.offline_reserve + _amount > _wallet.offline_daily_limit THEN
+    RAISE EXCEPTION 'Offline purse cannot exceed the offline daily limit';
+  END IF;
+
+  PERFORM public.post_ledger_transfer(
+    _wallet.user_id, 'wallet_balance', _wallet.user_id, 'offline_reserve',
+    _amount, _wallet.currency, 'offline_purse_load'
+  );
+
+  RETURN _wallet.offline_reserve + _amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unload_offline_purse(_amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.wallets%ROWTYPE;
+  _returned DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  SELECT * INTO _wallet FROM public.wallets
+  WHERE user_id = auth.uid() AND currency = 'INR'
+  FOR UPDATE;
+
+  IF _wallet.id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  _returned := LEAST(_amount, _wallet.offline_reserve);
+
+  IF _returned > 0 THEN
+    PERFORM public.post_ledger_transfer(
+      _wallet.user_id, 'offline_reserve', _wallet.user_id, 'wallet_balance',
+      _returned, _wallet.currency, 'offline_purse_unload'
+    );
+  END IF;
+
+  RETURN _returned;
+END;
+$$;
+
+-- process_transaction takes the currency to pay from and, for a conversion, the currency
+-- the receiver should get. Callers that pass neither keep paying INR to INR.
+DROP FUNCTION public.process_transaction(UUID, UUID, DECIMAL, VARCHAR, BOOLEAN, VARCHAR, VARCHAR, TEXT, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.process_transaction(
+  _sender_id UUID,
+  _receiver_id UUID,
+  _amount DECIMAL,
+  _description VARCHAR DEFAULT NULL,
+  _is_offline BOOLEAN DEFAULT false,
+  _transaction_hash VARCHAR DEFAULT NULL,
+  _device_id VARCHAR DEFAULT NULL,
+  _voucher_signature TEXT DEFAULT NULL,
+  _offline_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _currency CHAR(3) DEFAULT 'INR',
+  _receive_currency CHAR(3) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction_id UUID;
+  _is_service BOOLEAN := auth.role() IS NOT DISTINCT FROM 'service_role';
+  _sender_balance DECIMAL;
+  _sender_reserve DECIMAL;
+  _offline_limit DECIMAL;
+  _offline_date DATE;
+  _offline_used DECIMAL;
+  _receiver_active BOOLEAN;
+  _source_account ledger_account;
+  _fx_rate DECIMAL;
+  _received_amount DECIMAL;
+BEGIN
+  IF NOT _is_service THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Not authenticated'
+        USING HINT = 'not_authenticated';
+    END IF;
+
+    -- Admin override: admins may move funds on behalf of another user
+    IF _sender_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Cannot send money from another user''s wallet'
+        USING HINT = 'unauthorized_sender';
+    END IF;
+  END IF;
+
+  IF _is_offline AND NOT _is_service THEN
+    RAISE EXCEPTION 'Offline vouchers must be submitted for signature verification'
+      USING HINT = 'offline_not_allowed';
+  END IF;
+
+  IF _is_offline AND _voucher_signature IS NULL THEN
+    RAISE EXCEPTION 'Offline voucher is not signed'
+      USING HINT = 'unsigned_voucher';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+
+  IF _sender_id = _receiver_id THEN
+    RAISE EXCEPTION 'Cannot send money to yourself'
+      USING HINT = 'self_transfer';
+  END IF;
+
+  _currency := COALESCE(_currency, 'INR');
+  _receive_currency := COALESCE(_receive_currency, _currency);
+
+  IF _is_offline AND (_currency <> 'INR' OR _receive_currency <> 'INR') THEN
+    RAISE EXCEPTION 'Offline vouchers are always in INR'
+      USING HINT = 'offline_currency_unsupported';
+  END IF;
+
+  SELECT p.is_active INTO _receiver_active
+  FROM public.profiles p
+  WHERE p.user_id = _receiver_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receiver not found'
+      USING HINT = 'receiver_not_found';
+  END IF;
+
+  IF _receiver_active IS NOT TRUE THEN
+    RAISE EXCEPTION 'Receiver account is not active'
+      USING HINT = 'receiver_inactive';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.wallets WHERE user_id = _receiver_id AND currency = _receive_currency
+  ) THEN
+    RAISE EXCEPTION 'Receiver has no % wallet', _receive_currency
+      USING HINT = 'currency_mismatch';
+  END IF;
+
+  -- Currencies only change hands at an explicit rate from fx_rates
+  IF _receive_currency <> _currency THEN
+    SELECT rate INTO _fx_rate
+    FROM public.fx_rates
+    WHERE base_currency = _currency AND quote_currency = _receive_currency;
+
+    IF _fx_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate from % to %', _currency, _receive_currency
+        USING HINT = 'fx_rate_unavailable';
+    END IF;
+
+    _received_amount := round(_amount * _fx_rate, 2);
+  END IF;
+
+  -- Check sender balance
+  SELECT balance, offline_reserve, offline_daily_limit
+  INTO _sender_balance, _sender_reserve, _offline_limit
+  FROM public.wallets WHERE user_id = _sender_id AND currency = _currency FOR UPDATE;
+
+  IF _sender_balance IS NULL THEN
+    RAISE EXCEPTION 'Sender wallet not found'
+      USING HINT = 'sender_wallet_not_found';
+  END IF;
+
+  IF _is_offline THEN
+    -- A backdated voucher would land on a day with unused limit, so it must be recent.
+    -- submit_offline_voucher checks it is no older than the device key that signed it.
+    IF _offline_timestamp < now() - INTERVAL '72 hours' THEN
+      RAISE EXCEPTION 'Offline voucher is too old to settle'
+        USING HINT = 'voucher_expired';
+    END IF;
+
+    _offline_date := COALESCE(_offline_timestamp, now())::date;
+
+    INSERT INTO public.offline_daily_usage (user_id, usage_date)
+    VALUES (_sender_id, _offline_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT amount_used INTO _offline_used
+    FROM public.offline_daily_usage
+    WHERE user_id = _sender_id AND usage_date = _offline_date
+    FOR UPDATE;
+
+    IF _offline_used + _amount > _offline_limit THEN
+      RAISE EXCEPTION 'Offline daily limit exceeded'
+        USING HINT = 'offline_limit_exceeded';
+    END IF;
+
+    UPDATE public.offline_daily_usage
+    SET amount_used = amount_used + _amount
+    WHERE user_id = _sender_id AND usage_date = _offline_date;
+
+    -- Mirror today's usage onto the wallet counter the app displays
+    IF _offline_date = CURRENT_DATE THEN
+      UPDATE public.wallets
+      SET offline_used_today = _offline_used + _amount,
+          last_offline_reset = CURRENT_DATE
+      WHERE user_id = _sender_id AND currency = _currency;
+    END IF;
+  END IF;
+
+  IF _is_offline AND _sender_reserve >= _amount THEN
+    -- Paid from the escrowed offline purse
+    _source_account := 'offline_reserve';
+  ELSE
+    IF _sender_balance < _amount THEN
+      RAISE EXCEPTION 'Insufficient balance'
+        USING HINT = 'insufficient_balance';
+    END IF;
+    _source_account := 'wallet_balance';
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, currency, received_amount, received_currency, fx_rate,
+    status, description, is_offline, transaction_hash, device_id, synced_at,
+    voucher_signature, offline_created_at
+  )
+  VALUES (
+    _sender_id, _receiver_id, _amount, _currency, _received_amount,
+    CASE WHEN _fx_rate IS NULL THEN NULL ELSE _receive_currency END, _fx_rate,
+    'completed', _description, _is_offline, _transaction_hash, _device_id,
+    CASE WHEN _is_offline THEN now() ELSE NULL END,
+    _voucher_signature,
+    CASE WHEN _is_offline THEN COALESCE(_offline_timestamp, now()) ELSE NULL END
+  )
+  RETURNING id INTO _transaction_id;
+
+  IF _fx_rate IS NULL THEN
+    PERFORM public.post_ledger_transfer(
+      _sender_id, _source_account, _receiver_id, 'wallet_balance',
+      _amount, _currency, 'transfer', _transaction_id
+    );
+  ELSE
+    -- A conversion leaves the system in one currency and enters it in the other
+    PERFORM public.post_ledger_transfer(
+      _sender_id, _source_account, NULL, 'external',
+      _amount, _currency, 'transfer', _transaction_id
+    );
+    PERFORM public.post_ledger_transfer(
+      NULL, 'external', _receiver_id, 'wallet_balance',
+      _received_amount, _receive_currency, 'transfer', _transaction_id
+    );
+  END IF;
+
+  RETURN _transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reverse_transaction(
+  _transaction_id UUID,
+  _amount DECIMAL DEFAULT NULL,
+  _reason VARCHAR DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.transactions;
+  _is_admin BOOLEAN;
+  _remaining DECIMAL;
+  _refund DECIMAL;
+  _refund_currency CHAR(3);
+  _returned DECIMAL;
+  _receiver_balance DECIMAL;
+  _description VARCHAR;
+  _reversal_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  _is_admin := public.has_role(auth.uid(), 'admin');
+  SELECT * INTO _original FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (_is_admin OR auth.uid() IN (_original.sender_id, _original.receiver_id)) THEN
+    RAISE EXCEPTION 'Transaction not found'
+      USING HINT = 'transaction_not_found';
+  END IF;
+
+  IF NOT _is_admin AND auth.uid() IS DISTINCT FROM _original.receiver_id THEN
+    RAISE EXCEPTION 'Only the receiver can refund a payment'
+      USING HINT = 'unauthorized_reversal';
+  END IF;
+
+  IF _original.status <> 'completed'
+    OR _original.original_transaction_id IS NOT NULL
+    OR _original.sender_id IS NULL
+    OR _original.receiver_id IS NULL
+  THEN
+    RAISE EXCEPTION 'This transaction cannot be reversed'
+      USING HINT = 'transaction_not_reversible';
+  END IF;
+
+  _remaining := _original.amount - _original.refunded_amount;
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Transaction has already been reversed'
+      USING HINT = 'already_reversed';
+  END IF;
+
+  _refund := COALESCE(_amount, _remaining);
+  IF _refund <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING HINT = 'invalid_amount';
+  END IF;
+  IF _refund > _remaining THEN
+    RAISE EXCEPTION 'Refund exceeds the amount left to refund (%)', _remaining
+      USING HINT = 'refund_exceeds_remaining';
+  END IF;
+
+  -- A conversion is undone at its original rate by handing back exactly what the
+  -- receiver got, which a partial refund could not do without rounding
+  IF _original.received_currency IS NOT NULL THEN
+    IF _refund <> _original.amount THEN
+      RAISE EXCEPTION 'Converted payments can only be refunded in full'
+        USING HINT = 'fx_partial_refund';
+    END IF;
+    _refund_currency := _original.received_currency;
+    _returned := _original.received_amount;
+  ELSE
+    _refund_currency := _original.currency;
+    _returned := _refund;
+  END IF;
+
+  -- Lock both wallets in a fixed order so concurrent reversals cannot deadlock
+  PERFORM 1 FROM public.wallets
+  WHERE (user_id = _original.sender_id AND currency = _original.currency)
+    OR (user_id = _original.receiver_id AND currency = _refund_currency)
+  ORDER BY user_id, currency
+  FOR UPDATE;
+
+  SELECT balance INTO _receiver_balance FROM public.wallets
+  WHERE user_id = _original.receiver_id AND currency = _refund_currency;
+  IF _receiver_balance IS NULL OR _receiver_balance < _returned THEN
+    RAISE EXCEPTION 'Insufficient balance'
+      USING HINT = 'insufficient_balance';
+  END IF;
+
+  _description := LEFT(COALESCE(
+    NULLIF(btrim(_reason), ''),
+    CASE WHEN auth.uid() = _original.receiver_id THEN 'Refund' ELSE 'Reversed by admin' END
+  ), 255);
+
+  -- The reversal's amount is what leaves the receiver, so a refunded conversion is
+  -- recorded as the opposite conversion
+  INSERT INTO public.transactions (
+    sender_id, receiver_id, amount, currency, received_amount, received_currency, fx_rate,
+    status, description, original_transaction_id, reversed_by
+  )
+  VALUES (
+    _original.receiver_id, _original.sender_id, _returned, _refund_currency,
+    CASE WHEN _original.received_currency IS NULL THEN NULL ELSE _refund END,
+    CASE WHEN _original.received_currency IS NULL THEN NULL ELSE _original.currency END,
+    CASE WHEN _original.received_currency IS NULL THEN NULL ELSE round(_refund / _returned, 8) END,
+    'completed', _description, _original.id, auth.uid()
+  )
+  RETURNING id INTO _reversal_id;
+
+  -- Money returns to the sender's online balance even if it left their offline purse,
+  -- and offline daily usage is not given back
+  IF _original.received_currency IS NULL THEN
+    PERFORM public.post_ledger_transfer(
+      _original.receiver_id, 'wallet_balance', _original.sender_id, 'wallet_balance',
+      _refund, _original.currency, 'reversal', _reversal_id
+    );
+  ELSE
+    PERFORM public.post_ledger_transfer(
+      _original.receiver_id, 'wallet_balance', NULL, 'external',
+      _returned, _refund_currency, 'reversal', _reversal_id
+    );
+    PERFORM public.post_ledger_transfer(
+      NULL, 'external', _original.sender_id, 'wallet_balance',
+      _refund, _original.currency, 'reversal', _reversal_id
+    );
+  END IF;
+
+  UPDATE public.transactions
+  SET refunded_amount = refunded_amount + _refund,
+      fraud_flagged = CASE WHEN _is_admin THEN false ELSE fraud_flagged END,
+      fraud_reason = CASE WHEN _is_admin AND fraud_flagged THEN _description ELSE fraud_reason END
+  WHERE id = _original.id;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- Reconciliation now compares each wallet with the entries in its own currency
+DROP FUNCTION public.reconcile_wallet_balances();
+
+CREATE OR REPLACE FUNCTION public.reconcile_wallet_balances()
+RETURNS TABLE (
+  user_id UUID,
+  display_name VARCHAR,
+  payment_id VARCHAR,
+  currency CHAR(3),
+  account ledger_account,
+  wallet_amount DECIMAL,
+  ledger_amount DECIMAL,
+  drift DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reconcile balances'
+      USING HINT = 'admin_only';
+  END IF;
+
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT
+      e.user_id,
+      e.currency,
+      e.account,
+      sum(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE -e.amount END) AS amount
+    FROM public.ledger_entries e
+    WHERE e.user_id IS NOT NULL
+    GROUP BY e.user_id, e.currency, e.account
+  ),
+  stored AS (
+    SELECT w.user_id, w.currency, 'wallet_balance'::ledger_account AS account, w.balance AS amount
+    FROM public.wallets w
+    UNION ALL
+    SELECT w.user_id, w.currency, 'offline_reserve'::ledger_account, w.offline_reserve
+    FROM public.wallets w
+  )
+  SELECT
+    COALESCE(s.user_id, l.user_id),
+    p.display_name,
+    p.payment_id,
+    COALESCE(s.currency, l.currency),
+    COALESCE(s.account, l.account),
+    COALESCE(s.amount, 0),
+    COALESCE(l.amount, 0),
+    COALESCE(s.amount, 0) - COALESCE(l.amount, 0)
+  FROM stored s
+  FULL JOIN ledger l
+    ON l.user_id = s.user_id AND l.currency = s.currency AND l.account = s.account
+  LEFT JOIN public.profiles p ON p.user_id = COALESCE(s.user_id, l.user_id)
+  WHERE COALESCE(s.amount, 0) <> COALESCE(l.amount, 0)
+  ORDER BY abs(COALESCE(s.amount, 0) - COALESCE(l.amount, 0)) DESC;
+END;
+$$;
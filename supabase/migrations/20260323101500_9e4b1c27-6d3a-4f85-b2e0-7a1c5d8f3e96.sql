@@ -0,0 +1,165 @@
+-- PINs are hashed with bcrypt on the server and never leave it. The hash moves out of
+-- profiles (which admins and the owner can read) into user_pins, which has no policies,
+-- so only the SECURITY DEFINER functions below can touch it.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.user_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  algorithm TEXT NOT NULL DEFAULT 'bcrypt' CHECK (algorithm IN ('bcrypt', 'legacy')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.user_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_pins_updated_at
+  BEFORE UPDATE ON public.user_pins
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing hashes were made by the old client-side function; they are kept as 'legacy'
+-- and rehashed with bcrypt the next time the PIN is verified
+INSERT INTO public.user_pins (user_id, pin_hash, algorithm)
+SELECT user_id, pin_hash, 'legacy' FROM public.profiles;
+
+ALTER TABLE public.profiles DROP COLUMN pin_hash;
+
+-- Port of the old client hash: a 32-bit rolling hash of PIN + fixed salt
+CREATE OR REPLACE FUNCTION public.legacy_pin_hash(_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _input TEXT := _pin || 'offlinepay-salt-v1';
+  _hash BIGINT := 0;
+BEGIN
+  FOR i IN 1..length(_input) LOOP
+    _hash := (_hash * 31 + ascii(substr(_input, i, 1))) & 4294967295;
+  END LOOP;
+
+  IF _hash >= 2147483648 THEN
+    _hash := _hash - 4294967296;
+  END IF;
+
+  RETURN lpad(to_hex(abs(_hash)), 16, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_valid_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 digits'
+      USING HINT = 'invalid_pin';
+  END IF;
+END;
+$$;
+
+-- Checks a PIN for any user, upgrading a legacy hash once the PIN is known to match
+CREATE OR REPLACE FUNCTION public.check_pin(_user_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stored public.user_pins%ROWTYPE;
+BEGIN
+  SELECT * INTO _stored FROM public.user_pins WHERE user_id = _user_id FOR UPDATE;
+
+  IF NOT FOUND OR _pin IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF _stored.algorithm = 'legacy' THEN
+    IF public.legacy_pin_hash(_pin) <> _stored.pin_hash THEN
+      RETURN false;
+    END IF;
+
+    UPDATE public.user_pins
+    SET pin_hash = extensions.crypt(_pin, extensions.gen_salt('bf', 10)),
+        algorithm = 'bcrypt'
+    WHERE user_id = _user_id;
+    RETURN true;
+  END IF;
+
+  RETURN extensions.crypt(_pin, _stored.pin_hash) = _stored.pin_hash;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.verify_pin(_pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  RETURN public.check_pin(auth.uid(), _pin);
+END;
+$$;
+
+-- Sets the PIN of a new account; an existing PIN can only be replaced through change_pin
+CREATE OR REPLACE FUNCTION public.create_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  PERFORM public.assert_valid_pin(_pin);
+
+  INSERT INTO public.user_pins (user_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(_pin, extensions.gen_salt('bf', 10)))
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A PIN is already set for this account'
+      USING HINT = 'pin_already_set';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.change_pin(_current_pin TEXT, _new_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  PERFORM public.assert_valid_pin(_new_pin);
+
+  IF NOT public.check_pin(auth.uid(), _current_pin) THEN
+    RAISE EXCEPTION 'Current PIN is incorrect'
+      USING HINT = 'incorrect_pin';
+  END IF;
+
+  UPDATE public.user_pins
+  SET pin_hash = extensions.crypt(_new_pin, extensions.gen_salt('bf', 10)),
+      algorithm = 'bcrypt'
+  WHERE user_id = auth.uid();
+END;
+$$;
@@ -0,0 +1,192 @@
+-- PIN guessing is throttled per phone number and per device. Every PIN check now goes
+-- through attempt_pin, called by the pin-auth edge function, so verify_pin and
+-- change_pin are no longer exposed to clients.
+
+CREATE TABLE public.pin_attempts (
+  scope TEXT NOT NULL CHECK (scope IN ('phone', 'device')),
+  subject TEXT NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  lockout_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (scope, subject)
+);
+
+ALTER TABLE public.pin_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_pin_attempts_updated_at
+  BEFORE UPDATE ON public.pin_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP FUNCTION public.verify_pin(TEXT);
+DROP FUNCTION public.change_pin(TEXT, TEXT);
+
+-- Existing passwords were derived from the PIN alone (the legacy hash, or PBKDF2 salted
+-- with the public phone number), so they could be guessed straight against Supabase Auth.
+-- Replace them with random ones; pin-auth re-keys each at its next verified login.
+UPDATE auth.users
+SET encrypted_password = extensions.crypt(
+  gen_random_uuid()::text || gen_random_uuid()::text,
+  extensions.gen_salt('bf', 10)
+);
+
+-- The wait before another try: none for the first two failures, then 5s, 10s, ...
+CREATE OR REPLACE FUNCTION public.pin_attempt_delay(_failed_count INTEGER)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _failed_count < 3 THEN INTERVAL '0'
+    ELSE INTERVAL '5 seconds' * power(2, _failed_count - 3)
+  END;
+$$;
+
+-- Five failures lock the subject for 15 minutes, doubling with each lockout up to a day
+CREATE OR REPLACE FUNCTION public.pin_lockout_duration(_lockout_count INTEGER)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(INTERVAL '15 minutes' * power(2, _lockout_count - 1), INTERVAL '24 hours');
+$$;
+
+-- Checks a PIN unless the phone or device is locked out or throttled, and records the
+-- outcome. Failures return a row rather than raising so the counters are kept.
+-- _user_id may be NULL for an unknown phone number, which is counted like a wrong PIN.
+CREATE OR REPLACE FUNCTION public.attempt_pin(
+  _user_id UUID,
+  _phone TEXT,
+  _device_id TEXT,
+  _pin TEXT
+)
+RETURNS TABLE (
+  verified BOOLEAN,
+  error_code TEXT,
+  remaining_attempts INTEGER,
+  retry_at TIMESTAMP WITH TIME ZONE,
+  locked_now BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 5;
+  _row public.pin_attempts%ROWTYPE;
+  _rows public.pin_attempts[] := '{}';
+  _max_failed INTEGER := 0;
+  _retry_at TIMESTAMP WITH TIME ZONE;
+  _is_locked BOOLEAN := false;
+  _locked_now BOOLEAN := false;
+BEGIN
+  INSERT INTO public.pin_attempts (scope, subject)
+  SELECT s.scope, s.subject
+  FROM (VALUES ('phone', _phone), ('device', _device_id)) AS s(scope, subject)
+  WHERE s.subject IS NOT NULL
+  ON CONFLICT (scope, subject) DO NOTHING;
+
+  -- Expired lockouts and failures older than a day no longer count
+  UPDATE public.pin_attempts
+  SET failed_count = 0, locked_until = NULL
+  WHERE ((scope = 'phone' AND subject = _phone) OR (scope = 'device' AND subject = _device_id))
+    AND ((locked_until IS NOT NULL AND locked_until <= now())
+      OR (locked_until IS NULL AND last_failed_at < now() - INTERVAL '24 hours'));
+
+  FOR _row IN
+    SELECT * FROM public.pin_attempts
+    WHERE (scope = 'phone' AND subject = _phone) OR (scope = 'device' AND subject = _device_id)
+    ORDER BY scope
+    FOR UPDATE
+  LOOP
+    _rows := _rows || _row;
+    _max_failed := greatest(_max_failed, _row.failed_count);
+
+    IF _row.locked_until IS NOT NULL THEN
+      _is_locked := true;
+      _retry_at := greatest(_retry_at, _row.locked_until);
+    ELSIF _row.last_failed_at + public.pin_attempt_delay(_row.failed_count) > now() THEN
+      _retry_at := greatest(_retry_at, _row.last_failed_at + public.pin_attempt_delay(_row.failed_count));
+    END IF;
+  END LOOP;
+
+  IF _retry_at IS NOT NULL THEN
+    RETURN QUERY SELECT
+      false,
+      CASE WHEN _is_locked THEN 'pin_locked' ELSE 'pin_throttled' END,
+      greatest(_max_attempts - _max_failed, 0),
+      _retry_at,
+      false;
+    RETURN;
+  END IF;
+
+  IF _user_id IS NOT NULL AND public.check_pin(_user_id, _pin) THEN
+    -- A success clears the account's record; the device's failures still count
+    UPDATE public.pin_attempts
+    SET failed_count = 0, lockout_count = 0, last_failed_at = NULL
+    WHERE scope = 'phone' AND subject = _phone;
+
+    RETURN QUERY SELECT true, NULL::TEXT, _max_attempts, NULL::TIMESTAMP WITH TIME ZONE, false;
+    RETURN;
+  END IF;
+
+  _max_failed := 0;
+  _retry_at := NULL;
+  FOREACH _row IN ARRAY _rows LOOP
+    _row.failed_count := _row.failed_count + 1;
+    _row.last_failed_at := now();
+
+    IF _row.failed_count >= _max_attempts THEN
+      _row.lockout_count := _row.lockout_count + 1;
+      _row.locked_until := now() + public.pin_lockout_duration(_row.lockout_count);
+      _locked_now := true;
+    END IF;
+
+    UPDATE public.pin_attempts
+    SET failed_count = _row.failed_count,
+        lockout_count = _row.lockout_count,
+        last_failed_at = _row.last_failed_at,
+        locked_until = _row.locked_until
+    WHERE scope = _row.scope AND subject = _row.subject;
+
+    _max_failed := greatest(_max_failed, _row.failed_count);
+    _retry_at := greatest(_retry_at, _row.locked_until);
+  END LOOP;
+
+  IF NOT _locked_now THEN
+    _retry_at := now() + public.pin_attempt_delay(_max_failed);
+  END IF;
+
+  RETURN QUERY SELECT
+    false,
+    CASE WHEN _locked_now THEN 'pin_locked' ELSE 'incorrect_pin' END,
+    greatest(_max_attempts - _max_failed, 0),
+    CASE WHEN _retry_at > now() THEN _retry_at END,
+    _locked_now;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_pin(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attempt_pin(UUID, TEXT, TEXT, TEXT) TO service_role;
+
+-- Replaces a PIN that attempt_pin has just verified
+CREATE OR REPLACE FUNCTION public.set_pin(_user_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_valid_pin(_pin);
+
+  UPDATE public.user_pins
+  SET pin_hash = extensions.crypt(_pin, extensions.gen_salt('bf', 10)),
+      algorithm = 'bcrypt'
+  WHERE user_id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_pin(UUID, TEXT) TO service_role;
@@ -0,0 +1,240 @@
+-- One-time codes sent by SMS to prove a phone number, issued and checked by the otp
+-- edge function. Only an HMAC of each code is stored.
+
+CREATE TABLE public.otp_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone VARCHAR(15) NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('signup', 'reset_pin')),
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  -- Where the request came from, for the per-address limit
+  client_ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_otp_codes_phone_purpose ON public.otp_codes(phone, purpose, created_at DESC);
+CREATE INDEX idx_otp_codes_client_ip ON public.otp_codes(client_ip, created_at DESC);
+CREATE INDEX idx_otp_codes_created_at ON public.otp_codes(created_at DESC);
+
+ALTER TABLE public.otp_codes ENABLE ROW LEVEL SECURITY;
+
+-- Stores a new code unless the phone has had one in the last minute or five in the last
+-- hour. Every code is a paid SMS, so there are also caps per client address (20 an hour)
+-- and across all numbers (1000 an hour). Older codes for the same purpose stop working.
+CREATE OR REPLACE FUNCTION public.issue_otp(
+  _phone TEXT,
+  _purpose TEXT,
+  _code_hash TEXT,
+  _client_ip TEXT
+)
+RETURNS TABLE (
+  issued BOOLEAN,
+  error_code TEXT,
+  retry_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last_sent_at TIMESTAMP WITH TIME ZONE;
+  _sent_last_hour INTEGER;
+  _first_in_hour TIMESTAMP WITH TIME ZONE;
+  _first_for_ip TIMESTAMP WITH TIME ZONE;
+  _first_overall TIMESTAMP WITH TIME ZONE;
+  _expires_at TIMESTAMP WITH TIME ZONE := now() + INTERVAL '5 minutes';
+BEGIN
+  -- Serialises requests for the same number and address so the limits cannot be raced
+  PERFORM pg_advisory_xact_lock(hashtext('otp:' || _phone));
+  IF _client_ip IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('otp-ip:' || _client_ip));
+  END IF;
+
+  SELECT max(c.created_at), count(*), min(c.created_at)
+  INTO _last_sent_at, _sent_last_hour, _first_in_hour
+  FROM public.otp_codes c
+  WHERE c.phone = _phone AND c.created_at > now() - INTERVAL '1 hour';
+
+  IF _last_sent_at > now() - INTERVAL '1 minute' THEN
+    RETURN QUERY SELECT false, 'otp_rate_limited', _last_sent_at + INTERVAL '1 minute', NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF _sent_last_hour >= 5 THEN
+    RETURN QUERY SELECT false, 'otp_rate_limited', _first_in_hour + INTERVAL '1 hour', NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF _client_ip IS NOT NULL THEN
+    SELECT min(c.created_at) INTO _first_for_ip
+    FROM (
+      SELECT created_at FROM public.otp_codes
+      WHERE client_ip = _client_ip AND created_at > now() - INTERVAL '1 hour'
+      ORDER BY created_at DESC
+      LIMIT 20
+    ) c
+    HAVING count(*) >= 20;
+
+    IF _first_for_ip IS NOT NULL THEN
+      RETURN QUERY SELECT false, 'otp_rate_limited', _first_for_ip + INTERVAL '1 hour', NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT min(c.created_at) INTO _first_overall
+  FROM (
+    SELECT created_at FROM public.otp_codes
+    WHERE created_at > now() - INTERVAL '1 hour'
+    ORDER BY created_at DESC
+    LIMIT 1000
+  ) c
+  HAVING count(*) >= 1000;
+
+  IF _first_overall IS NOT NULL THEN
+    RETURN QUERY SELECT false, 'otp_rate_limited', _first_overall + INTERVAL '1 hour', NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  UPDATE public.otp_codes c
+  SET consumed_at = now()
+  WHERE c.phone = _phone AND c.purpose = _purpose AND c.consumed_at IS NULL;
+
+  INSERT INTO public.otp_codes (phone, purpose, code_hash, expires_at, client_ip)
+  VALUES (_phone, _purpose, _code_hash, _expires_at, _client_ip);
+
+  RETURN QUERY SELECT true, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, _expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_otp(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_otp(TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- Checks the latest code for a phone. Five wrong guesses burn the code; a right one marks
+-- it verified so it cannot be checked again.
+CREATE OR REPLACE FUNCTION public.check_otp(_phone TEXT, _purpose TEXT, _code_hash TEXT)
+RETURNS TABLE (
+  verified BOOLEAN,
+  error_code TEXT,
+  remaining_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 5;
+  _code public.otp_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO _code
+  FROM public.otp_codes c
+  WHERE c.phone = _phone AND c.purpose = _purpose
+    AND c.consumed_at IS NULL AND c.verified_at IS NULL
+  ORDER BY c.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR _code.expires_at <= now() THEN
+    RETURN QUERY SELECT false, 'otp_expired', 0;
+    RETURN;
+  END IF;
+
+  IF _code.code_hash <> _code_hash THEN
+    UPDATE public.otp_codes c
+    SET attempts = c.attempts + 1,
+        consumed_at = CASE WHEN c.attempts + 1 >= _max_attempts THEN now() END
+    WHERE c.id = _code.id;
+
+    IF _code.attempts + 1 >= _max_attempts THEN
+      RETURN QUERY SELECT false, 'otp_attempts_exceeded', 0;
+    ELSE
+      RETURN QUERY SELECT false, 'otp_invalid', _max_attempts - _code.attempts - 1;
+    END IF;
+    RETURN;
+  END IF;
+
+  UPDATE public.otp_codes c SET verified_at = now() WHERE c.id = _code.id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, _max_attempts - _code.attempts;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_otp(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_otp(TEXT, TEXT, TEXT) TO service_role;
+
+-- A profile can only be created for, or moved to, a number verified in the last 15
+-- minutes, and each verification is good for one profile
+CREATE OR REPLACE FUNCTION public.require_verified_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.phone = OLD.phone THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.id INTO _code_id
+  FROM public.otp_codes c
+  WHERE c.phone = NEW.phone AND c.purpose = 'signup'
+    AND c.verified_at > now() - INTERVAL '15 minutes'
+    AND c.consumed_at IS NULL
+  ORDER BY c.verified_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Phone number % has not been verified', NEW.phone
+      USING HINT = 'phone_not_verified';
+  END IF;
+
+  UPDATE public.otp_codes SET consumed_at = now() WHERE id = _code_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_verified_phone
+  BEFORE INSERT OR UPDATE OF phone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.require_verified_phone();
+
+-- Keys that re-open a device's offline vault after a PIN reset. Each device seals its
+-- vault's data key with one; the otp edge function hands it back to that device once a
+-- reset code checks out. There are no policies: clients can write a key but never read one.
+CREATE TABLE public.vault_recovery_keys (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  device_id VARCHAR(255) NOT NULL,
+  recovery_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, device_id)
+);
+
+ALTER TABLE public.vault_recovery_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.save_vault_recovery_key(_device_id VARCHAR, _recovery_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING HINT = 'not_authenticated';
+  END IF;
+
+  INSERT INTO public.vault_recovery_keys (user_id, device_id, recovery_key)
+  VALUES (auth.uid(), _device_id, _recovery_key)
+  ON CONFLICT (user_id, device_id) DO UPDATE
+  SET recovery_key = EXCLUDED.recovery_key,
+      created_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_vault_recovery_key(VARCHAR, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_vault_recovery_key(VARCHAR, TEXT) TO authenticated;
@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Bundles the shared sync engine for the service worker. public/sw.js loads the
+// output with importScripts, so it must be a classic script at the site root.
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    outDir: "dist",
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, "./src/lib/backgroundSync.ts"),
+      name: "OfflinePaySync",
+      formats: ["iife"],
+      fileName: () => "sw-sync.js",
+    },
+  },
+});